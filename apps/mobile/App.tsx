@@ -7,12 +7,32 @@ import {
   Alert,
   SafeAreaView,
   StatusBar,
+  Switch,
 } from 'react-native';
 import { RecordingProvider, useRecording } from './src/contexts/RecordingContext';
 import { CameraScreen } from './src/screens/CameraScreen';
 import { ReviewScreen } from './src/screens/ReviewScreen';
-import { firestoreService } from './src/services/firestoreService';
-import { Photo, Inspection } from './src/types';
+import { inspectionRepository } from './src/services/inspectionRepository';
+import { syncService } from './src/services/syncService';
+import { uploadQueue } from './src/services/uploadQueue';
+import { photoSaveQueue } from './src/services/photoSaveQueue';
+import { imageProcessingService } from './src/services/imageProcessingService';
+import { recoveryService } from './src/services/recoveryService';
+import { photoTrashService } from './src/services/photoTrashService';
+import { inspectionDeletionService } from './src/services/inspectionDeletionService';
+import { recordingProfileService } from './src/services/recordingProfileService';
+import { getRecordingProfile, RECORDING_PROFILES } from './src/config/recordingProfiles';
+import { getTimelineDuration } from './src/utils/audioChunks';
+import { getNextSessionResumePoint } from './src/utils/audioSessions';
+import { EXPECTED_INSPECTION_DURATION_MS, formatBytes } from './src/utils/storageBudget';
+import {
+  Photo,
+  Inspection,
+  InterruptedInspection,
+  RecordingProfile,
+  RecordingProfileId,
+  UploadQueueState,
+} from './src/types';
 
 type Screen = 'home' | 'camera' | 'review';
 
@@ -24,58 +44,194 @@ const InspectionApp: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
   const [currentInspection, setCurrentInspection] = useState<Inspection | null>(null);
   const [capturedPhotos, setCapturedPhotos] = useState<Photo[]>([]);
-  const { recordingState, startRecording, stopRecording, resetRecording } = useRecording();
+  const {
+    recordingState,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    resetRecording,
+  } = useRecording();
   const [pendingInspectionId, setPendingInspectionId] = useState<string | null>(null); // for async safety
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [uploadState, setUploadState] = useState<UploadQueueState>({ pending: 0, failed: 0 });
+  const [wifiOnlyUploads, setWifiOnlyUploads] = useState(false);
+  const [keepOriginalPhotos, setKeepOriginalPhotos] = useState(false);
+  const [interruptedInspections, setInterruptedInspections] = useState<InterruptedInspection[]>([]);
+  const [recordingProfile, setRecordingProfile] = useState<RecordingProfile>(getRecordingProfile());
+
+  // Load the profile new inspections are recorded with
+  useEffect(() => {
+    recordingProfileService.getDefaultProfile()
+      .then(setRecordingProfile)
+      .catch(error => console.error('Failed to load recording profile:', error));
+    imageProcessingService.getOriginalPolicy()
+      .then(policy => setKeepOriginalPhotos(policy === 'KEEP'))
+      .catch(error => console.error('Failed to load photo setting:', error));
+  }, []);
+
+  // Remove photos that have been in the trash too long
+  useEffect(() => {
+    photoTrashService.emptyExpiredTrash()
+      .catch(error => console.error('Failed to empty photo trash:', error));
+  }, []);
+
+  // Sync queued changes whenever we're online and track how many are left
+  useEffect(() => {
+    syncService.start();
+    const unsubscribe = syncService.subscribe(setPendingSyncCount);
+    return () => {
+      unsubscribe();
+      syncService.stop();
+    };
+  }, []);
+
+  // Upload queued photos and audio when the network allows
+  useEffect(() => {
+    uploadQueue.start()
+      .then(() => setWifiOnlyUploads(uploadQueue.getNetworkPolicy() === 'WIFI_ONLY'))
+      .catch(error => console.error('Failed to start upload queue:', error));
+    const unsubscribe = uploadQueue.subscribe(setUploadState);
+    return () => {
+      unsubscribe();
+      uploadQueue.stop();
+    };
+  }, []);
+
+  // Look for inspections the app was killed in the middle of whenever we're home
+  useEffect(() => {
+    if (currentScreen !== 'home') {
+      return;
+    }
+
+    let cancelled = false;
+    recoveryService.findInterruptedInspections()
+      .then(found => {
+        if (!cancelled) {
+          setInterruptedInspections(found);
+        }
+      })
+      .catch(error => console.error('Failed to look for interrupted inspections:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentScreen]);
+
+  /**
+   * Switch uploads between Wi-Fi only and any connection
+   */
+  const handleWifiOnlyChange = async (wifiOnly: boolean) => {
+    setWifiOnlyUploads(wifiOnly);
+    try {
+      await uploadQueue.setNetworkPolicy(wifiOnly ? 'WIFI_ONLY' : 'ANY');
+    } catch (error) {
+      console.error('Failed to save upload setting:', error);
+      setWifiOnlyUploads(!wifiOnly);
+    }
+  };
+
+  /**
+   * Choose whether full-resolution photos stay on the phone after processing
+   */
+  const handleKeepOriginalsChange = async (keepOriginals: boolean) => {
+    setKeepOriginalPhotos(keepOriginals);
+    try {
+      await imageProcessingService.setOriginalPolicy(keepOriginals ? 'KEEP' : 'DISCARD');
+    } catch (error) {
+      console.error('Failed to save photo setting:', error);
+      setKeepOriginalPhotos(!keepOriginals);
+    }
+  };
+
+  /**
+   * Choose the recording profile for new inspections
+   */
+  const handleProfileChange = async (profileId: RecordingProfileId) => {
+    const previous = recordingProfile;
+    setRecordingProfile(getRecordingProfile(profileId));
+    try {
+      await recordingProfileService.setDefaultProfile(profileId);
+    } catch (error) {
+      console.error('Failed to save recording profile:', error);
+      setRecordingProfile(previous);
+    }
+  };
+
+  /**
+   * Check there is room for a full inspection, asking the engineer whether to
+   * go ahead if there isn't
+   */
+  const confirmStorageForRecording = async (profile: RecordingProfile): Promise<boolean> => {
+    try {
+      const budget = await recordingProfileService.checkStorage(profile);
+      if (budget.sufficient) {
+        return true;
+      }
+
+      return await new Promise<boolean>(resolve => {
+        Alert.alert(
+          'Storage Almost Full',
+          `Only ${formatBytes(budget.freeBytes)} is free. A ${EXPECTED_INSPECTION_DURATION_MS / 3600000} hour ` +
+          `inspection needs about ` +
+          `${formatBytes(budget.estimatedBytes)} of audio, plus room for photos - ` +
+          `there is room for about ${Math.floor(budget.maxDurationMs / 60000)} minutes.`,
+          [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Start Anyway', onPress: () => resolve(true) },
+          ]
+        );
+      });
+    } catch (error) {
+      // Not being able to check shouldn't stop an inspection
+      console.error('Failed to check free storage:', error);
+      return true;
+    }
+  };
+
+  /**
+   * Retry uploads that ran out of automatic retries
+   */
+  const handleRetryFailedUploads = async () => {
+    try {
+      await uploadQueue.retryFailedUploads();
+    } catch (error) {
+      console.error('Failed to retry uploads:', error);
+      Alert.alert('Error', 'Failed to retry uploads');
+    }
+  };
 
   /**
    * Create a new inspection and start recording automatically
    */
   const createNewInspection = async () => {
     try {
+      const profile = recordingProfile;
+      if (!(await confirmStorageForRecording(profile))) {
+        return;
+      }
+
       const today = new Date().toISOString().split('T')[0];
-      const inspection: Omit<Inspection, 'photos' | 'createdAt' | 'updatedAt'> = {
-        id: '', // Will be set by Firestore
+
+      // Save locally first - the sync service pushes it to Firestore when online
+      const createdInspection = await inspectionRepository.createInspection({
         client: 'Demo Client',
         address: '123 Demo Street, Demo City',
         claimNumber: `CLM-${Date.now()}`,
         inspectionDate: today,
+        recordingProfile: profile.id,
         status: 'DRAFT',
-      };
-
-      // Save to Firestore
-      const inspectionId = await firestoreService.createInspection({
-        client: inspection.client,
-        address: inspection.address,
-        claimNumber: inspection.claimNumber,
-        inspectionDate: inspection.inspectionDate,
-        status: inspection.status,
       });
-      setPendingInspectionId(inspectionId); // Save for async safety
-      console.log('Inspection created, Firestore ID:', inspectionId);
-
-      // Get the created inspection from Firestore
-      const createdInspection = await firestoreService.getInspection(inspectionId);
-      if (createdInspection) {
-        setCurrentInspection({
-          id: inspectionId, // Always use Firestore ID
-          client: createdInspection.client,
-          address: createdInspection.address,
-          claimNumber: createdInspection.claimNumber,
-          inspectionDate: createdInspection.inspectionDate,
-          photos: [],
-          status: createdInspection.status,
-          createdAt: createdInspection.createdAt?.toMillis?.() || Date.now(),
-          updatedAt: createdInspection.updatedAt?.toMillis?.() || Date.now(),
-        });
-        setCapturedPhotos([]);
-        setCurrentScreen('camera');
-      } else {
-        Alert.alert('Error', 'Failed to fetch created inspection from Firestore');
-      }
+      setPendingInspectionId(createdInspection.id); // Save for async safety
+      console.log('Inspection created locally with ID:', createdInspection.id);
+
+      setCurrentInspection(createdInspection);
+      setCapturedPhotos([]);
+      setCurrentScreen('camera');
 
       // Start recording automatically when inspection begins
       try {
-        await startRecording();
+        await startRecording(createdInspection.id, { profile });
         console.log('Audio recording started automatically');
       } catch (error) {
         console.error('Failed to start audio recording:', error);
@@ -87,17 +243,67 @@ const InspectionApp: React.FC = () => {
     }
   };
 
+  /**
+   * Carry on an interrupted inspection, recording onto the end of its timeline
+   */
+  const handleResumeInterrupted = async (interrupted: InterruptedInspection) => {
+    const { inspection, resumePoint } = interrupted;
+    setPendingInspectionId(inspection.id);
+    setCurrentInspection(inspection);
+    setCapturedPhotos(inspection.photos);
+    setCurrentScreen('camera');
+
+    try {
+      await startRecording(inspection.id, {
+        profile: getRecordingProfile(inspection.recordingProfile),
+        resumeFrom: resumePoint,
+      });
+      console.log('Interrupted inspection resumed:', inspection.id);
+    } catch (error) {
+      console.error('Failed to resume audio recording:', error);
+      Alert.alert('Warning', 'Audio recording failed to start, but you can continue with photos.');
+    }
+  };
+
+  /**
+   * Close an interrupted inspection with what was recovered and review it
+   */
+  const handleFinishInterrupted = async (interrupted: InterruptedInspection) => {
+    try {
+      await recoveryService.finishInterruptedInspection(interrupted);
+      const { inspection, resumePoint } = interrupted;
+      setPendingInspectionId(inspection.id);
+      setCurrentInspection({ ...inspection, audioUri: resumePoint.chunks[0]?.uri, audioPauses: resumePoint.pauses });
+      setCapturedPhotos(inspection.photos);
+      setCurrentScreen('review');
+    } catch (error) {
+      console.error('Failed to finish interrupted inspection:', error);
+      Alert.alert('Error', 'Failed to finish the inspection');
+    }
+  };
+
+  /**
+   * Go to review once the last captured photos are saved
+   */
+  const handleOpenReview = async () => {
+    await photoSaveQueue.flush();
+    setCurrentScreen('review');
+  };
+
   /**
    * Stop the inspection recording and go to review
    */
   const handleStopInspection = async () => {
     try {
-      const audioUri = await stopRecording(currentInspection?.id);
-      if (audioUri && currentInspection) {
-        // Update inspection with audio URI in Firestore
-        await firestoreService.updateInspectionAudioUrl(currentInspection.id, audioUri);
-        setCurrentInspection(prev => prev ? { ...prev, audioUri } : null);
+      const recordedAudio = await stopRecording();
+      if (recordedAudio && currentInspection) {
+        // Update inspection with audio URI and where the recording was paused or silent
+        const { uri: audioUri, pauses: audioPauses, silences: audioSilences, chunks: audioChunks } = recordedAudio;
+        await inspectionRepository.updateInspectionAudioUrl(currentInspection.id, audioUri, audioPauses, audioSilences);
+        setCurrentInspection(prev => prev ? { ...prev, audioUri, audioPauses, audioSilences, audioChunks } : null);
       }
+      // Photos taken just before stopping may still be saving
+      await photoSaveQueue.flush();
       setCurrentScreen('review');
     } catch (error) {
       console.error('Failed to stop recording:', error);
@@ -105,6 +311,22 @@ const InspectionApp: React.FC = () => {
     }
   };
 
+  /**
+   * Pause or resume the inspection recording
+   */
+  const handleTogglePause = async () => {
+    try {
+      if (recordingState.isPaused || recordingState.isInterrupted) {
+        await resumeRecording();
+      } else {
+        await pauseRecording();
+      }
+    } catch (error) {
+      console.error('Failed to pause/resume recording:', error);
+      Alert.alert('Error', 'Failed to pause or resume audio recording');
+    }
+  };
+
   /**
    * Handle photo capture
    */
@@ -112,11 +334,45 @@ const InspectionApp: React.FC = () => {
     setCapturedPhotos(prev => [...prev, photo]);
   };
 
+  /**
+   * Handle the last photo being deleted from the camera
+   */
+  const handlePhotoDeleted = (photoId: string) => {
+    setCapturedPhotos(prev => prev.filter(photo => photo.id !== photoId));
+  };
+
   /**
    * Navigate back to camera from review
+   * If the inspection was stopped, recording starts again as a new session
+   * on the same timeline, so the earlier audio is kept
    */
-  const handleBackToCamera = () => {
+  const handleBackToCamera = async () => {
     setCurrentScreen('camera');
+    if (!currentInspection) {
+      return;
+    }
+
+    try {
+      const inspection = await inspectionRepository.getInspection(currentInspection.id);
+      if (!inspection) {
+        return;
+      }
+      setCurrentInspection(inspection);
+      // Photos may have been deleted, restored or imported in review
+      setCapturedPhotos(inspection.photos);
+      if (recordingState.isRecording) {
+        return;
+      }
+
+      await startRecording(inspection.id, {
+        profile: getRecordingProfile(inspection.recordingProfile),
+        resumeFrom: getNextSessionResumePoint(inspection) ?? undefined,
+      });
+      console.log('New recording session started for inspection:', inspection.id);
+    } catch (error) {
+      console.error('Failed to start a new recording session:', error);
+      Alert.alert('Warning', 'Audio recording failed to start, but you can continue with photos.');
+    }
   };
 
   /**
@@ -129,6 +385,28 @@ const InspectionApp: React.FC = () => {
     setCurrentScreen('home');
   };
 
+  /**
+   * Delete an inspection from the phone and the server, then go back to home
+   */
+  const handleDeleteInspection = async (inspectionId: string) => {
+    try {
+      if (recordingState.isRecording) {
+        // Let the recorder finish writing its chunk and session before they are deleted
+        await stopRecording().catch(error => console.error('Failed to stop recording before deleting:', error));
+      }
+      await photoSaveQueue.flush();
+
+      const report = await inspectionDeletionService.deleteInspection(inspectionId);
+      if (report.failedFiles > 0) {
+        Alert.alert('Inspection Deleted', `${report.failedFiles} files could not be removed from this phone.`);
+      }
+      handleReset();
+    } catch (error) {
+      console.error('Failed to delete inspection:', error);
+      Alert.alert('Error', 'Failed to delete the inspection. Please try again.');
+    }
+  };
+
   // Render home screen
   if (currentScreen === 'home') {
     return (
@@ -148,6 +426,87 @@ const InspectionApp: React.FC = () => {
             <Text style={styles.bulletPoint}>• Review captured evidence</Text>
           </View>
 
+          {interruptedInspections.map(interrupted => (
+            <View key={interrupted.inspection.id} style={styles.interruptedCard}>
+              <Text style={styles.interruptedTitle}>Unfinished inspection</Text>
+              <Text style={styles.interruptedText}>
+                {interrupted.inspection.client} · {interrupted.inspection.claimNumber}
+              </Text>
+              <Text style={styles.interruptedText}>
+                Photos: {interrupted.inspection.photos.length} · Audio: {Math.floor(getTimelineDuration(interrupted.resumePoint.chunks) / 60000)} min
+              </Text>
+              {interrupted.audioLost && (
+                <Text style={styles.interruptedWarning}>
+                  The last few minutes of audio could not be recovered
+                </Text>
+              )}
+              <View style={styles.interruptedActions}>
+                <TouchableOpacity
+                  style={styles.interruptedButton}
+                  onPress={() => handleResumeInterrupted(interrupted)}
+                >
+                  <Text style={styles.interruptedButtonText}>Resume inspection</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.interruptedButton}
+                  onPress={() => handleFinishInterrupted(interrupted)}
+                >
+                  <Text style={styles.interruptedButtonText}>Finish and review</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {pendingSyncCount > 0 && (
+            <Text style={styles.syncStatusText}>
+              Pending sync: {pendingSyncCount}
+            </Text>
+          )}
+
+          {uploadState.pending > 0 && (
+            <Text style={styles.syncStatusText}>
+              Pending uploads: {uploadState.pending}
+            </Text>
+          )}
+
+          {uploadState.failed > 0 && (
+            <TouchableOpacity style={styles.failedUploadsButton} onPress={handleRetryFailedUploads}>
+              <Text style={styles.failedUploadsText}>
+                {uploadState.failed} {uploadState.failed === 1 ? 'upload' : 'uploads'} failed · Tap to retry
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>Upload on Wi-Fi only</Text>
+            <Switch value={wifiOnlyUploads} onValueChange={handleWifiOnlyChange} />
+          </View>
+
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>Keep full-size originals</Text>
+            <Switch value={keepOriginalPhotos} onValueChange={handleKeepOriginalsChange} />
+          </View>
+
+          <View style={styles.profileSetting}>
+            <Text style={styles.settingLabel}>Recording quality</Text>
+            <View style={styles.profileOptions}>
+              {Object.values(RECORDING_PROFILES).map(profile => (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={[styles.profileOption, profile.id === recordingProfile.id && styles.profileOptionSelected]}
+                  onPress={() => handleProfileChange(profile.id)}
+                >
+                  <Text style={[styles.profileOptionText, profile.id === recordingProfile.id && styles.profileOptionTextSelected]}>
+                    {profile.name}
+                  </Text>
+                  <Text style={[styles.profileOptionDetail, profile.id === recordingProfile.id && styles.profileOptionTextSelected]}>
+                    {profile.bitRate / 1000} kbps {profile.channels === 1 ? 'mono' : 'stereo'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <TouchableOpacity
             style={styles.startButton}
             onPress={createNewInspection}
@@ -180,12 +539,14 @@ const InspectionApp: React.FC = () => {
               </Text>
               <Text style={styles.headerSubtitle}>
                 Photos: {capturedPhotos.length}
+                {pendingSyncCount > 0 ? ` · Pending sync: ${pendingSyncCount}` : ''}
+                {uploadState.pending > 0 ? ` · Uploads: ${uploadState.pending}` : ''}
               </Text>
             </View>
 
             <TouchableOpacity
               style={styles.headerButton}
-              onPress={() => setCurrentScreen('review')}
+              onPress={handleOpenReview}
             >
               <Text style={styles.headerButtonText}>Review</Text>
             </TouchableOpacity>
@@ -196,11 +557,22 @@ const InspectionApp: React.FC = () => {
             <CameraScreen
               inspectionId={currentInspection?.id || ''}
               onPhotoTaken={handlePhotoTaken}
+              onPhotoDeleted={handlePhotoDeleted}
             />
           </View>
 
           {/* Inspection Controls */}
           <View style={styles.inspectionControls}>
+            {recordingState.isRecording && (
+              <TouchableOpacity
+                style={styles.pauseButton}
+                onPress={handleTogglePause}
+              >
+                <Text style={styles.pauseButtonText}>
+                  {recordingState.isPaused || recordingState.isInterrupted ? 'Resume Recording' : 'Pause Recording'}
+                </Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               style={styles.stopButton}
               onPress={handleStopInspection}
@@ -223,6 +595,7 @@ const InspectionApp: React.FC = () => {
         <ReviewScreen
           inspectionId={reviewInspectionId}
           onBack={handleBackToCamera}
+          onDeleteInspection={handleDeleteInspection}
         />
       </SafeAreaView>
     );
@@ -279,6 +652,99 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     textAlign: 'left',
   },
+  syncStatusText: {
+    fontSize: 14,
+    color: '#FF9500',
+    marginBottom: 20,
+  },
+  interruptedCard: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: '#FF9500',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  interruptedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  interruptedText: {
+    fontSize: 14,
+    color: '#6C6C70',
+    marginBottom: 4,
+  },
+  interruptedWarning: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 4,
+  },
+  interruptedActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  interruptedButton: {
+    paddingVertical: 8,
+  },
+  interruptedButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  failedUploadsButton: {
+    marginBottom: 20,
+  },
+  failedUploadsText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginBottom: 20,
+  },
+  settingLabel: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  profileSetting: {
+    alignSelf: 'stretch',
+    marginBottom: 20,
+  },
+  profileOptions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  profileOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 8,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  profileOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  profileOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  profileOptionDetail: {
+    fontSize: 11,
+    color: '#007AFF',
+  },
+  profileOptionTextSelected: {
+    color: '#FFFFFF',
+  },
   startButton: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 40,
@@ -335,6 +801,18 @@ const styles = StyleSheet.create({
     paddingVertical: 20,
     backgroundColor: 'rgba(0, 0, 0, 0.8)',
   },
+  pauseButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  pauseButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   stopButton: {
     backgroundColor: '#FF3B30',
     paddingVertical: 16,
@@ -1,6 +1,10 @@
 import { registerRootComponent } from 'expo';
 
 import App from './App';
+import { recordingForegroundService } from './src/services/recordingForegroundService';
+
+// The Android recording service's task has to be registered before it is started
+recordingForegroundService.register();
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
@@ -17,6 +17,10 @@ jest.mock('expo-av', () => ({
         HIGH_QUALITY: {},
       },
     },
+    AndroidOutputFormat: { MPEG_4: 2 },
+    AndroidAudioEncoder: { AAC: 3 },
+    IOSOutputFormat: { MPEG4AAC: 'aac ' },
+    IOSAudioQuality: { HIGH: 96 },
   },
 }));
 
@@ -25,6 +29,10 @@ jest.mock('expo-file-system', () => ({
   moveAsync: jest.fn(() => Promise.resolve()),
 }));
 
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
 // Mock console methods to reduce noise in tests
 global.console = {
   ...console,
@@ -0,0 +1,31 @@
+const { AndroidConfig, withAndroidManifest } = require('expo/config-plugins');
+
+const SERVICE_NAME = 'app.notifee.core.ForegroundService';
+
+/**
+ * Declares notifee's foreground service as a microphone service
+ * The library declares it as shortService, which Android stops after a few
+ * minutes and which can't use the microphone in the background
+ */
+const withRecordingForegroundService = config =>
+  withAndroidManifest(config, config => {
+    const manifest = config.modResults;
+    manifest.manifest.$['xmlns:tools'] = 'http://schemas.android.com/tools';
+
+    const application = AndroidConfig.Manifest.getMainApplicationOrThrow(manifest);
+    application.service = (application.service ?? []).filter(
+      service => service.$['android:name'] !== SERVICE_NAME
+    );
+    application.service.push({
+      $: {
+        'android:name': SERVICE_NAME,
+        'android:exported': 'false',
+        'android:foregroundServiceType': 'microphone',
+        'tools:replace': 'android:foregroundServiceType',
+      },
+    });
+
+    return config;
+  });
+
+module.exports = withRecordingForegroundService;
@@ -0,0 +1,68 @@
+import { Audio } from 'expo-av';
+import { RecordingProfile, RecordingProfileId } from '../types';
+
+/**
+ * Recording profiles the engineer can choose from
+ * Standard matches the PRD: AAC 96 kbps mono, about 21 MB for 30 minutes
+ */
+export const RECORDING_PROFILES: Record<RecordingProfileId, RecordingProfile> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    codec: 'AAC',
+    bitRate: 96000,
+    channels: 1,
+    sampleRate: 44100,
+  },
+  compact: {
+    id: 'compact',
+    name: 'Compact',
+    codec: 'AAC',
+    bitRate: 64000,
+    channels: 1,
+    sampleRate: 22050,
+  },
+  high: {
+    id: 'high',
+    name: 'High quality',
+    codec: 'AAC',
+    bitRate: 128000,
+    channels: 2,
+    sampleRate: 44100,
+  },
+};
+
+export const DEFAULT_RECORDING_PROFILE_ID: RecordingProfileId = 'standard';
+
+/**
+ * Look up a profile by ID, falling back to the default for unknown or missing IDs
+ */
+export const getRecordingProfile = (profileId?: string | null): RecordingProfile =>
+  RECORDING_PROFILES[profileId as RecordingProfileId] ?? RECORDING_PROFILES[DEFAULT_RECORDING_PROFILE_ID];
+
+/**
+ * Build expo-av recorder options for a profile
+ */
+export const toRecordingOptions = (profile: RecordingProfile): Audio.RecordingOptions => ({
+  isMeteringEnabled: true,
+  android: {
+    extension: '.m4a',
+    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate: profile.sampleRate,
+    numberOfChannels: profile.channels,
+    bitRate: profile.bitRate,
+  },
+  ios: {
+    extension: '.m4a',
+    outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: profile.sampleRate,
+    numberOfChannels: profile.channels,
+    bitRate: profile.bitRate,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: profile.bitRate,
+  },
+});
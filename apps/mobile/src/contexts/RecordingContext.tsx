@@ -1,17 +1,48 @@
-import React, { createContext, useContext, useState, useRef, useCallback } from 'react';
-import { Audio } from 'expo-av';
+import React, { createContext, useContext, useState, useRef, useCallback, useEffect } from 'react';
+import { AppState } from 'react-native';
+import { Audio, InterruptionModeAndroid, InterruptionModeIOS } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
-import { RecordingState } from '../types';
-import { firebaseStorage } from '../services/firebaseStorage';
-import { firestoreService } from '../services/firestoreService';
+import {
+  AudioChunk,
+  RecordedAudio,
+  RecordingPause,
+  RecordingProfile,
+  RecordingResumePoint,
+  RecordingState,
+} from '../types';
+import { uploadQueue } from '../services/uploadQueue';
+import { inspectionRepository } from '../services/inspectionRepository';
+import { recoveryService } from '../services/recoveryService';
+import { recordingForegroundService } from '../services/recordingForegroundService';
+import { getRecordingProfile, toRecordingOptions } from '../config/recordingProfiles';
+import { toAudioTimestamp } from '../utils/audioClock';
+import { addInterruptionPause, findPauseAt, toTimelinePosition } from '../utils/recordingTimeline';
+import { createLevelTracker, endSilence, getLevelWarning, trackLevel } from '../utils/levelMonitor';
+import {
+  AUDIO_CHUNK_DURATION_MS,
+  getAudioChunkFileName,
+  getAudioChunkId,
+  getTimelineDuration,
+} from '../utils/audioChunks';
+
+interface StartRecordingOptions {
+  profile?: RecordingProfile; // Defaults to the standard profile
+  resumeFrom?: RecordingResumePoint; // Carry on an interrupted recording or the inspection's earlier sessions
+}
 
 interface RecordingContextType {
   recordingState: RecordingState;
-  startRecording: () => Promise<void>;
-  stopRecording: (inspectionId?: string) => Promise<string | null>;
+  startRecording: (inspectionId?: string, options?: StartRecordingOptions) => Promise<void>;
+  pauseRecording: () => Promise<void>;
+  resumeRecording: () => Promise<void>;
+  stopRecording: () => Promise<RecordedAudio | null>;
   resetRecording: () => void;
+  getAudioTimestamp: (eventAt?: number) => Promise<number>;
 }
 
+// How often the level meter updates
+const LEVEL_UPDATE_INTERVAL_MS = 250;
+
 const RecordingContext = createContext<RecordingContextType | undefined>(undefined);
 
 interface RecordingProviderProps {
@@ -20,23 +51,365 @@ interface RecordingProviderProps {
 
 /**
  * RecordingContext provides audio recording functionality
- * Manages recording state and provides methods to start/stop recording
+ * Manages recording state and provides methods to start/pause/resume/stop recording
+ * Audio is recorded in fixed-length chunks; each one is saved and queued for
+ * upload as soon as it is finalized, so a crash only loses the current chunk
+ * Progress is checkpointed so an interrupted inspection can be recovered on the next launch
+ * Recording carries on in the background; if a call or another app takes the
+ * microphone, the gap is logged as an interruption and recording resumes by itself
  */
 export const RecordingProvider: React.FC<RecordingProviderProps> = ({ children }) => {
   const [recordingState, setRecordingState] = useState<RecordingState>({
     isRecording: false,
+    isPaused: false,
+    isInterrupted: false,
     audioUri: undefined,
     startTime: undefined,
     duration: 0,
+    pauses: [],
+    levelWarning: null,
+    silences: [],
   });
 
   const recordingRef = useRef<Audio.Recording | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const startTimeRef = useRef<number | null>(null);
+  const pausesRef = useRef<RecordingPause[]>([]);
+  const inspectionIdRef = useRef<string | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const chunksRef = useRef<AudioChunk[]>([]);
+  const chunkStartOffsetRef = useRef(0);
+  const rotationRef = useRef<Promise<void> | null>(null);
+  const lastStatusRef = useRef<{ at: number; durationMillis: number } | null>(null);
+  const userActionRef = useRef(false);
+  const isMonitoringRef = useRef(false);
+  const profileRef = useRef<RecordingProfile>(getRecordingProfile());
+  const levelTrackerRef = useRef(createLevelTracker());
+
+  /**
+   * Track the input level from the recorder's status updates
+   * Quiet stretches and clipping are measured on the recording timeline
+   */
+  const handleRecorderStatus = (status: Audio.RecordingStatus): void => {
+    if (!status.isRecording || status.metering === undefined) {
+      return;
+    }
+
+    const position = chunkStartOffsetRef.current + status.durationMillis;
+    const tracker = trackLevel(levelTrackerRef.current, position, status.metering);
+    levelTrackerRef.current = tracker;
+
+    setRecordingState(prev => ({
+      ...prev,
+      level: status.metering,
+      levelWarning: getLevelWarning(tracker, position),
+      silences: tracker.silences,
+    }));
+  };
+
+  /**
+   * Start a new recorder for the next chunk
+   */
+  const createRecorder = async (): Promise<void> => {
+    const { recording } = await Audio.Recording.createAsync(
+      toRecordingOptions(profileRef.current),
+      handleRecorderStatus,
+      LEVEL_UPDATE_INTERVAL_MS
+    );
+    recordingRef.current = recording;
+  };
+
+  /**
+   * Stop the active recorder and keep its file as the next chunk
+   */
+  const finalizeChunk = async (): Promise<AudioChunk | null> => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      return null;
+    }
+    recordingRef.current = null;
+
+    const status = await recording.stopAndUnloadAsync();
+    const uri = recording.getURI();
+    if (!uri) {
+      throw new Error('Failed to get recording URI');
+    }
+
+    // Move the file to our app's document directory under a stable name
+    const index = chunksRef.current.length;
+    const owner = inspectionIdRef.current ?? `unsaved_${startTimeRef.current}`;
+    const newUri = `${FileSystem.documentDirectory}${getAudioChunkFileName(owner, index)}`;
+    await FileSystem.moveAsync({
+      from: uri,
+      to: newUri,
+    });
+
+    const chunkData = {
+      index,
+      uri: newUri,
+      startOffset: chunkStartOffsetRef.current,
+      durationMs: status.durationMillis,
+    };
+    chunkStartOffsetRef.current += status.durationMillis;
+    console.log('Audio chunk saved:', chunkData);
+
+    let chunk: AudioChunk = { id: getAudioChunkId(owner, index), ...chunkData };
+    const inspectionId = inspectionIdRef.current;
+    if (inspectionId) {
+      try {
+        // Save locally and upload right away - retried in the background until it succeeds
+        chunk = await inspectionRepository.addAudioChunk(inspectionId, chunkData);
+        await uploadQueue.enqueueAudioChunkUpload(inspectionId, chunk.id, chunk.uri);
+      } catch (error) {
+        console.error('Failed to save audio chunk:', error);
+      }
+    }
+
+    chunksRef.current = [...chunksRef.current, chunk];
+    return chunk;
+  };
+
+  /**
+   * Checkpoint the recording so it can be recovered if the app is killed
+   */
+  const saveCheckpoint = async (): Promise<void> => {
+    const inspectionId = inspectionIdRef.current;
+    if (!inspectionId || !startTimeRef.current) {
+      return;
+    }
+
+    try {
+      await recoveryService.saveRecordingState({
+        inspectionId,
+        startedAt: startTimeRef.current,
+        recorderUri: recordingRef.current?.getURI() ?? undefined,
+        chunkIndex: chunksRef.current.length,
+        chunkStartOffset: chunkStartOffsetRef.current,
+        pauses: pausesRef.current,
+      });
+    } catch (error) {
+      console.error('Failed to checkpoint recording:', error);
+    }
+  };
+
+  /**
+   * Forget the checkpoint once the recording has stopped
+   */
+  const clearCheckpoint = (inspectionId: string | null): void => {
+    if (!inspectionId) {
+      return;
+    }
+    recoveryService.clearRecordingState(inspectionId)
+      .catch(error => console.error('Failed to clear recording checkpoint:', error));
+  };
+
+  /**
+   * Record where the current session ended
+   */
+  const endSession = async (): Promise<void> => {
+    const sessionId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      await inspectionRepository.endAudioSession(sessionId, Date.now(), chunkStartOffsetRef.current);
+    } catch (error) {
+      console.error('Failed to save end of recording session:', error);
+    }
+  };
+
+  /**
+   * Finish the current chunk and carry on recording into a new one
+   * Only one recorder can exist at a time, so a few hundred milliseconds of
+   * audio between chunks are not captured; the timeline stays continuous
+   */
+  const rotateChunk = async (): Promise<void> => {
+    try {
+      await finalizeChunk();
+      await createRecorder();
+    } catch (error) {
+      await handleRecorderFailure(error);
+      return;
+    }
+    await saveCheckpoint();
+    console.log('Recording rolled over to chunk', chunksRef.current.length);
+  };
+
+  /**
+   * Wait for an in-flight chunk rotation to finish
+   */
+  const waitForRotation = async (): Promise<void> => {
+    if (rotationRef.current) {
+      await rotationRef.current;
+    }
+  };
+
+  /**
+   * Log the start of an interruption at the point the recorder stopped
+   */
+  const beginInterruption = async (durationMillis: number): Promise<void> => {
+    // The recorder stopped somewhere between the last check and now
+    const lastStatus = lastStatusRef.current;
+    const now = Date.now();
+    const pausedAt = lastStatus
+      ? Math.min(lastStatus.at + Math.max(durationMillis - lastStatus.durationMillis, 0), now)
+      : now;
+    const audioOffset = chunkStartOffsetRef.current + durationMillis;
+
+    pausesRef.current = [...pausesRef.current, { audioOffset, pausedAt, reason: 'INTERRUPTION' }];
+    levelTrackerRef.current = endSilence(levelTrackerRef.current, audioOffset);
+    console.log('Recording interrupted at', audioOffset, 'ms');
+    await saveCheckpoint();
+
+    setRecordingState(prev => ({
+      ...prev,
+      isInterrupted: true,
+      duration: audioOffset,
+      pauses: pausesRef.current,
+      level: undefined,
+      levelWarning: null,
+      silences: levelTrackerRef.current.silences,
+    }));
+  };
+
+  /**
+   * Nothing is recording after the recorder failed to stop or start: log it
+   * as an interruption, so the monitor keeps trying to start a new recorder
+   * the way it does after a call, and show why
+   */
+  const handleRecorderFailure = async (error: unknown): Promise<void> => {
+    console.error('Recorder failed, retrying:', error);
+    // Logged from now, at the end of the last saved chunk, where the next one will start
+    lastStatusRef.current = null;
+    await beginInterruption(0);
+
+    setRecordingState(prev => ({
+      ...prev,
+      recorderError: error instanceof Error ? error.message : 'Recorder failed',
+    }));
+  };
+
+  /**
+   * Close the open interruption once recording is running again
+   */
+  const endInterruption = async (): Promise<void> => {
+    const resumedAt = Date.now();
+    pausesRef.current = pausesRef.current.map(pause =>
+      pause.reason === 'INTERRUPTION' && pause.resumedAt === undefined ? { ...pause, resumedAt } : pause
+    );
+    lastStatusRef.current = null;
+    console.log('Recording resumed after interruption');
+    await saveCheckpoint();
+
+    setRecordingState(prev => ({
+      ...prev,
+      isInterrupted: false,
+      recorderError: undefined,
+      pauses: pausesRef.current,
+    }));
+  };
+
+  /**
+   * Try to get recording going again after an interruption
+   * The audio session is usually still busy for a while (e.g. during a call),
+   * so this is retried on every check until it succeeds
+   */
+  const recoverFromInterruption = async (): Promise<void> => {
+    const recording = recordingRef.current;
+
+    try {
+      const status = recording ? await recording.getStatusAsync() : null;
+      if (recording && status && status.canRecord && !status.isDoneRecording && !status.mediaServicesDidReset) {
+        await recording.startAsync();
+      } else {
+        // The recorder can't carry on - keep what it has and start a new chunk
+        if (recording) {
+          await finalizeChunk();
+        }
+        await createRecorder();
+      }
+      await endInterruption();
+    } catch (error) {
+      console.log('Recording not resumed yet:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  /**
+   * Check on the recorder once a second: update the displayed duration,
+   * roll over full chunks and handle interruptions
+   * Photo timestamps don't use this - they come from getAudioTimestamp
+   */
+  const monitorRecorder = async (): Promise<void> => {
+    if (!startTimeRef.current || isMonitoringRef.current || rotationRef.current || userActionRef.current) {
+      return;
+    }
+
+    const openPause = findPauseAt(pausesRef.current, Date.now());
+    if (openPause && openPause.reason !== 'INTERRUPTION') {
+      return;
+    }
+
+    isMonitoringRef.current = true;
+    try {
+      if (openPause) {
+        await recoverFromInterruption();
+        return;
+      }
+
+      const recording = recordingRef.current;
+      if (!recording) {
+        await handleRecorderFailure(new Error('No recorder is running'));
+        return;
+      }
+
+      const status = await recording.getStatusAsync();
+      if (!status.isRecording) {
+        // Nobody paused it, so something else took the audio session
+        await beginInterruption(status.durationMillis);
+        return;
+      }
+
+      lastStatusRef.current = { at: Date.now(), durationMillis: status.durationMillis };
+      setRecordingState(prev => ({
+        ...prev,
+        duration: chunkStartOffsetRef.current + status.durationMillis,
+      }));
+
+      if (status.durationMillis >= AUDIO_CHUNK_DURATION_MS) {
+        rotationRef.current = rotateChunk()
+          .catch(error => console.error('Failed to roll over audio chunk:', error))
+          .finally(() => {
+            rotationRef.current = null;
+          });
+      }
+    } catch (error) {
+      console.error('Failed to read recording status:', error);
+    } finally {
+      isMonitoringRef.current = false;
+    }
+  };
+
+  // Coming back to the app is a good moment to pick up after an interruption
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        monitorRecorder();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
 
   /**
    * Request audio permissions and start recording
+   * With a resume point, carries on the timeline of an interrupted recording,
+   * or starts a new session after the inspection's earlier ones
    */
-  const startRecording = useCallback(async (): Promise<void> => {
+  const startRecording = useCallback(async (
+    inspectionId?: string,
+    { profile, resumeFrom }: StartRecordingOptions = {}
+  ): Promise<void> => {
     try {
       console.log('Starting audio recording...');
 
@@ -48,126 +421,234 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({ children }
         throw new Error('Audio permission not granted');
       }
 
-      // Configure audio mode for recording with better iOS compatibility
+      // Keep recording with the screen locked or another app in front;
+      // other audio can't mix in, so interruptions are reported to us
       console.log('Configuring audio mode...');
       await Audio.setAudioModeAsync({
         allowsRecordingIOS: true,
         playsInSilentModeIOS: true,
-        staysActiveInBackground: false, // Changed to false to avoid session conflicts
-        shouldDuckAndroid: true,
+        staysActiveInBackground: true,
+        interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+        interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
+        shouldDuckAndroid: false,
         playThroughEarpieceAndroid: false,
       });
+      // Android only keeps the microphone in the background for a foreground service
+      await recordingForegroundService.start();
 
-      // Create recording with simplified settings to avoid session conflicts
       console.log('Creating recording...');
-      const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
-      );
+      profileRef.current = profile ?? getRecordingProfile();
+      inspectionIdRef.current = inspectionId ?? null;
+      chunksRef.current = resumeFrom?.chunks ?? [];
+      chunkStartOffsetRef.current = getTimelineDuration(chunksRef.current);
+      pausesRef.current = resumeFrom?.pauses ?? [];
+      levelTrackerRef.current = { ...createLevelTracker(), silences: resumeFrom?.silences ?? [] };
+      await createRecorder();
+
+      const startTime = resumeFrom?.startedAt ?? Date.now();
+      startTimeRef.current = startTime;
+      if (resumeFrom) {
+        // The time the app was gone, or between sessions, counts as a pause,
+        // so photos and captions skip it
+        pausesRef.current = addInterruptionPause(
+          pausesRef.current,
+          chunkStartOffsetRef.current,
+          resumeFrom.interruptedAt,
+          Date.now(),
+          resumeFrom.sessionId ? 'APP_KILLED' : 'SESSION_BREAK'
+        );
+        console.log('Resuming recording at', chunkStartOffsetRef.current, 'ms');
+      }
 
-      recordingRef.current = recording;
-      const startTime = Date.now();
+      // An interrupted session carries on; anything else is a new session
+      sessionIdRef.current = resumeFrom?.sessionId ?? null;
+      if (inspectionId && !sessionIdRef.current) {
+        try {
+          const session = await inspectionRepository.startAudioSession(
+            inspectionId,
+            Date.now(),
+            chunkStartOffsetRef.current
+          );
+          sessionIdRef.current = session.id;
+        } catch (error) {
+          console.error('Failed to save recording session:', error);
+        }
+      }
+      await saveCheckpoint();
 
       console.log('Recording started successfully');
 
       setRecordingState({
         isRecording: true,
+        isPaused: false,
+        isInterrupted: false,
         audioUri: undefined,
         startTime,
-        duration: 0,
+        duration: chunkStartOffsetRef.current,
+        pauses: pausesRef.current,
+        levelWarning: null,
+        silences: levelTrackerRef.current.silences,
+        sessionId: sessionIdRef.current ?? undefined,
       });
 
-      // Update duration every second
-      intervalRef.current = setInterval(() => {
-        setRecordingState(prev => ({
-          ...prev,
-          duration: Date.now() - (prev.startTime || startTime),
-        }));
-      }, 1000);
+      lastStatusRef.current = null;
+      intervalRef.current = setInterval(monitorRecorder, 1000);
 
     } catch (error) {
       console.error('Failed to start recording:', error);
+      recordingForegroundService.stop();
       throw error;
     }
   }, []);
 
   /**
-   * Stop recording and return the audio file URI
+   * Pause the recording, e.g. while the engineer takes a phone call
    */
-  const stopRecording = useCallback(async (inspectionId?: string): Promise<string | null> => {
+  const pauseRecording = useCallback(async (): Promise<void> => {
+    await waitForRotation();
+    const recording = recordingRef.current;
+    if (!recording) {
+      throw new Error('No active recording');
+    }
+    if (findPauseAt(pausesRef.current, Date.now())) {
+      return;
+    }
+
+    // Keep the monitor from mistaking this pause for an interruption
+    userActionRef.current = true;
     try {
-      console.log('Stopping audio recording...');
+      const pausedAt = Date.now();
+      const status = await recording.pauseAsync();
+      const audioOffset = chunkStartOffsetRef.current + status.durationMillis;
+      pausesRef.current = [...pausesRef.current, { audioOffset, pausedAt, reason: 'USER' }];
+    } finally {
+      userActionRef.current = false;
+    }
+    const { audioOffset } = pausesRef.current[pausesRef.current.length - 1];
+    levelTrackerRef.current = endSilence(levelTrackerRef.current, audioOffset);
+    console.log('Recording paused at', audioOffset, 'ms');
+    await saveCheckpoint();
+
+    setRecordingState(prev => ({
+      ...prev,
+      isPaused: true,
+      duration: audioOffset,
+      pauses: pausesRef.current,
+      level: undefined,
+      levelWarning: null,
+      silences: levelTrackerRef.current.silences,
+    }));
+  }, []);
 
-      if (!recordingRef.current) {
-        throw new Error('No active recording');
-      }
+  /**
+   * Resume a paused recording into the same chunk
+   * During an interruption this retries straight away instead of waiting for the next check
+   */
+  const resumeRecording = useCallback(async (): Promise<void> => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      throw new Error('No active recording');
+    }
+    const openPause = findPauseAt(pausesRef.current, Date.now());
+    if (!openPause) {
+      return;
+    }
+    if (openPause.reason === 'INTERRUPTION') {
+      await recoverFromInterruption();
+      return;
+    }
 
-      // Stop recording
-      await recordingRef.current.stopAndUnloadAsync();
-      console.log('Recording stopped successfully');
+    userActionRef.current = true;
+    try {
+      await recording.startAsync();
+    } finally {
+      userActionRef.current = false;
+    }
+    const resumedAt = Date.now();
+
+    pausesRef.current = pausesRef.current.map(pause =>
+      pause === openPause ? { ...pause, resumedAt } : pause
+    );
+    console.log('Recording resumed after', resumedAt - openPause.pausedAt, 'ms paused');
+    await saveCheckpoint();
+
+    setRecordingState(prev => ({
+      ...prev,
+      isPaused: false,
+      isInterrupted: false,
+      pauses: pausesRef.current,
+    }));
+  }, []);
 
-      // Clear interval
+  /**
+   * Stop recording and return the audio chunks with the pauses on their timeline
+   */
+  const stopRecording = useCallback(async (): Promise<RecordedAudio | null> => {
+    try {
+      console.log('Stopping audio recording...');
+
+      // Clear interval so no rotation starts while stopping
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
         intervalRef.current = null;
       }
+      await waitForRotation();
 
-      // Get the recording URI
-      const uri = recordingRef.current.getURI();
-      recordingRef.current = null;
-
-      if (!uri) {
-        throw new Error('Failed to get recording URI');
-      }
-
-      console.log('Recording URI:', uri);
-
-      // Generate a unique filename
-      const fileName = `inspection_audio_${Date.now()}.m4a`;
-      const newUri = `${FileSystem.documentDirectory}${fileName}`;
-
-      // Move the file to our app's document directory
-      await FileSystem.moveAsync({
-        from: uri,
-        to: newUri,
-      });
-
-      console.log('Audio file saved to:', newUri);
-
-      // Upload to Firebase if inspectionId is provided
-      let firebaseUrl: string | undefined;
-      if (inspectionId) {
-        try {
-          const uploadResult = await firebaseStorage.uploadAudio(newUri, inspectionId);
-          firebaseUrl = uploadResult.downloadUrl;
-          console.log('Audio uploaded to Firebase Storage:', firebaseUrl);
-
-          // Save Firebase URL to Firestore
-          await firestoreService.updateInspectionFirebaseAudioUrl(inspectionId, firebaseUrl);
-          console.log('Firebase audio URL saved to Firestore');
-        } catch (uploadError) {
-          console.error('Failed to upload audio to Firebase Storage:', uploadError);
-          // Continue without Firebase upload - local file is still saved
-        }
+      // Stop recording and save the last chunk
+      await finalizeChunk();
+      recordingForegroundService.stop();
+      if (chunksRef.current.length === 0) {
+        throw new Error('No active recording');
       }
+      console.log('Recording stopped successfully');
 
+      const chunks = chunksRef.current;
+      const pauses = pausesRef.current;
+      const { silences } = endSilence(levelTrackerRef.current, chunkStartOffsetRef.current);
+      levelTrackerRef.current = createLevelTracker();
+      await endSession();
+      clearCheckpoint(inspectionIdRef.current);
+      startTimeRef.current = null;
+      inspectionIdRef.current = null;
+      pausesRef.current = [];
+      chunksRef.current = [];
+
+      const audioUri = chunks[0].uri;
       setRecordingState(prev => ({
         ...prev,
         isRecording: false,
-        audioUri: newUri,
-        duration: prev.duration,
+        isPaused: false,
+        isInterrupted: false,
+        audioUri,
+        duration: chunkStartOffsetRef.current,
+        pauses,
+        level: undefined,
+        levelWarning: null,
+        silences,
+        sessionId: undefined,
       }));
 
-      return newUri;
+      return { uri: audioUri, pauses, silences, chunks };
 
     } catch (error) {
       console.error('Failed to stop recording:', error);
+      recordingForegroundService.stop();
 
-      // Reset state on error
+      // Reset state on error - the checkpoint and open session stay so the files can be recovered
+      sessionIdRef.current = null;
+      pausesRef.current = [];
+      chunksRef.current = [];
+      inspectionIdRef.current = null;
       setRecordingState({
         isRecording: false,
+        isPaused: false,
+        isInterrupted: false,
         audioUri: undefined,
         startTime: undefined,
         duration: 0,
+        pauses: [],
+        levelWarning: null,
+        silences: [],
       });
 
       throw error;
@@ -184,6 +665,15 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({ children }
       recordingRef.current.stopAndUnloadAsync();
       recordingRef.current = null;
     }
+    recordingForegroundService.stop();
+    clearCheckpoint(inspectionIdRef.current);
+    endSession();
+    startTimeRef.current = null;
+    inspectionIdRef.current = null;
+    pausesRef.current = [];
+    chunksRef.current = [];
+    chunkStartOffsetRef.current = 0;
+    levelTrackerRef.current = createLevelTracker();
 
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
@@ -192,17 +682,67 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({ children }
 
     setRecordingState({
       isRecording: false,
+      isPaused: false,
+      isInterrupted: false,
       audioUri: undefined,
       startTime: undefined,
       duration: 0,
+      pauses: [],
+      levelWarning: null,
+      silences: [],
     });
   }, []);
 
+  /**
+   * Get the position on the active recording at the time of an event (default: now)
+   * Reads the recorder's own clock instead of the once-a-second display value
+   */
+  const getAudioTimestamp = useCallback(async (eventAt: number = Date.now()): Promise<number> => {
+    if (!startTimeRef.current) {
+      return 0;
+    }
+
+    // Photos taken while paused sit where the pause happened
+    const pause = findPauseAt(pausesRef.current, eventAt);
+    if (pause) {
+      return pause.audioOffset;
+    }
+
+    // A photo taken while rolling over lands at the start of the new chunk
+    await waitForRotation();
+    const recording = recordingRef.current;
+    if (!recording) {
+      return chunkStartOffsetRef.current;
+    }
+
+    try {
+      const requestedAt = Date.now();
+      const status = await recording.getStatusAsync();
+      const receivedAt = Date.now();
+
+      if (status.isRecording) {
+        const positionInChunk = toAudioTimestamp(
+          { durationMillis: status.durationMillis, requestedAt, receivedAt },
+          eventAt
+        );
+        return chunkStartOffsetRef.current + positionInChunk;
+      }
+    } catch (error) {
+      console.error('Failed to read recording status:', error);
+    }
+
+    // Fall back to wall-clock time since the recording started, minus pauses
+    return startTimeRef.current ? toTimelinePosition(startTimeRef.current, pausesRef.current, eventAt) : 0;
+  }, []);
+
   const value: RecordingContextType = {
     recordingState,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
     resetRecording,
+    getAudioTimestamp,
   };
 
   return (
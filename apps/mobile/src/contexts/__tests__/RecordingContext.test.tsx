@@ -0,0 +1,153 @@
+import React from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { Audio } from 'expo-av';
+import { RecordingProvider, useRecording } from '../RecordingContext';
+import { AUDIO_CHUNK_DURATION_MS } from '../../utils/audioChunks';
+import { recordingForegroundService } from '../../services/recordingForegroundService';
+
+jest.mock('expo-av', () => ({
+  Audio: {
+    requestPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+    setAudioModeAsync: jest.fn(async () => undefined),
+    Recording: { createAsync: jest.fn() },
+    AndroidOutputFormat: { MPEG_4: 2 },
+    AndroidAudioEncoder: { AAC: 3 },
+    IOSOutputFormat: { MPEG4AAC: 'aac ' },
+    IOSAudioQuality: { HIGH: 96 },
+  },
+  InterruptionModeIOS: { DoNotMix: 1 },
+  InterruptionModeAndroid: { DoNotMix: 1 },
+}));
+
+jest.mock('../../services/uploadQueue', () => ({
+  uploadQueue: {
+    enqueueAudioChunkUpload: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/inspectionRepository', () => ({
+  inspectionRepository: {
+    addAudioChunk: jest.fn(async (inspectionId, chunk) => ({ id: `${inspectionId}:${chunk.index}`, ...chunk })),
+    startAudioSession: jest.fn(async () => ({ id: 'insp-1:0' })),
+    endAudioSession: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/recoveryService', () => ({
+  recoveryService: {
+    saveRecordingState: jest.fn(),
+    clearRecordingState: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/recordingForegroundService', () => ({
+  recordingForegroundService: {
+    start: jest.fn(async () => undefined),
+    stop: jest.fn(async () => undefined),
+  },
+}));
+
+const mockCreateAsync = Audio.Recording.createAsync as jest.Mock;
+const mockForegroundService = recordingForegroundService as jest.Mocked<typeof recordingForegroundService>;
+
+/**
+ * A recorder that is always this far into its chunk
+ */
+const recorder = (durationMillis: number) => ({
+  getStatusAsync: jest.fn(async () => ({ isRecording: true, durationMillis })),
+  stopAndUnloadAsync: jest.fn(async () => ({ durationMillis })),
+  getURI: jest.fn(() => 'file://cache/recording.m4a'),
+});
+
+describe('RecordingContext', () => {
+  let recording: ReturnType<typeof useRecording>;
+
+  const Consumer = () => {
+    recording = useRecording();
+    return null;
+  };
+
+  const tick = async () => {
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep trying to record after a new chunk\'s recorder fails to start', async () => {
+    const next = recorder(1000);
+    mockCreateAsync
+      .mockResolvedValueOnce({ recording: recorder(AUDIO_CHUNK_DURATION_MS) })
+      .mockRejectedValueOnce(new Error('Microphone is busy'))
+      .mockResolvedValueOnce({ recording: next });
+
+    let renderer: TestRenderer.ReactTestRenderer;
+    await act(async () => {
+      renderer = TestRenderer.create(<RecordingProvider><Consumer /></RecordingProvider>);
+    });
+    await act(async () => {
+      await recording.startRecording('insp-1');
+    });
+
+    // The full chunk is saved, but no recorder starts for the next one
+    await tick();
+
+    expect(recording.recordingState).toEqual(expect.objectContaining({
+      isRecording: true,
+      isInterrupted: true,
+      recorderError: 'Microphone is busy',
+    }));
+    expect(recording.recordingState.pauses).toEqual([
+      { audioOffset: AUDIO_CHUNK_DURATION_MS, pausedAt: expect.any(Number), reason: 'INTERRUPTION' },
+    ]);
+
+    // The next check starts one
+    await tick();
+
+    expect(mockCreateAsync).toHaveBeenCalledTimes(3);
+    expect(recording.recordingState.isInterrupted).toBe(false);
+    expect(recording.recordingState.recorderError).toBeUndefined();
+    expect(recording.recordingState.pauses[0].resumedAt).toEqual(expect.any(Number));
+    expect(await recording.getAudioTimestamp()).toBeGreaterThanOrEqual(AUDIO_CHUNK_DURATION_MS);
+
+    await act(async () => {
+      renderer.unmount();
+    });
+  });
+
+  it('should run the foreground service from start to stop', async () => {
+    mockCreateAsync.mockResolvedValueOnce({ recording: recorder(1000) });
+
+    let renderer: TestRenderer.ReactTestRenderer;
+    await act(async () => {
+      renderer = TestRenderer.create(<RecordingProvider><Consumer /></RecordingProvider>);
+    });
+    await act(async () => {
+      await recording.startRecording('insp-1');
+    });
+
+    // Started before the recorder, while the app is still on screen
+    expect(mockForegroundService.start).toHaveBeenCalledTimes(1);
+    expect(mockForegroundService.start.mock.invocationCallOrder[0])
+      .toBeLessThan(mockCreateAsync.mock.invocationCallOrder[0]);
+    expect(mockForegroundService.stop).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await recording.stopRecording();
+    });
+
+    expect(mockForegroundService.stop).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      renderer.unmount();
+    });
+  });
+});
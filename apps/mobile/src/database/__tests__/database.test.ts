@@ -1,5 +1,6 @@
 import { openDatabaseSync } from 'expo-sqlite';
-import { inspectionDB } from '../index';
+import { InspectionDatabase } from '../index';
+import { LATEST_SCHEMA_VERSION } from '../migrations';
 import { DatabaseInspection, DatabasePhoto } from '../../types';
 
 // Mock expo-sqlite
@@ -9,6 +10,7 @@ jest.mock('expo-sqlite', () => ({
 
 describe('InspectionDatabase', () => {
   let mockDb: any;
+  let inspectionDB: InspectionDatabase;
 
   beforeEach(() => {
     // Reset mocks
@@ -19,13 +21,31 @@ describe('InspectionDatabase', () => {
       execSync: jest.fn(),
       prepareSync: jest.fn(),
       getAllSync: jest.fn(),
+      getFirstSync: jest.fn(() => ({ user_version: LATEST_SCHEMA_VERSION })),
+      withTransactionSync: jest.fn((task: () => void) => task()),
     };
 
     // Mock the openDatabaseSync function
     (openDatabaseSync as jest.Mock).mockReturnValue(mockDb);
 
-    // Reset the database instance
-    jest.resetModules();
+    // Fresh instance so each test opens its own mock database
+    inspectionDB = new InspectionDatabase();
+  });
+
+  describe('schema', () => {
+    it('should open the database lazily and run pending migrations', async () => {
+      mockDb.getFirstSync.mockReturnValue({ user_version: 0 });
+      mockDb.getAllSync.mockReturnValue([]);
+
+      expect(openDatabaseSync).not.toHaveBeenCalled();
+
+      await inspectionDB.getInspections();
+      await inspectionDB.getInspections();
+
+      expect(openDatabaseSync).toHaveBeenCalledTimes(1);
+      expect(openDatabaseSync).toHaveBeenCalledWith('inspection.db');
+      expect(mockDb.execSync).toHaveBeenCalledWith(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION}`);
+    });
   });
 
   describe('createInspection', () => {
@@ -122,6 +142,8 @@ describe('InspectionDatabase', () => {
         timestamp: 1705312800000, // 2024-01-15 12:00:00
         audio_timestamp: 5000, // 5 seconds into recording
         caption: 'Test photo caption',
+        session_id: 'test-inspection-1:0',
+        thumbnail_uri: 'file://test-photo.thumb.jpg',
       };
 
       await inspectionDB.addPhoto(photo);
@@ -136,9 +158,18 @@ describe('InspectionDatabase', () => {
         'photo-1',
         'test-inspection-1',
         'file://test-photo.jpg',
+        null, // firebase_url
         1705312800000,
         5000,
         'Test photo caption',
+        'test-inspection-1:0', // session_id
+        'file://test-photo.thumb.jpg', // thumbnail_uri
+        null, // original_uri
+        null, // location
+        null, // heading
+        null, // device
+        null, // area
+        null, // source
         expect.any(Number), // created_at
       ]);
 
@@ -166,9 +197,18 @@ describe('InspectionDatabase', () => {
         'photo-2',
         'test-inspection-1',
         'file://test-photo-2.jpg',
+        null, // firebase_url
         1705312800000,
         10000,
         null, // caption
+        null, // session_id
+        null, // thumbnail_uri
+        null, // original_uri
+        null, // location
+        null, // heading
+        null, // device
+        null, // area
+        null, // source
         expect.any(Number),
       ]);
     });
@@ -246,7 +286,7 @@ describe('InspectionDatabase', () => {
       const result = await inspectionDB.getPhotosForInspection('inspection-1');
 
       expect(mockDb.getAllSync).toHaveBeenCalledWith(
-        'SELECT * FROM photos WHERE inspection_id = ? ORDER BY timestamp ASC',
+        'SELECT * FROM photos WHERE inspection_id = ? AND deleted_at IS NULL ORDER BY timestamp ASC',
         ['inspection-1']
       );
       expect(result).toEqual(mockPhotos);
@@ -304,4 +344,145 @@ describe('InspectionDatabase', () => {
       expect(mockStmt.finalizeSync).toHaveBeenCalled();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('runInTransaction', () => {
+    it('should run overlapping transactions one after the other', async () => {
+      // SQLite can't nest transactions on one connection
+      let open = false;
+      mockDb.withTransactionAsync = jest.fn(async (task: () => Promise<void>) => {
+        if (open) {
+          throw new Error('cannot start a transaction within a transaction');
+        }
+        open = true;
+        try {
+          await task();
+        } finally {
+          open = false;
+        }
+      });
+      const events: string[] = [];
+      let finishFirst = () => {};
+      const firstCanFinish = new Promise<void>(resolve => { finishFirst = resolve; });
+
+      const first = inspectionDB.runInTransaction(async () => {
+        events.push('first:start');
+        await firstCanFinish;
+        events.push('first:end');
+      });
+      const second = inspectionDB.runInTransaction(async () => {
+        events.push('second:start');
+        throw new Error('constraint failed');
+      });
+      const third = inspectionDB.runInTransaction(async () => {
+        events.push('third:start');
+      });
+      finishFirst();
+
+      await expect(first).resolves.toBeUndefined();
+      await expect(second).rejects.toThrow('constraint failed');
+      await expect(third).resolves.toBeUndefined();
+      expect(events).toEqual(['first:start', 'first:end', 'second:start', 'third:start']);
+    });
+  });
+
+  describe('deleteInspection', () => {
+    it('should delete the inspection and its rows in every table', async () => {
+      const changes: Record<string, number> = { photos: 4, outbox: 2, inspections: 1 };
+      mockDb.prepareSync.mockImplementation((sql: string) => ({
+        executeSync: jest.fn(() => ({ changes: changes[sql.split(' ')[2]] ?? 0 })),
+        finalizeSync: jest.fn(),
+      }));
+
+      const counts = await inspectionDB.deleteInspection('inspection-1');
+
+      expect(counts).toEqual({ photos: 4, outbox: 2, inspections: 1 });
+      expect(mockDb.prepareSync).toHaveBeenCalledWith('DELETE FROM video_clips WHERE inspection_id = ?');
+      expect(mockDb.prepareSync).toHaveBeenCalledWith('DELETE FROM active_recordings WHERE inspection_id = ?');
+      expect(mockDb.prepareSync).toHaveBeenLastCalledWith('DELETE FROM inspections WHERE id = ?');
+    });
+  });
+
+  describe('outbox', () => {
+    it('should enqueue operations idempotently by ID', async () => {
+      const mockStmt = {
+        executeSync: jest.fn(),
+        finalizeSync: jest.fn(),
+      };
+      mockDb.prepareSync.mockReturnValue(mockStmt);
+
+      await inspectionDB.enqueueOperation({
+        id: 'op-1',
+        inspection_id: 'inspection-1',
+        type: 'UPDATE_INSPECTION_STATUS',
+        payload: JSON.stringify({ status: 'READY' }),
+      });
+
+      expect(mockDb.prepareSync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT OR IGNORE INTO outbox')
+      );
+      expect(mockStmt.executeSync).toHaveBeenCalledWith([
+        'op-1',
+        'inspection-1',
+        'UPDATE_INSPECTION_STATUS',
+        '{"status":"READY"}',
+        expect.any(Number), // created_at
+      ]);
+      expect(mockStmt.finalizeSync).toHaveBeenCalled();
+    });
+
+    it('should return pending operations in enqueue order', async () => {
+      mockDb.getAllSync.mockReturnValue([]);
+
+      await inspectionDB.getPendingOperations();
+
+      expect(mockDb.getAllSync).toHaveBeenCalledWith('SELECT * FROM outbox ORDER BY seq ASC');
+    });
+
+    it('should count pending operations', async () => {
+      mockDb.getFirstSync.mockImplementation((sql: string) =>
+        sql.startsWith('PRAGMA') ? { user_version: LATEST_SCHEMA_VERSION } : { count: 3 }
+      );
+
+      const count = await inspectionDB.getPendingOperationCount();
+
+      expect(count).toBe(3);
+    });
+
+    it('should record a failed attempt without dropping the operation', async () => {
+      const mockStmt = {
+        executeSync: jest.fn(),
+        finalizeSync: jest.fn(),
+      };
+      mockDb.prepareSync.mockReturnValue(mockStmt);
+
+      await inspectionDB.recordOperationFailure('op-1', 'Network request failed');
+
+      expect(mockDb.prepareSync).toHaveBeenCalledWith(
+        'UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?'
+      );
+      expect(mockStmt.executeSync).toHaveBeenCalledWith(['Network request failed', 'op-1']);
+    });
+  });
+
+  describe('upload queue', () => {
+    it('should reschedule a failed upload or mark it failed for good', async () => {
+      const mockStmt = {
+        executeSync: jest.fn(),
+        finalizeSync: jest.fn(),
+      };
+      mockDb.prepareSync.mockReturnValue(mockStmt);
+      jest.spyOn(Date, 'now').mockReturnValue(1705312800000);
+
+      await inspectionDB.recordUploadFailure('PHOTO:photo-1', 'Network request failed', 1705312805000);
+      await inspectionDB.recordUploadFailure('PHOTO:photo-1', 'Local file is missing', null);
+
+      expect(mockStmt.executeSync).toHaveBeenNthCalledWith(1, [
+        'Network request failed', 'PENDING', 1705312805000, 1705312800000, 'PHOTO:photo-1',
+      ]);
+      expect(mockStmt.executeSync).toHaveBeenNthCalledWith(2, [
+        'Local file is missing', 'FAILED', null, 1705312800000, 'PHOTO:photo-1',
+      ]);
+      jest.restoreAllMocks();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { openDatabaseSync, SQLiteDatabase } from 'expo-sqlite';
+import { migrations, runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION, Migration } from '../migrations';
+
+const START = 1705312800000;
+
+/**
+ * Open an empty in-memory database, optionally migrated up to a version
+ * expo-sqlite-mock backs it with better-sqlite3, so migrations run real SQL
+ */
+const createFixtureDb = (version = 0): SQLiteDatabase => {
+  const db = openDatabaseSync(':memory:');
+  if (version > 0) {
+    runMigrations(db, migrations.filter(migration => migration.version <= version));
+  }
+  return db;
+};
+
+const getTables = (db: SQLiteDatabase): string[] =>
+  db.getAllSync<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+    .map(row => row.name);
+
+const getIndexes = (db: SQLiteDatabase): string[] =>
+  db.getAllSync<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%'")
+    .map(row => row.name);
+
+const getColumns = (db: SQLiteDatabase, table: string): string[] =>
+  db.getAllSync<{ name: string }>(`PRAGMA table_info(${table})`).map(row => row.name);
+
+describe('migrations', () => {
+  it('should be declared in strictly increasing version order', () => {
+    migrations.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+    expect(LATEST_SCHEMA_VERSION).toBe(migrations.length);
+  });
+
+  it('should create the schema on a fresh database', () => {
+    const db = createFixtureDb();
+
+    const version = runMigrations(db);
+
+    expect(version).toBe(LATEST_SCHEMA_VERSION);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(getTables(db)).toEqual(expect.arrayContaining([
+      'inspections', 'photos', 'outbox', 'conflicts', 'upload_sessions', 'upload_queue', 'settings',
+      'audio_chunks', 'active_recordings', 'markers', 'audio_sessions', 'video_clips',
+    ]));
+  });
+
+  it('should treat an unversioned legacy database as upgradable without losing rows', () => {
+    // Databases created before versioning have the tables but report user_version 0
+    const db = createFixtureDb(1);
+    db.execSync('PRAGMA user_version = 0');
+    db.runSync(
+      'INSERT INTO inspections (id, client, address, claim_number, inspection_date, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      ['legacy-1', 'Client', '1 Main St', 'CLM-1', '2024-01-15', START, START]
+    );
+
+    runMigrations(db);
+
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.getFirstSync<{ count: number }>('SELECT COUNT(*) AS count FROM inspections')?.count).toBe(1);
+  });
+
+  it('should upgrade a v1 database to the latest schema and keep its data', () => {
+    const db = createFixtureDb(1);
+    const addInspection = (id: string, audioUri: string | null) => db.runSync(
+      `INSERT INTO inspections (id, client, address, claim_number, inspection_date, audio_uri, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, `Client ${id}`, '1 Main St', `CLM-${id}`, '2024-01-15', audioUri, 'READY', START, START + 600000]
+    );
+    const addPhoto = (id: string, inspectionId: string) => db.runSync(
+      `INSERT INTO photos (id, inspection_id, photo_uri, timestamp, audio_timestamp, caption, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, inspectionId, `file://docs/${id}.jpg`, START + 60000, 60000, `Caption ${id}`, START + 60000]
+    );
+    addInspection('recorded', 'file://docs/recorded.m4a');
+    addInspection('photos-only', null);
+    addPhoto('photo-1', 'recorded');
+    addPhoto('photo-2', 'photos-only');
+
+    const version = runMigrations(db);
+
+    expect(version).toBe(LATEST_SCHEMA_VERSION);
+
+    expect(getColumns(db, 'inspections')).toEqual(expect.arrayContaining([
+      'remote_id', 'field_versions', 'audio_pauses', 'recording_profile', 'audio_silences', 'areas', 'area_proposals',
+    ]));
+    expect(getColumns(db, 'photos')).toEqual(expect.arrayContaining([
+      'remote_id', 'field_versions', 'session_id', 'thumbnail_uri', 'original_uri', 'location', 'heading', 'device',
+      'area', 'source', 'deleted_at', 'quality',
+    ]));
+    expect(getIndexes(db)).toEqual(expect.arrayContaining([
+      'idx_photos_inspection_timestamp', 'idx_outbox_inspection_seq', 'idx_conflicts_inspection',
+      'idx_audio_chunks_inspection', 'idx_audio_sessions_inspection', 'idx_markers_inspection', 'idx_video_clips_inspection',
+    ]));
+
+    // Existing rows survive with their values
+    expect(db.getAllSync('SELECT id, client, audio_uri, status FROM inspections ORDER BY id')).toEqual([
+      { id: 'photos-only', client: 'Client photos-only', audio_uri: null, status: 'READY' },
+      { id: 'recorded', client: 'Client recorded', audio_uri: 'file://docs/recorded.m4a', status: 'READY' },
+    ]);
+    expect(db.getAllSync('SELECT id, caption, deleted_at FROM photos ORDER BY id')).toEqual([
+      { id: 'photo-1', caption: 'Caption photo-1', deleted_at: null },
+      { id: 'photo-2', caption: 'Caption photo-2', deleted_at: null },
+    ]);
+
+    // Audio recorded before sessions existed became a closed first session, and its photos joined it
+    expect(db.getAllSync('SELECT id, inspection_id, session_index, started_at, ended_at FROM audio_sessions')).toEqual([
+      { id: 'recorded:0', inspection_id: 'recorded', session_index: 0, started_at: START, ended_at: START + 600000 },
+    ]);
+    expect(db.getAllSync('SELECT id, session_id FROM photos ORDER BY id')).toEqual([
+      { id: 'photo-1', session_id: 'recorded:0' },
+      { id: 'photo-2', session_id: null },
+    ]);
+  });
+
+  it('should do nothing when the database is already up to date', () => {
+    const db = createFixtureDb(LATEST_SCHEMA_VERSION);
+    const execSync = jest.spyOn(db, 'execSync');
+    const withTransactionSync = jest.spyOn(db, 'withTransactionSync');
+
+    const version = runMigrations(db);
+
+    expect(version).toBe(LATEST_SCHEMA_VERSION);
+    expect(withTransactionSync).not.toHaveBeenCalled();
+    expect(execSync).not.toHaveBeenCalled();
+  });
+
+  it('should run steps in version order regardless of declaration order', () => {
+    const db = createFixtureDb();
+    const order: number[] = [];
+    const steps: Migration[] = [
+      { version: 2, name: 'second', up: () => { order.push(2); } },
+      { version: 1, name: 'first', up: () => { order.push(1); } },
+    ];
+
+    runMigrations(db, steps);
+
+    expect(order).toEqual([1, 2]);
+    expect(getSchemaVersion(db)).toBe(2);
+  });
+
+  it('should roll back a failing step and keep the last good version', () => {
+    const db = createFixtureDb(1);
+    const steps: Migration[] = [
+      ...migrations.slice(0, 1),
+      {
+        version: 2,
+        name: 'add_column',
+        up: (database) => { database.execSync('ALTER TABLE photos ADD COLUMN note TEXT'); },
+      },
+      {
+        version: 3,
+        name: 'broken_step',
+        up: (database) => {
+          database.execSync('ALTER TABLE photos ADD COLUMN other TEXT');
+          throw new Error('disk I/O error');
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, steps)).toThrow('Migration 3 (broken_step) failed: disk I/O error');
+
+    expect(getSchemaVersion(db)).toBe(2);
+    expect(getColumns(db, 'photos')).toContain('note');
+    expect(getColumns(db, 'photos')).not.toContain('other');
+    expect(getTables(db)).toEqual(['inspections', 'photos']);
+  });
+
+  it('should default to version 0 when the pragma returns nothing', () => {
+    const db = createFixtureDb();
+    jest.spyOn(db, 'getFirstSync').mockReturnValue(null);
+
+    expect(getSchemaVersion(db)).toBe(0);
+  });
+});
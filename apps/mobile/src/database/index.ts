@@ -1,53 +1,80 @@
 import * as SQLite from 'expo-sqlite';
-import { DatabaseInspection, DatabasePhoto } from '../types';
+import {
+  AreaProposal,
+  AudioSpan,
+  DatabaseActiveRecording,
+  DatabaseAudioChunk,
+  DatabaseAudioSession,
+  DatabaseInspection,
+  DatabaseMarker,
+  DatabaseVideoClip,
+  DatabasePhoto,
+  DatabaseOutboxOperation,
+  DatabaseConflict,
+  OutboxOperationType,
+  DatabaseUploadSession,
+  DatabaseUploadTask,
+  DeletionCounts,
+  UploadKind,
+  UploadTaskStatus,
+  FieldVersion,
+  InspectionMergeField,
+  PhotoMergeField,
+  RecordingPause,
+} from '../types';
+import { runMigrations } from './migrations';
+
+/**
+ * SQLite columns backing each mergeable field
+ */
+export const INSPECTION_FIELD_COLUMNS: Record<InspectionMergeField, keyof DatabaseInspection> = {
+  client: 'client',
+  address: 'address',
+  claimNumber: 'claim_number',
+  status: 'status',
+};
+
+/**
+ * Tables holding rows that belong to an inspection
+ * Foreign keys aren't enforced, so these are cleared by hand when it is deleted
+ */
+const INSPECTION_CHILD_TABLES = [
+  'photos',
+  'markers',
+  'video_clips',
+  'audio_chunks',
+  'audio_sessions',
+  'active_recordings',
+  'conflicts',
+  'upload_queue',
+  'upload_sessions',
+  'outbox',
+] as const;
+
+export const PHOTO_FIELD_COLUMNS: Record<PhotoMergeField, keyof DatabasePhoto> = {
+  caption: 'caption',
+  area: 'area',
+};
 
 /**
  * Database utility for managing inspections and photos
  * Uses SQLite for offline-first data storage
  */
-class InspectionDatabase {
-  private db: SQLite.SQLiteDatabase;
-
-  constructor() {
-    this.db = SQLite.openDatabaseSync('inspection.db');
-    this.initDatabase();
-  }
-
-  /**
-   * Initialize database tables if they don't exist
-   */
-  private initDatabase(): void {
-    const createInspectionsTable = `
-      CREATE TABLE IF NOT EXISTS inspections (
-        id TEXT PRIMARY KEY,
-        client TEXT NOT NULL,
-        address TEXT NOT NULL,
-        claim_number TEXT NOT NULL,
-        inspection_date TEXT NOT NULL,
-        audio_uri TEXT,
-        firebase_audio_url TEXT,
-        status TEXT NOT NULL DEFAULT 'DRAFT',
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-    `;
-
-    const createPhotosTable = `
-      CREATE TABLE IF NOT EXISTS photos (
-        id TEXT PRIMARY KEY,
-        inspection_id TEXT NOT NULL,
-        photo_uri TEXT NOT NULL,
-        firebase_url TEXT,
-        timestamp INTEGER NOT NULL,
-        audio_timestamp INTEGER NOT NULL,
-        caption TEXT,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
-      );
-    `;
-
-    this.db.execSync(createInspectionsTable);
-    this.db.execSync(createPhotosTable);
+export class InspectionDatabase {
+  private connection: SQLite.SQLiteDatabase | null = null;
+  // The last transaction queued on the connection, which the next one waits for
+  private transactionTail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Open the database on first use and bring its schema up to date
+   */
+  private get db(): SQLite.SQLiteDatabase {
+    if (!this.connection) {
+      const connection = SQLite.openDatabaseSync('inspection.db');
+      runMigrations(connection);
+      this.connection = connection;
+    }
+    return this.connection;
   }
 
   /**
@@ -55,8 +82,8 @@ class InspectionDatabase {
    */
   async createInspection(inspection: Omit<DatabaseInspection, 'created_at' | 'updated_at'>): Promise<void> {
     const now = Date.now();
-    const sql = `INSERT INTO inspections (id, client, address, claim_number, inspection_date, audio_uri, firebase_audio_url, status, created_at, updated_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    const sql = `INSERT INTO inspections (id, client, address, claim_number, inspection_date, audio_uri, firebase_audio_url, recording_profile, status, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
     const args = [
       inspection.id,
       inspection.client,
@@ -65,6 +92,7 @@ class InspectionDatabase {
       inspection.inspection_date,
       inspection.audio_uri || null,
       inspection.firebase_audio_url || null,
+      inspection.recording_profile || null,
       inspection.status,
       now,
       now
@@ -80,8 +108,8 @@ class InspectionDatabase {
    */
   async addPhoto(photo: Omit<DatabasePhoto, 'created_at'>): Promise<void> {
     const now = Date.now();
-    const sql = `INSERT INTO photos (id, inspection_id, photo_uri, firebase_url, timestamp, audio_timestamp, caption, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+    const sql = `INSERT INTO photos (id, inspection_id, photo_uri, firebase_url, timestamp, audio_timestamp, caption, session_id, thumbnail_uri, original_uri, location, heading, device, area, source, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
     const args = [
       photo.id,
       photo.inspection_id,
@@ -90,6 +118,14 @@ class InspectionDatabase {
       photo.timestamp,
       photo.audio_timestamp,
       photo.caption || null,
+      photo.session_id || null,
+      photo.thumbnail_uri || null,
+      photo.original_uri || null,
+      photo.location || null,
+      photo.heading || null,
+      photo.device || null,
+      photo.area || null,
+      photo.source || null,
       now
     ];
 
@@ -108,14 +144,99 @@ class InspectionDatabase {
   }
 
   /**
-   * Get photos for a specific inspection
+   * Get a single inspection by ID
+   */
+  async getInspection(inspectionId: string): Promise<DatabaseInspection | null> {
+    const sql = 'SELECT * FROM inspections WHERE id = ?';
+    return this.db.getFirstSync<DatabaseInspection>(sql, [inspectionId]);
+  }
+
+  /**
+   * Get a single photo by ID
+   */
+  async getPhoto(photoId: string): Promise<DatabasePhoto | null> {
+    const sql = 'SELECT * FROM photos WHERE id = ?';
+    return this.db.getFirstSync<DatabasePhoto>(sql, [photoId]);
+  }
+
+  /**
+   * Get photos for a specific inspection, leaving out any in the trash
    */
   async getPhotosForInspection(inspectionId: string): Promise<DatabasePhoto[]> {
-    const sql = 'SELECT * FROM photos WHERE inspection_id = ? ORDER BY timestamp ASC';
+    const sql = 'SELECT * FROM photos WHERE inspection_id = ? AND deleted_at IS NULL ORDER BY timestamp ASC';
     const result = this.db.getAllSync<DatabasePhoto>(sql, [inspectionId]);
     return result;
   }
 
+  /**
+   * Get an inspection's photos in the trash, most recently deleted first
+   */
+  async getTrashedPhotos(inspectionId: string): Promise<DatabasePhoto[]> {
+    const sql = 'SELECT * FROM photos WHERE inspection_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC';
+    return this.db.getAllSync<DatabasePhoto>(sql, [inspectionId]);
+  }
+
+  /**
+   * Get photos of any inspection that went in the trash at or before a time
+   */
+  async getPhotosTrashedBefore(deletedBefore: number): Promise<DatabasePhoto[]> {
+    const sql = 'SELECT * FROM photos WHERE deleted_at IS NOT NULL AND deleted_at <= ? ORDER BY deleted_at ASC';
+    return this.db.getAllSync<DatabasePhoto>(sql, [deletedBefore]);
+  }
+
+  /**
+   * Move a photo to the trash
+   */
+  async trashPhoto(photoId: string, deletedAt: number): Promise<void> {
+    const sql = 'UPDATE photos SET deleted_at = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([deletedAt, photoId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Take a photo back out of the trash
+   * Its server copy was deleted with it, so it has to be added and uploaded again
+   */
+  async restorePhoto(photoId: string): Promise<void> {
+    const sql = 'UPDATE photos SET deleted_at = NULL, remote_id = NULL, firebase_url = NULL WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([photoId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Delete a photo record for good
+   */
+  async deletePhoto(photoId: string): Promise<void> {
+    const sql = 'DELETE FROM photos WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([photoId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Delete an inspection and every row that belongs to it
+   * Returns how many rows each table lost; tables with nothing to delete are left out
+   */
+  async deleteInspection(inspectionId: string): Promise<DeletionCounts> {
+    const counts: DeletionCounts = {};
+    const deleteRows = (table: string, sql: string) => {
+      const stmt = this.db.prepareSync(sql);
+      const { changes } = stmt.executeSync([inspectionId]);
+      stmt.finalizeSync();
+      if (changes > 0) {
+        counts[table] = changes;
+      }
+    };
+
+    for (const table of INSPECTION_CHILD_TABLES) {
+      deleteRows(table, `DELETE FROM ${table} WHERE inspection_id = ?`);
+    }
+    deleteRows('inspections', 'DELETE FROM inspections WHERE id = ?');
+    return counts;
+  }
+
   /**
    * Update inspection audio URI
    */
@@ -128,11 +249,44 @@ class InspectionDatabase {
   }
 
   /**
-   * Update inspection Firebase audio URL
+   * Update the pauses recorded in an inspection's audio
+   */
+  async updateInspectionAudioPauses(inspectionId: string, pauses: RecordingPause[]): Promise<void> {
+    const sql = 'UPDATE inspections SET audio_pauses = ?, updated_at = ? WHERE id = ?';
+    const args = [JSON.stringify(pauses), Date.now(), inspectionId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Replace the list of areas offered for an inspection's photos
+   */
+  async updateInspectionAreas(inspectionId: string, areas: string[]): Promise<void> {
+    const sql = 'UPDATE inspections SET areas = ?, updated_at = ? WHERE id = ?';
+    const args = [JSON.stringify(areas), Date.now(), inspectionId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Replace the area changes inferred from an inspection's transcript
+   */
+  async updateInspectionAreaProposals(inspectionId: string, proposals: AreaProposal[]): Promise<void> {
+    const sql = 'UPDATE inspections SET area_proposals = ?, updated_at = ? WHERE id = ?';
+    const args = [JSON.stringify(proposals), Date.now(), inspectionId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Update the long silent stretches on an inspection's recording
    */
-  async updateInspectionFirebaseAudioUrl(inspectionId: string, firebaseUrl: string): Promise<void> {
-    const sql = 'UPDATE inspections SET firebase_audio_url = ?, updated_at = ? WHERE id = ?';
-    const args = [firebaseUrl, Date.now(), inspectionId];
+  async updateInspectionAudioSilences(inspectionId: string, silences: AudioSpan[]): Promise<void> {
+    const sql = 'UPDATE inspections SET audio_silences = ?, updated_at = ? WHERE id = ?';
+    const args = [JSON.stringify(silences), Date.now(), inspectionId];
     const stmt = this.db.prepareSync(sql);
     stmt.executeSync(args);
     stmt.finalizeSync();
@@ -149,6 +303,16 @@ class InspectionDatabase {
     stmt.finalizeSync();
   }
 
+  /**
+   * Store a photo's quality scores
+   */
+  async updatePhotoQuality(photoId: string, quality: string): Promise<void> {
+    const sql = 'UPDATE photos SET quality = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([quality, photoId]);
+    stmt.finalizeSync();
+  }
+
   /**
    * Update inspection status
    */
@@ -159,6 +323,610 @@ class InspectionDatabase {
     stmt.executeSync(args);
     stmt.finalizeSync();
   }
+
+  /**
+   * Write a mergeable inspection field together with its version stamp
+   */
+  async setInspectionField(
+    inspectionId: string,
+    field: InspectionMergeField,
+    value: string | null,
+    version: FieldVersion
+  ): Promise<void> {
+    const column = INSPECTION_FIELD_COLUMNS[field];
+    const sql = `UPDATE inspections
+                 SET ${column} = ?, field_versions = json_set(COALESCE(field_versions, '{}'), ?, json(?)), updated_at = ?
+                 WHERE id = ?`;
+    const args = [value, `$.${field}`, JSON.stringify(version), Date.now(), inspectionId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Write a mergeable photo field together with its version stamp
+   */
+  async setPhotoField(
+    photoId: string,
+    field: PhotoMergeField,
+    value: string | null,
+    version: FieldVersion
+  ): Promise<void> {
+    const column = PHOTO_FIELD_COLUMNS[field];
+    const sql = `UPDATE photos
+                 SET ${column} = ?, field_versions = json_set(COALESCE(field_versions, '{}'), ?, json(?))
+                 WHERE id = ?`;
+    const args = [value, `$.${field}`, JSON.stringify(version), photoId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record a field the sync couldn't merge automatically
+   * There is at most one open conflict per field, the latest one replaces older ones
+   */
+  async recordConflict(conflict: Omit<DatabaseConflict, 'id' | 'created_at' | 'resolved_at'>): Promise<void> {
+    const sql = `INSERT OR REPLACE INTO conflicts (id, inspection_id, entity_type, entity_id, field, local_value, remote_value, local_version, remote_version, created_at, resolved_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)`;
+    const args = [
+      `${conflict.entity_type}:${conflict.entity_id}:${conflict.field}`,
+      conflict.inspection_id,
+      conflict.entity_type,
+      conflict.entity_id,
+      conflict.field,
+      conflict.local_value ?? null,
+      conflict.remote_value ?? null,
+      conflict.local_version ?? null,
+      conflict.remote_version ?? null,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get unresolved conflicts for an inspection
+   */
+  async getOpenConflicts(inspectionId: string): Promise<DatabaseConflict[]> {
+    const sql = 'SELECT * FROM conflicts WHERE inspection_id = ? AND resolved_at IS NULL ORDER BY created_at ASC';
+    return this.db.getAllSync<DatabaseConflict>(sql, [inspectionId]);
+  }
+
+  /**
+   * Get a single conflict by ID
+   */
+  async getConflict(conflictId: string): Promise<DatabaseConflict | null> {
+    const sql = 'SELECT * FROM conflicts WHERE id = ?';
+    return this.db.getFirstSync<DatabaseConflict>(sql, [conflictId]);
+  }
+
+  /**
+   * Mark a conflict as resolved
+   */
+  async resolveConflict(conflictId: string): Promise<void> {
+    const sql = 'UPDATE conflicts SET resolved_at = ? WHERE id = ?';
+    const args = [Date.now(), conflictId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record the Firestore document ID for a synced inspection
+   */
+  async setInspectionRemoteId(inspectionId: string, remoteId: string): Promise<void> {
+    const sql = 'UPDATE inspections SET remote_id = ? WHERE id = ?';
+    const args = [remoteId, inspectionId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record the Firestore document ID for a synced photo
+   */
+  async setPhotoRemoteId(photoId: string, remoteId: string | null): Promise<void> {
+    const sql = 'UPDATE photos SET remote_id = ? WHERE id = ?';
+    const args = [remoteId, photoId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Add an operation to the sync outbox
+   * Operations are keyed by their ID, so enqueueing the same operation twice is a no-op
+   */
+  async enqueueOperation(
+    operation: Omit<DatabaseOutboxOperation, 'seq' | 'attempts' | 'last_error' | 'created_at'>
+  ): Promise<void> {
+    const sql = `INSERT OR IGNORE INTO outbox (id, inspection_id, type, payload, attempts, created_at)
+                 VALUES (?, ?, ?, ?, 0, ?)`;
+    const args = [
+      operation.id,
+      operation.inspection_id,
+      operation.type,
+      operation.payload,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get all outbox operations in the order they were enqueued
+   */
+  async getPendingOperations(): Promise<DatabaseOutboxOperation[]> {
+    const sql = 'SELECT * FROM outbox ORDER BY seq ASC';
+    return this.db.getAllSync<DatabaseOutboxOperation>(sql);
+  }
+
+  /**
+   * Count operations still waiting to be synced
+   */
+  async getPendingOperationCount(): Promise<number> {
+    const sql = 'SELECT COUNT(*) AS count FROM outbox';
+    const result = this.db.getFirstSync<{ count: number }>(sql);
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Remove an operation from the outbox once it has been applied remotely
+   */
+  async completeOperation(operationId: string): Promise<void> {
+    const sql = 'DELETE FROM outbox WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([operationId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Drop a photo's pending operations of the given types, e.g. a queued delete of a photo that was restored
+   */
+  async cancelPhotoOperations(photoId: string, types: OutboxOperationType[]): Promise<void> {
+    const sql = `DELETE FROM outbox
+                 WHERE json_extract(payload, '$.photoId') = ? AND type IN (${types.map(() => '?').join(', ')})`;
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([photoId, ...types]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record a failed sync attempt so the operation is retried later
+   */
+  async recordOperationFailure(operationId: string, error: string): Promise<void> {
+    const sql = 'UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?';
+    const args = [error, operationId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record a finalized chunk of an inspection's audio
+   */
+  async addAudioChunk(chunk: Omit<DatabaseAudioChunk, 'firebase_url' | 'created_at'>): Promise<void> {
+    const sql = `INSERT OR REPLACE INTO audio_chunks (id, inspection_id, chunk_index, local_uri, start_offset, duration_ms, firebase_url, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, NULL, ?)`;
+    const args = [
+      chunk.id,
+      chunk.inspection_id,
+      chunk.chunk_index,
+      chunk.local_uri,
+      chunk.start_offset,
+      chunk.duration_ms,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get a single audio chunk
+   */
+  async getAudioChunk(chunkId: string): Promise<DatabaseAudioChunk | null> {
+    const sql = 'SELECT * FROM audio_chunks WHERE id = ?';
+    return this.db.getFirstSync<DatabaseAudioChunk>(sql, [chunkId]);
+  }
+
+  /**
+   * Get the audio chunks of an inspection in timeline order
+   */
+  async getAudioChunks(inspectionId: string): Promise<DatabaseAudioChunk[]> {
+    const sql = 'SELECT * FROM audio_chunks WHERE inspection_id = ? ORDER BY chunk_index ASC';
+    return this.db.getAllSync<DatabaseAudioChunk>(sql, [inspectionId]);
+  }
+
+  /**
+   * Update the uploaded URL of an audio chunk
+   */
+  async updateAudioChunkFirebaseUrl(chunkId: string, firebaseUrl: string): Promise<void> {
+    const sql = 'UPDATE audio_chunks SET firebase_url = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([firebaseUrl, chunkId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record the start of a recording session
+   */
+  async addAudioSession(session: Omit<DatabaseAudioSession, 'ended_at' | 'end_offset' | 'created_at'>): Promise<void> {
+    const sql = `INSERT INTO audio_sessions (id, inspection_id, session_index, started_at, start_offset, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`;
+    const args = [
+      session.id,
+      session.inspection_id,
+      session.session_index,
+      session.started_at,
+      session.start_offset,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record where a recording session ended
+   */
+  async endAudioSession(sessionId: string, endedAt: number, endOffset: number): Promise<void> {
+    const sql = 'UPDATE audio_sessions SET ended_at = ?, end_offset = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([endedAt, endOffset, sessionId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get a recording session by ID
+   */
+  async getAudioSession(sessionId: string): Promise<DatabaseAudioSession | null> {
+    const sql = 'SELECT * FROM audio_sessions WHERE id = ?';
+    return this.db.getFirstSync<DatabaseAudioSession>(sql, [sessionId]);
+  }
+
+  /**
+   * Get an inspection's recording sessions in order
+   */
+  async getAudioSessions(inspectionId: string): Promise<DatabaseAudioSession[]> {
+    const sql = 'SELECT * FROM audio_sessions WHERE inspection_id = ? ORDER BY session_index ASC';
+    return this.db.getAllSync<DatabaseAudioSession>(sql, [inspectionId]);
+  }
+
+  /**
+   * Add a timeline marker to an inspection
+   */
+  async addMarker(marker: Omit<DatabaseMarker, 'created_at'>): Promise<void> {
+    const sql = `INSERT INTO markers (id, inspection_id, label, timestamp, audio_timestamp, caption, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`;
+    const args = [
+      marker.id,
+      marker.inspection_id,
+      marker.label || null,
+      marker.timestamp,
+      marker.audio_timestamp,
+      marker.caption || null,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get an inspection's markers in timeline order
+   */
+  async getMarkersForInspection(inspectionId: string): Promise<DatabaseMarker[]> {
+    const sql = 'SELECT * FROM markers WHERE inspection_id = ? ORDER BY audio_timestamp ASC';
+    return this.db.getAllSync<DatabaseMarker>(sql, [inspectionId]);
+  }
+
+  /**
+   * Update the caption generated for a marker
+   */
+  async updateMarkerCaption(markerId: string, caption: string): Promise<void> {
+    const sql = 'UPDATE markers SET caption = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([caption, markerId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Add a video clip to an inspection
+   */
+  async addVideoClip(clip: Omit<DatabaseVideoClip, 'created_at'>): Promise<void> {
+    const sql = `INSERT INTO video_clips (id, inspection_id, video_uri, timestamp, audio_timestamp, end_audio_timestamp, session_id, area, firebase_url, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    const args = [
+      clip.id,
+      clip.inspection_id,
+      clip.video_uri,
+      clip.timestamp,
+      clip.audio_timestamp,
+      clip.end_audio_timestamp,
+      clip.session_id || null,
+      clip.area || null,
+      clip.firebase_url || null,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get a video clip by ID
+   */
+  async getVideoClip(clipId: string): Promise<DatabaseVideoClip | null> {
+    const sql = 'SELECT * FROM video_clips WHERE id = ?';
+    return this.db.getFirstSync<DatabaseVideoClip>(sql, [clipId]);
+  }
+
+  /**
+   * Get an inspection's video clips in timeline order
+   */
+  async getVideoClipsForInspection(inspectionId: string): Promise<DatabaseVideoClip[]> {
+    const sql = 'SELECT * FROM video_clips WHERE inspection_id = ? ORDER BY audio_timestamp ASC';
+    return this.db.getAllSync<DatabaseVideoClip>(sql, [inspectionId]);
+  }
+
+  /**
+   * Update the uploaded URL of a video clip
+   */
+  async updateVideoClipFirebaseUrl(clipId: string, firebaseUrl: string): Promise<void> {
+    const sql = 'UPDATE video_clips SET firebase_url = ? WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([firebaseUrl, clipId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Remember the state of an in-progress recording so it can be recovered after a crash
+   */
+  async saveActiveRecording(recording: Omit<DatabaseActiveRecording, 'updated_at'>): Promise<void> {
+    const sql = `INSERT OR REPLACE INTO active_recordings (inspection_id, started_at, recorder_uri, chunk_index, chunk_start_offset, pauses, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`;
+    const args = [
+      recording.inspection_id,
+      recording.started_at,
+      recording.recorder_uri ?? null,
+      recording.chunk_index,
+      recording.chunk_start_offset,
+      recording.pauses ?? null,
+      Date.now()
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get recordings that were still in progress, oldest first
+   */
+  async getActiveRecordings(): Promise<DatabaseActiveRecording[]> {
+    const sql = 'SELECT * FROM active_recordings ORDER BY started_at ASC';
+    return this.db.getAllSync<DatabaseActiveRecording>(sql);
+  }
+
+  /**
+   * Forget an in-progress recording once it has stopped or been recovered
+   */
+  async deleteActiveRecording(inspectionId: string): Promise<void> {
+    const sql = 'DELETE FROM active_recordings WHERE inspection_id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([inspectionId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get the resumable upload session for a Cloud Storage path
+   */
+  async getUploadSession(storagePath: string): Promise<DatabaseUploadSession | null> {
+    const sql = 'SELECT * FROM upload_sessions WHERE storage_path = ?';
+    return this.db.getFirstSync<DatabaseUploadSession>(sql, [storagePath]);
+  }
+
+  /**
+   * Persist a newly started resumable upload session
+   */
+  async saveUploadSession(session: Omit<DatabaseUploadSession, 'created_at' | 'updated_at'>): Promise<void> {
+    const now = Date.now();
+    const sql = `INSERT OR REPLACE INTO upload_sessions (storage_path, inspection_id, local_uri, upload_url, content_type, total_bytes, bytes_uploaded, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    const args = [
+      session.storage_path,
+      session.inspection_id,
+      session.local_uri,
+      session.upload_url,
+      session.content_type,
+      session.total_bytes,
+      session.bytes_uploaded,
+      now,
+      now
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record how many bytes the server has confirmed for an upload
+   */
+  async updateUploadSessionProgress(storagePath: string, bytesUploaded: number): Promise<void> {
+    const sql = 'UPDATE upload_sessions SET bytes_uploaded = ?, updated_at = ? WHERE storage_path = ?';
+    const args = [bytesUploaded, Date.now(), storagePath];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Forget an upload session once it completes or becomes unusable
+   */
+  async deleteUploadSession(storagePath: string): Promise<void> {
+    const sql = 'DELETE FROM upload_sessions WHERE storage_path = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([storagePath]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Add a file to the upload queue, replacing any earlier task for the same entity
+   */
+  async enqueueUpload(
+    task: Pick<DatabaseUploadTask, 'id' | 'inspection_id' | 'kind' | 'entity_id' | 'local_uri'>
+  ): Promise<void> {
+    const now = Date.now();
+    const sql = `INSERT OR REPLACE INTO upload_queue (id, inspection_id, kind, entity_id, local_uri, status, attempts, next_attempt_at, last_error, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, 'PENDING', 0, ?, NULL, ?, ?)`;
+    const args = [
+      task.id,
+      task.inspection_id,
+      task.kind,
+      task.entity_id,
+      task.local_uri,
+      now,
+      now,
+      now
+    ];
+
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Get pending uploads whose backoff has elapsed, oldest first
+   */
+  async getDueUploads(now: number): Promise<DatabaseUploadTask[]> {
+    const sql = `SELECT * FROM upload_queue WHERE status = 'PENDING' AND next_attempt_at <= ?
+                 ORDER BY created_at ASC`;
+    return this.db.getAllSync<DatabaseUploadTask>(sql, [now]);
+  }
+
+  /**
+   * Get the earliest time a pending upload becomes due
+   */
+  async getNextUploadAttemptAt(): Promise<number | null> {
+    const sql = `SELECT MIN(next_attempt_at) AS next FROM upload_queue WHERE status = 'PENDING'`;
+    const result = this.db.getFirstSync<{ next: number | null }>(sql);
+    return result?.next ?? null;
+  }
+
+  /**
+   * Get uploads in a given state
+   */
+  async getUploadsByStatus(status: UploadTaskStatus): Promise<DatabaseUploadTask[]> {
+    const sql = 'SELECT * FROM upload_queue WHERE status = ? ORDER BY created_at ASC';
+    return this.db.getAllSync<DatabaseUploadTask>(sql, [status]);
+  }
+
+  /**
+   * Count uploads in a given state
+   */
+  async getUploadCount(status: UploadTaskStatus): Promise<number> {
+    const sql = 'SELECT COUNT(*) AS count FROM upload_queue WHERE status = ?';
+    const result = this.db.getFirstSync<{ count: number }>(sql, [status]);
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Remove an upload from the queue once the file is in Cloud Storage
+   */
+  async completeUpload(taskId: string): Promise<void> {
+    const sql = 'DELETE FROM upload_queue WHERE id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([taskId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Drop any queued upload of an entity, e.g. a photo that was deleted before it went up
+   */
+  async cancelUploads(kind: UploadKind, entityId: string): Promise<void> {
+    const sql = 'DELETE FROM upload_queue WHERE kind = ? AND entity_id = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([kind, entityId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Record a failed upload attempt and when to try again
+   * A null nextAttemptAt marks the task as permanently failed
+   */
+  async recordUploadFailure(taskId: string, error: string, nextAttemptAt: number | null): Promise<void> {
+    const sql = `UPDATE upload_queue
+                 SET attempts = attempts + 1, last_error = ?, status = ?, next_attempt_at = COALESCE(?, next_attempt_at), updated_at = ?
+                 WHERE id = ?`;
+    const args = [error, nextAttemptAt === null ? 'FAILED' : 'PENDING', nextAttemptAt, Date.now(), taskId];
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync(args);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Put a failed upload back in the queue with a fresh retry budget
+   */
+  async retryUpload(taskId: string): Promise<void> {
+    const now = Date.now();
+    const sql = `UPDATE upload_queue SET status = 'PENDING', attempts = 0, next_attempt_at = ?, updated_at = ?
+                 WHERE id = ?`;
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([now, now, taskId]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Read an app setting
+   */
+  async getSetting(key: string): Promise<string | null> {
+    const sql = 'SELECT value FROM settings WHERE key = ?';
+    const result = this.db.getFirstSync<{ value: string }>(sql, [key]);
+    return result?.value ?? null;
+  }
+
+  /**
+   * Write an app setting
+   */
+  async setSetting(key: string, value: string): Promise<void> {
+    const sql = 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([key, value]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Remove an app setting
+   */
+  async deleteSetting(key: string): Promise<void> {
+    const sql = 'DELETE FROM settings WHERE key = ?';
+    const stmt = this.db.prepareSync(sql);
+    stmt.executeSync([key]);
+    stmt.finalizeSync();
+  }
+
+  /**
+   * Run several writes atomically, rolling all of them back if any fails
+   * Transactions run one at a time: the connection is shared, and a second
+   * BEGIN while one is open fails, and its ROLLBACK would undo the other's writes
+   * The task must not start another transaction, or it waits on itself
+   */
+  async runInTransaction(task: () => Promise<void>): Promise<void> {
+    const transaction = this.transactionTail.then(() => this.db.withTransactionAsync(task));
+    this.transactionTail = transaction.catch(() => undefined);
+    await transaction;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,403 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * A single schema change, identified by the `user_version` it upgrades to
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => void;
+}
+
+/**
+ * Ordered list of schema migrations
+ * Never edit a migration that has shipped - append a new one instead
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      // IF NOT EXISTS keeps this safe on databases created before versioning,
+      // which already have these tables but report user_version 0
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS inspections (
+          id TEXT PRIMARY KEY,
+          client TEXT NOT NULL,
+          address TEXT NOT NULL,
+          claim_number TEXT NOT NULL,
+          inspection_date TEXT NOT NULL,
+          audio_uri TEXT,
+          firebase_audio_url TEXT,
+          status TEXT NOT NULL DEFAULT 'DRAFT',
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS photos (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          photo_uri TEXT NOT NULL,
+          firebase_url TEXT,
+          timestamp INTEGER NOT NULL,
+          audio_timestamp INTEGER NOT NULL,
+          caption TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'photos_inspection_index',
+    up: (db) => {
+      db.execSync(`
+        CREATE INDEX IF NOT EXISTS idx_photos_inspection_timestamp
+        ON photos (inspection_id, timestamp);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'sync_outbox',
+    up: (db) => {
+      // Firestore document IDs, filled in once a record has been synced
+      db.execSync('ALTER TABLE inspections ADD COLUMN remote_id TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN remote_id TEXT;');
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS outbox (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          inspection_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+      db.execSync(`
+        CREATE INDEX IF NOT EXISTS idx_outbox_inspection_seq
+        ON outbox (inspection_id, seq);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'field_versions_and_conflicts',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN field_versions TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN field_versions TEXT;');
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS conflicts (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          field TEXT NOT NULL,
+          local_value TEXT,
+          remote_value TEXT,
+          local_version TEXT,
+          remote_version TEXT,
+          created_at INTEGER NOT NULL,
+          resolved_at INTEGER
+        );
+      `);
+      db.execSync(`
+        CREATE INDEX IF NOT EXISTS idx_conflicts_inspection
+        ON conflicts (inspection_id, resolved_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'upload_sessions',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS upload_sessions (
+          storage_path TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          local_uri TEXT NOT NULL,
+          upload_url TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          total_bytes INTEGER NOT NULL,
+          bytes_uploaded INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'upload_queue_and_settings',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS upload_queue (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          local_uri TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'PENDING',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_upload_queue_status ON upload_queue(status, next_attempt_at);
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'inspection_audio_pauses',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN audio_pauses TEXT;');
+    },
+  },
+  {
+    version: 8,
+    name: 'audio_chunks',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS audio_chunks (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          local_uri TEXT NOT NULL,
+          start_offset INTEGER NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          firebase_url TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_audio_chunks_inspection ON audio_chunks(inspection_id, chunk_index);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'active_recordings',
+    up: (db) => {
+      // One row per inspection whose recording is in progress, removed when it stops
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS active_recordings (
+          inspection_id TEXT PRIMARY KEY,
+          started_at INTEGER NOT NULL,
+          recorder_uri TEXT,
+          chunk_index INTEGER NOT NULL,
+          chunk_start_offset INTEGER NOT NULL,
+          pauses TEXT,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'inspection_recording_profile',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN recording_profile TEXT;');
+    },
+  },
+  {
+    version: 11,
+    name: 'inspection_audio_silences',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN audio_silences TEXT;');
+    },
+  },
+  {
+    version: 12,
+    name: 'markers',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS markers (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          label TEXT,
+          timestamp INTEGER NOT NULL,
+          audio_timestamp INTEGER NOT NULL,
+          caption TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+      `);
+      db.execSync(`
+        CREATE INDEX IF NOT EXISTS idx_markers_inspection ON markers(inspection_id, audio_timestamp);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'audio_sessions',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS audio_sessions (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          session_index INTEGER NOT NULL,
+          started_at INTEGER NOT NULL,
+          start_offset INTEGER NOT NULL,
+          ended_at INTEGER,
+          end_offset INTEGER,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+      `);
+      db.execSync(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_audio_sessions_inspection ON audio_sessions(inspection_id, session_index);
+      `);
+      db.execSync('ALTER TABLE photos ADD COLUMN session_id TEXT;');
+
+      // Audio recorded before sessions existed becomes the first session;
+      // it is still open if the recording was in progress
+      db.execSync(`
+        INSERT INTO audio_sessions (id, inspection_id, session_index, started_at, start_offset, ended_at, created_at)
+        SELECT i.id || ':0', i.id, 0, COALESCE(a.started_at, i.created_at), 0,
+               CASE WHEN a.inspection_id IS NULL THEN i.updated_at END, i.created_at
+        FROM inspections i
+        LEFT JOIN active_recordings a ON a.inspection_id = i.id
+        WHERE i.audio_uri IS NOT NULL
+           OR a.inspection_id IS NOT NULL
+           OR EXISTS (SELECT 1 FROM audio_chunks c WHERE c.inspection_id = i.id);
+      `);
+      db.execSync(`
+        UPDATE photos SET session_id = inspection_id || ':0'
+        WHERE inspection_id IN (SELECT inspection_id FROM audio_sessions);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'photo_derivatives',
+    up: (db) => {
+      // Photos taken before processing existed keep their full-size file as photo_uri
+      db.execSync('ALTER TABLE photos ADD COLUMN thumbnail_uri TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN original_uri TEXT;');
+    },
+  },
+  {
+    version: 15,
+    name: 'photo_location',
+    up: (db) => {
+      db.execSync('ALTER TABLE photos ADD COLUMN location TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN heading TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN device TEXT;');
+    },
+  },
+  {
+    version: 16,
+    name: 'areas',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN areas TEXT;');
+      db.execSync('ALTER TABLE photos ADD COLUMN area TEXT;');
+    },
+  },
+  {
+    version: 17,
+    name: 'area_proposals',
+    up: (db) => {
+      db.execSync('ALTER TABLE inspections ADD COLUMN area_proposals TEXT;');
+    },
+  },
+  {
+    version: 18,
+    name: 'video_clips',
+    up: (db) => {
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS video_clips (
+          id TEXT PRIMARY KEY,
+          inspection_id TEXT NOT NULL,
+          video_uri TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          audio_timestamp INTEGER NOT NULL,
+          end_audio_timestamp INTEGER NOT NULL,
+          session_id TEXT,
+          area TEXT,
+          firebase_url TEXT,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (inspection_id) REFERENCES inspections (id) ON DELETE CASCADE
+        );
+      `);
+      db.execSync(`
+        CREATE INDEX IF NOT EXISTS idx_video_clips_inspection ON video_clips(inspection_id, audio_timestamp);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'photo_source',
+    up: (db) => {
+      db.execSync('ALTER TABLE photos ADD COLUMN source TEXT;');
+    },
+  },
+  {
+    version: 20,
+    name: 'photo_trash',
+    up: (db) => {
+      db.execSync('ALTER TABLE photos ADD COLUMN deleted_at INTEGER;');
+    },
+  },
+  {
+    version: 21,
+    name: 'photo_quality',
+    up: (db) => {
+      db.execSync('ALTER TABLE photos ADD COLUMN quality TEXT;');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Read the schema version stored in the database header
+ */
+export function getSchemaVersion(db: SQLite.SQLiteDatabase): number {
+  const row = db.getFirstSync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Apply every migration newer than the database's current version
+ * Each step runs in its own transaction together with its user_version bump,
+ * so a failing step is rolled back and leaves the previous schema and data intact
+ */
+export function runMigrations(
+  db: SQLite.SQLiteDatabase,
+  steps: Migration[] = migrations
+): number {
+  let currentVersion = getSchemaVersion(db);
+  const pending = steps
+    .filter(step => step.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const step of pending) {
+    try {
+      console.log(`Running database migration ${step.version}: ${step.name}`);
+      db.withTransactionSync(() => {
+        step.up(db);
+        db.execSync(`PRAGMA user_version = ${step.version}`);
+      });
+      currentVersion = step.version;
+    } catch (error) {
+      console.error(`Database migration ${step.version} (${step.name}) failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Migration ${step.version} (${step.name}) failed: ${errorMessage}`);
+    }
+  }
+
+  return currentVersion;
+}
@@ -6,31 +6,83 @@ import {
   Text,
   Alert,
   ActivityIndicator,
+  Image,
+  Modal,
+  Platform,
+  ScrollView,
+  TextInput,
 } from 'react-native';
 import { Camera, CameraView } from 'expo-camera';
 import * as FileSystem from 'expo-file-system';
+import * as Haptics from 'expo-haptics';
 import { useRecording } from '../contexts/RecordingContext';
-import { firestoreService } from '../services/firestoreService';
-import { Photo } from '../types';
-import { firebaseStorage } from '../services/firebaseStorage';
+import { getMeterFraction } from '../utils/levelMonitor';
+import { inspectionRepository } from '../services/inspectionRepository';
+import { photoQualityService } from '../services/photoQualityService';
+import { photoSaveQueue } from '../services/photoSaveQueue';
+import { photoTrashService } from '../services/photoTrashService';
+import { locationService } from '../services/locationService';
+import { uploadQueue } from '../services/uploadQueue';
+import { Marker, Photo, PhotoQualityIssue, VideoClip } from '../types';
+import { addArea, getInspectionAreas, removeArea } from '../utils/areas';
+import { QUALITY_ISSUE_LABELS } from '../utils/photoQuality';
+import { getVideoClipFileName, MAX_CLIP_DURATION_MS } from '../utils/videoClips';
 
 interface CameraScreenProps {
   inspectionId: string;
   onPhotoTaken?: (photo: Photo) => void;
+  onPhotoDeleted?: (photoId: string) => void;
+  onMarkerDropped?: (marker: Marker) => void;
+  onClipRecorded?: (clip: VideoClip) => void;
 }
 
+// How long confirmations like "marker dropped" stay on screen
+const NOTICE_MS = 2000;
+
+// A burst stops after this many photos even if the shutter is still held
+const MAX_BURST_PHOTOS = 30;
+
+/**
+ * Format a timeline position as m:ss
+ */
+const formatPosition = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
 /**
  * CameraScreen component for capturing photos during inspection
  * Integrates with recording context to sync photo timestamps with audio
  */
 export const CameraScreen: React.FC<CameraScreenProps> = ({ 
   inspectionId, 
-  onPhotoTaken 
+  onPhotoTaken,
+  onPhotoDeleted,
+  onMarkerDropped,
+  onClipRecorded,
 }) => {
   const [permission, setPermission] = useState<any>(null);
   const [isTakingPhoto, setIsTakingPhoto] = useState(false);
+  const [isBursting, setIsBursting] = useState(false);
+  const [lastCaptureUri, setLastCaptureUri] = useState<string | null>(null);
+  const [qualityIssues, setQualityIssues] = useState<PhotoQualityIssue[]>([]);
+  const [captureCount, setCaptureCount] = useState(0);
+  const [pendingSaves, setPendingSaves] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [areas, setAreas] = useState<string[]>([]);
+  const [currentArea, setCurrentArea] = useState<string | null>(null);
+  const [isEditingAreas, setIsEditingAreas] = useState(false);
+  const [newAreaName, setNewAreaName] = useState('');
+  const [captureMode, setCaptureMode] = useState<'PHOTO' | 'VIDEO'>('PHOTO');
+  const [clipStartedAt, setClipStartedAt] = useState<number | null>(null);
+  const [clipElapsed, setClipElapsed] = useState(0);
   const cameraRef = useRef<CameraView>(null);
-  const { recordingState } = useRecording();
+  const isCapturingRef = useRef(false);
+  const lastSaveRef = useRef<Promise<Photo> | null>(null);
+  const lastPhotoIdRef = useRef<string | null>(null);
+  const burstRef = useRef(false);
+  const noticeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { recordingState, getAudioTimestamp } = useRecording();
 
   /**
    * Request camera permissions if not granted
@@ -48,25 +100,46 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({
   }, []);
 
   /**
-   * Take a photo and save it to the database
+   * Show a brief message that doesn't get in the way of the next shot
    */
-  const takePicture = useCallback(async () => {
-    if (!cameraRef.current || isTakingPhoto) {
-      return;
+  const showNotice = useCallback((text: string) => {
+    setNotice(text);
+    if (noticeTimer.current) {
+      clearTimeout(noticeTimer.current);
     }
+    noticeTimer.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  }, []);
+
+  /**
+   * Take a photo and hand it to the background save queue
+   * Resolves as soon as the image is in the document directory, so the next
+   * shot can follow straight away; returns whether a photo was taken
+   */
+  const capturePhoto = useCallback(async (): Promise<boolean> => {
+    if (!cameraRef.current || isCapturingRef.current) {
+      return false;
+    }
+
+    isCapturingRef.current = true;
+    setIsTakingPhoto(true);
 
     try {
-      setIsTakingPhoto(true);
+      // Read the audio position for the moment the shutter was pressed,
+      // before the camera spends time capturing
+      const pressedAt = Date.now();
+      const currentAudioTimestamp = await getAudioTimestamp(pressedAt);
+      const metadata = locationService.getPhotoMetadata(pressedAt);
 
-      // Take the photo
+      // Take the photo at full quality - the upload copy is recompressed once, in the background
       const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.8,
+        quality: 1,
         base64: false,
         skipProcessing: false,
       });
 
-      // Generate unique filename
-      const fileName = `inspection_photo_${Date.now()}.jpg`;
+      // Generate unique filename - the inspection and shutter time let a photo
+      // be recovered if the app is killed before it is saved
+      const fileName = `inspection_photo_${inspectionId}_${pressedAt}.jpg`;
       const newUri = `${FileSystem.documentDirectory}${fileName}`;
 
       // Move the photo to our app's document directory
@@ -75,68 +148,331 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({
         to: newUri,
       });
 
-      // Calculate current audio timestamp
-      const currentAudioTimestamp = recordingState.duration;
+      // The image is safe on disk - confirm without blocking
+      setLastCaptureUri(newUri);
+      lastPhotoIdRef.current = null;
+      setQualityIssues([]);
+      setCaptureCount(count => count + 1);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+        .catch(error => console.error('Failed to play capture haptic:', error));
 
-      // Create photo object
-      const photoData: Omit<Photo, 'id'> = {
+      // Save locally and queue the upload in the background
+      const save = photoSaveQueue.savePhoto(inspectionId, {
         uri: newUri,
-        timestamp: Date.now(),
+        timestamp: pressedAt,
         audioTimestamp: currentAudioTimestamp,
-      };
-
-      // Save to Firestore
-      const photoId = await firestoreService.addPhoto({
-        inspectionId: inspectionId,
-        photoUri: newUri,
-        timestamp: photoData.timestamp,
-        audioTimestamp: photoData.audioTimestamp,
+        sessionId: recordingState.sessionId,
+        ...(currentArea ? { area: currentArea } : {}),
+        ...metadata,
+        source: 'CAMERA',
       });
+      lastSaveRef.current = save;
+      save
+        .then(savedPhoto => {
+          onPhotoTaken?.(savedPhoto);
+          // Only prompt about the latest shot; an older one has already been moved on from
+          if (lastSaveRef.current === save) {
+            lastPhotoIdRef.current = savedPhoto.id;
+          }
+        })
+        .catch(error => {
+          console.error('Failed to save photo:', error);
+          showNotice('A photo could not be saved');
+        });
+
+      return true;
+    } catch (error) {
+      console.error('Failed to take photo:', error);
+      showNotice('Failed to capture photo - try again');
+      return false;
+    } finally {
+      isCapturingRef.current = false;
+      setIsTakingPhoto(false);
+    }
+  }, [currentArea, getAudioTimestamp, inspectionId, onPhotoTaken, recordingState.sessionId, showNotice]);
+
+  /**
+   * Take a single photo
+   */
+  const takePicture = useCallback(async () => {
+    await capturePhoto();
+  }, [capturePhoto]);
+
+  /**
+   * Delete the last photo taken, e.g. to retake a blurry shot
+   * It goes to the trash, so it can still be restored from review
+   */
+  const undoLastPhoto = useCallback(async () => {
+    const save = lastSaveRef.current;
+    if (!save) {
+      return;
+    }
+    lastSaveRef.current = null;
+    lastPhotoIdRef.current = null;
+    setLastCaptureUri(null);
+    setQualityIssues([]);
+    setCaptureCount(count => Math.max(0, count - 1));
+
+    try {
+      // The photo may still be saving
+      const photo = await save;
+      await photoTrashService.deletePhoto(photo.id);
+      onPhotoDeleted?.(photo.id);
+      showNotice('Photo deleted - restore it from review');
+    } catch (error) {
+      console.error('Failed to delete last photo:', error);
+      showNotice('The photo could not be deleted');
+    }
+  }, [onPhotoDeleted, showNotice]);
+
+  /**
+   * Keep taking photos while the shutter is held
+   */
+  const startBurst = useCallback(async () => {
+    if (burstRef.current) {
+      return;
+    }
 
-      // Upload to Firebase Storage
-      let firebaseUrl: string | undefined;
-      try {
-        const uploadResult = await firebaseStorage.uploadPhoto(newUri, inspectionId, photoId);
-        firebaseUrl = uploadResult.downloadUrl;
-        console.log('Photo uploaded to Firebase Storage:', firebaseUrl);
-
-        // Update Firestore with Firebase URL
-        await firestoreService.updatePhotoFirebaseUrl(photoId, firebaseUrl);
-      } catch (uploadError) {
-        console.error('Failed to upload photo to Firebase Storage:', uploadError);
-        // Continue without Firebase upload - local file is still saved
+    burstRef.current = true;
+    setIsBursting(true);
+
+    let taken = 0;
+    while (burstRef.current && taken < MAX_BURST_PHOTOS) {
+      if (!(await capturePhoto())) {
+        break;
       }
+      taken++;
+    }
+
+    burstRef.current = false;
+    setIsBursting(false);
+  }, [capturePhoto]);
+
+  /**
+   * Stop a burst when the shutter is released
+   */
+  const stopBurst = useCallback(() => {
+    burstRef.current = false;
+  }, []);
+
+  /**
+   * Record a video clip until the shutter is tapped again or the clip limit is reached
+   * Clips are recorded without sound, since the inspection recording already has
+   * the microphone, and cover the timeline from where recording started to where it stopped
+   */
+  const recordClip = useCallback(async () => {
+    if (!cameraRef.current || isCapturingRef.current) {
+      return;
+    }
 
-      const savedPhoto: Photo = {
-        id: photoId,
-        ...photoData,
-      };
+    isCapturingRef.current = true;
+    const startedAt = Date.now();
+    setClipStartedAt(startedAt);
+
+    try {
+      const audioTimestamp = await getAudioTimestamp(startedAt);
+      const video = await cameraRef.current.recordAsync({ maxDuration: MAX_CLIP_DURATION_MS / 1000 });
+      const endAudioTimestamp = await getAudioTimestamp(Date.now());
+      if (!video) {
+        throw new Error('Camera returned no video');
+      }
 
-      // Notify parent component
-      onPhotoTaken?.(savedPhoto);
+      // Keep the container the camera wrote (.mov on iOS, .mp4 on Android)
+      const extension = video.uri.split('.').pop() || 'mp4';
+      const newUri = `${FileSystem.documentDirectory}${getVideoClipFileName(inspectionId, startedAt, extension)}`;
+      await FileSystem.moveAsync({
+        from: video.uri,
+        to: newUri,
+      });
 
-      // Show success feedback
-      Alert.alert('Photo Captured', 'Photo saved successfully!', [
-        { text: 'OK' }
-      ]);
+      const clip = await inspectionRepository.addVideoClip(inspectionId, {
+        uri: newUri,
+        timestamp: startedAt,
+        audioTimestamp,
+        endAudioTimestamp: Math.max(endAudioTimestamp, audioTimestamp),
+        sessionId: recordingState.sessionId,
+        ...(currentArea ? { area: currentArea } : {}),
+      });
+      await uploadQueue.enqueueVideoUpload(inspectionId, clip.id, newUri);
 
+      onClipRecorded?.(clip);
+      showNotice(`Clip saved at ${formatPosition(audioTimestamp)}`);
     } catch (error) {
-      console.error('Failed to take photo:', error);
-      Alert.alert(
-        'Error',
-        'Failed to capture photo. Please try again.',
-        [{ text: 'OK' }]
-      );
+      console.error('Failed to record clip:', error);
+      showNotice('Failed to record clip - try again');
     } finally {
-      setIsTakingPhoto(false);
+      isCapturingRef.current = false;
+      setClipStartedAt(null);
     }
-  }, [cameraRef, isTakingPhoto, recordingState.duration, inspectionId, onPhotoTaken]);
+  }, [currentArea, getAudioTimestamp, inspectionId, onClipRecorded, recordingState.sessionId, showNotice]);
+
+  /**
+   * Stop the clip being recorded; recordClip saves it
+   */
+  const stopClip = useCallback(() => {
+    cameraRef.current?.stopRecording();
+  }, []);
+
+  /**
+   * Switch the shutter between photos and video clips
+   */
+  const toggleCaptureMode = useCallback(() => {
+    setCaptureMode(mode => mode === 'PHOTO' ? 'VIDEO' : 'PHOTO');
+  }, []);
+
+  /**
+   * Save a marker at the position on the timeline where it was requested
+   */
+  const saveMarker = useCallback(async (pressedAt: number, audioTimestamp: number, label?: string) => {
+    try {
+      const marker = await inspectionRepository.addMarker(inspectionId, {
+        timestamp: pressedAt,
+        audioTimestamp,
+        label,
+      });
+      onMarkerDropped?.(marker);
+      showNotice(`${marker.label ?? 'Marker'} at ${formatPosition(audioTimestamp)}`);
+    } catch (error) {
+      console.error('Failed to drop marker:', error);
+      showNotice('Failed to drop marker - try again');
+    }
+  }, [inspectionId, onMarkerDropped, showNotice]);
+
+  /**
+   * Drop an unlabelled marker with one tap
+   */
+  const dropMarker = useCallback(async () => {
+    const pressedAt = Date.now();
+    await saveMarker(pressedAt, await getAudioTimestamp(pressedAt));
+  }, [getAudioTimestamp, saveMarker]);
+
+  /**
+   * Drop a marker with a typed label - the position is taken when the button
+   * is pressed, not when the label is confirmed
+   * Android has no text prompt, so a long press there drops a plain marker
+   */
+  const dropLabelledMarker = useCallback(async () => {
+    const pressedAt = Date.now();
+    const audioTimestamp = await getAudioTimestamp(pressedAt);
+
+    if (Platform.OS !== 'ios') {
+      await saveMarker(pressedAt, audioTimestamp);
+      return;
+    }
+
+    Alert.prompt(
+      'Marker Label',
+      'e.g. "Start of north elevation"',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Drop Marker', onPress: label => saveMarker(pressedAt, audioTimestamp, label) },
+      ]
+    );
+  }, [getAudioTimestamp, saveMarker]);
+
+  /**
+   * Tag the next photos with an area, or stop tagging when it is tapped again
+   */
+  const selectArea = useCallback((area: string) => {
+    setCurrentArea(previous => previous === area ? null : area);
+  }, []);
+
+  /**
+   * Save an edited area list for the inspection
+   */
+  const saveAreas = useCallback((nextAreas: string[]) => {
+    setAreas(nextAreas);
+    inspectionRepository.updateInspectionAreas(inspectionId, nextAreas)
+      .catch(error => {
+        console.error('Failed to save areas:', error);
+        showNotice('Failed to save areas');
+      });
+  }, [inspectionId, showNotice]);
+
+  /**
+   * Add the typed area and start tagging photos with it
+   */
+  const handleAddArea = useCallback(() => {
+    const nextAreas = addArea(areas, newAreaName);
+    if (nextAreas !== areas) {
+      saveAreas(nextAreas);
+      setCurrentArea(nextAreas[nextAreas.length - 1]);
+    }
+    setNewAreaName('');
+  }, [areas, newAreaName, saveAreas]);
+
+  /**
+   * Take an area off the list - photos already tagged with it keep it
+   */
+  const handleRemoveArea = useCallback((area: string) => {
+    saveAreas(removeArea(areas, area));
+    setCurrentArea(previous => previous === area ? null : previous);
+  }, [areas, saveAreas]);
 
   // Request permissions on mount
   React.useEffect(() => {
     handlePermissionRequest();
   }, [handlePermissionRequest]);
 
+  // Load the inspection's areas and carry on in the area of the last photo
+  React.useEffect(() => {
+    let cancelled = false;
+    inspectionRepository.getInspection(inspectionId)
+      .then(inspection => {
+        if (!inspection || cancelled) {
+          return;
+        }
+        const lastPhoto = [...inspection.photos].sort((a, b) => b.timestamp - a.timestamp)[0];
+        setAreas(getInspectionAreas(inspection));
+        setCurrentArea(lastPhoto?.area ?? null);
+      })
+      .catch(error => console.error('Failed to load inspection areas:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inspectionId]);
+
+  // Track location and heading while the camera is open, so photos are geotagged
+  React.useEffect(() => {
+    locationService.start()
+      .then(status => {
+        if (status === 'DENIED') {
+          showNotice('Location is off - photos won\'t be geotagged');
+        }
+      });
+    return () => locationService.stop();
+  }, [showNotice]);
+
+  // Count up while a clip is recording
+  React.useEffect(() => {
+    if (clipStartedAt === null) {
+      setClipElapsed(0);
+      return;
+    }
+    const timer = setInterval(() => setClipElapsed(Date.now() - clipStartedAt), 500);
+    return () => clearInterval(timer);
+  }, [clipStartedAt]);
+
+  // Show how many captured photos are still being saved
+  React.useEffect(() => photoSaveQueue.subscribe(setPendingSaves), []);
+
+  // Offer a retake when the latest photo's quality check finds a problem
+  React.useEffect(() => photoQualityService.subscribe((photoId, quality) => {
+    if (photoId === lastPhotoIdRef.current) {
+      setQualityIssues(quality.issues);
+    }
+  }), []);
+
+  // Stop any burst and the notice timer when leaving the camera
+  // (a clip being recorded ends with the preview and is saved as usual)
+  React.useEffect(() => () => {
+    burstRef.current = false;
+    if (noticeTimer.current) {
+      clearTimeout(noticeTimer.current);
+    }
+  }, []);
+
   if (!permission) {
     return (
       <View style={styles.container}>
@@ -168,32 +504,192 @@ export const CameraScreen: React.FC<CameraScreenProps> = ({
         ref={cameraRef}
         style={styles.camera}
         facing="back"
+        mode={captureMode === 'VIDEO' ? 'video' : 'picture'}
+        mute
       />
       
       {/* Recording indicator - positioned absolutely */}
       {recordingState.isRecording && (
         <View style={styles.recordingIndicator}>
-          <View style={styles.recordingDot} />
+          <View style={[
+            styles.recordingDot,
+            (recordingState.isPaused || recordingState.isInterrupted) && styles.recordingDotPaused,
+          ]} />
           <Text style={styles.recordingText}>
-            Recording: {Math.floor(recordingState.duration / 1000)}s
+            {recordingState.recorderError
+              ? 'Not recording'
+              : recordingState.isInterrupted ? 'Interrupted' : recordingState.isPaused ? 'Paused' : 'Recording'}
+            : {Math.floor(recordingState.duration / 1000)}s
+          </Text>
+          <View style={styles.levelMeter}>
+            <View style={[
+              styles.levelMeterFill,
+              { width: `${getMeterFraction(recordingState.level) * 100}%` },
+              recordingState.levelWarning === 'CLIPPING' && styles.levelMeterFillClipping,
+            ]} />
+          </View>
+        </View>
+      )}
+
+      {/* Input level warning */}
+      {recordingState.isRecording && recordingState.levelWarning && (
+        <View style={styles.levelWarning}>
+          <Text style={styles.levelWarningText}>
+            {recordingState.levelWarning === 'CLIPPING'
+              ? 'Audio is too loud - shield the mic from wind or noise'
+              : 'No speech detected - check the mic isn\'t covered'}
+          </Text>
+        </View>
+      )}
+
+      {/* Area the next photos are tagged with */}
+      <ScrollView
+        horizontal
+        style={styles.areaBar}
+        contentContainerStyle={styles.areaBarContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        {areas.map(area => (
+          <TouchableOpacity
+            key={area}
+            style={[styles.areaChip, area === currentArea && styles.areaChipSelected]}
+            onPress={() => selectArea(area)}
+          >
+            <Text style={[styles.areaChipText, area === currentArea && styles.areaChipTextSelected]}>{area}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.areaChip} onPress={() => setIsEditingAreas(true)}>
+          <Text style={styles.areaChipText}>Edit areas</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Clip recording time */}
+      {clipStartedAt !== null && (
+        <View style={[styles.notice, styles.clipIndicator]}>
+          <Text style={styles.noticeText}>
+            Clip {formatPosition(clipElapsed)} / {formatPosition(MAX_CLIP_DURATION_MS)}
+          </Text>
+        </View>
+      )}
+
+      {/* Capture and marker confirmations */}
+      {notice && clipStartedAt === null && (
+        <View style={styles.notice}>
+          <Text style={styles.noticeText}>{notice}</Text>
+        </View>
+      )}
+
+      {/* Retake prompt when the last photo looks bad */}
+      {qualityIssues.length > 0 && !notice && clipStartedAt === null && (
+        <View style={[styles.notice, styles.qualityPrompt]}>
+          <Text style={styles.noticeText}>
+            {qualityIssues.map(issue => QUALITY_ISSUE_LABELS[issue]).join(' · ')} - retake?
           </Text>
+          <TouchableOpacity style={styles.qualityPromptButton} onPress={undoLastPhoto}>
+            <Text style={styles.noticeText}>Retake</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.qualityPromptButton} onPress={() => setQualityIssues([])}>
+            <Text style={styles.noticeText}>Keep</Text>
+          </TouchableOpacity>
         </View>
       )}
 
       {/* Camera controls - positioned absolutely */}
       <View style={styles.controls}>
+        <View style={styles.sideControl}>
+          {lastCaptureUri && (
+            <View>
+              <Image source={{ uri: lastCaptureUri }} style={styles.lastCapture} />
+              <View style={styles.captureCountBadge}>
+                <Text style={styles.captureCountText}>{captureCount}</Text>
+              </View>
+              {qualityIssues.length > 0 && (
+                <View style={styles.qualityBadge}>
+                  <Text style={styles.captureCountText}>!</Text>
+                </View>
+              )}
+              {pendingSaves > 0 && (
+                <Text style={styles.pendingSavesText}>Saving {pendingSaves}</Text>
+              )}
+              <TouchableOpacity style={styles.undoButton} onPress={undoLastPhoto}>
+                <Text style={styles.undoButtonText}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
         <TouchableOpacity
-          style={[styles.captureButton, isTakingPhoto && styles.captureButtonDisabled]}
-          onPress={takePicture}
-          disabled={isTakingPhoto}
+          style={[
+            styles.captureButton,
+            isTakingPhoto && !isBursting && styles.captureButtonDisabled,
+            isBursting && styles.captureButtonBursting,
+          ]}
+          onPress={captureMode === 'VIDEO' ? (clipStartedAt !== null ? stopClip : recordClip) : takePicture}
+          onLongPress={captureMode === 'PHOTO' ? startBurst : undefined}
+          onPressOut={stopBurst}
         >
-          {isTakingPhoto ? (
-            <ActivityIndicator size="large" color="#FFFFFF" />
-          ) : (
-            <View style={styles.captureButtonInner} />
-          )}
+          <View style={[
+            styles.captureButtonInner,
+            captureMode === 'VIDEO' && styles.captureButtonInnerVideo,
+            clipStartedAt !== null && styles.captureButtonInnerRecording,
+          ]} />
         </TouchableOpacity>
+        <View style={styles.sideControl}>
+          <TouchableOpacity
+            style={styles.markerButton}
+            onPress={dropMarker}
+            onLongPress={dropLabelledMarker}
+          >
+            <Text style={styles.markerButtonText}>Marker</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.markerButton, styles.modeButton]}
+            onPress={toggleCaptureMode}
+            disabled={clipStartedAt !== null}
+          >
+            <Text style={styles.markerButtonText}>{captureMode === 'PHOTO' ? 'Video' : 'Photo'}</Text>
+          </TouchableOpacity>
+        </View>
       </View>
+
+      {/* Area list editor */}
+      <Modal
+        visible={isEditingAreas}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsEditingAreas(false)}
+      >
+        <View style={styles.areaEditorBackdrop}>
+          <View style={styles.areaEditor}>
+            <Text style={styles.areaEditorTitle}>Areas</Text>
+            <ScrollView style={styles.areaEditorList}>
+              {areas.map(area => (
+                <View key={area} style={styles.areaEditorRow}>
+                  <Text style={styles.areaEditorName}>{area}</Text>
+                  <TouchableOpacity onPress={() => handleRemoveArea(area)}>
+                    <Text style={styles.areaEditorRemove}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+            <View style={styles.areaEditorRow}>
+              <TextInput
+                style={styles.areaEditorInput}
+                value={newAreaName}
+                onChangeText={setNewAreaName}
+                onSubmitEditing={handleAddArea}
+                placeholder="New area, e.g. Exterior North"
+                returnKeyType="done"
+              />
+              <TouchableOpacity onPress={handleAddArea}>
+                <Text style={styles.areaEditorAdd}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={styles.areaEditorDone} onPress={() => setIsEditingAreas(false)}>
+              <Text style={styles.areaEditorDoneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -225,11 +721,45 @@ const styles = StyleSheet.create({
     backgroundColor: '#FF3B30',
     marginRight: 8,
   },
+  recordingDotPaused: {
+    backgroundColor: '#FF9500',
+  },
   recordingText: {
     color: '#FFFFFF',
     fontSize: 14,
     fontWeight: '600',
   },
+  levelMeter: {
+    flex: 1,
+    height: 6,
+    marginLeft: 12,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    overflow: 'hidden',
+  },
+  levelMeterFill: {
+    height: '100%',
+    backgroundColor: '#34C759',
+  },
+  levelMeterFillClipping: {
+    backgroundColor: '#FF3B30',
+  },
+  levelWarning: {
+    position: 'absolute',
+    top: 95,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(255, 149, 0, 0.9)',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  levelWarningText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   controls: {
     position: 'absolute',
     bottom: 50,
@@ -239,6 +769,195 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  sideControl: {
+    width: 100,
+    alignItems: 'center',
+  },
+  markerButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  markerButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeButton: {
+    marginTop: 10,
+  },
+  lastCapture: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  captureCountBadge: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 4,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  qualityBadge: {
+    position: 'absolute',
+    top: -8,
+    left: -8,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#FF9500',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  captureCountText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  pendingSavesText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  undoButton: {
+    marginTop: 6,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  undoButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  areaBar: {
+    position: 'absolute',
+    bottom: 150,
+    left: 0,
+    right: 0,
+  },
+  areaBarContent: {
+    paddingHorizontal: 20,
+  },
+  areaChip: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  areaChipSelected: {
+    backgroundColor: '#FFFFFF',
+    borderColor: '#FFFFFF',
+  },
+  areaChipText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  areaChipTextSelected: {
+    color: '#000000',
+    fontWeight: '600',
+  },
+  areaEditorBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  areaEditor: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  areaEditorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  areaEditorList: {
+    maxHeight: 300,
+  },
+  areaEditorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E5E9',
+  },
+  areaEditorName: {
+    fontSize: 16,
+  },
+  areaEditorRemove: {
+    color: '#FF3B30',
+    fontSize: 14,
+  },
+  areaEditorInput: {
+    flex: 1,
+    fontSize: 16,
+    marginRight: 12,
+  },
+  areaEditorAdd: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  areaEditorDone: {
+    marginTop: 16,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  areaEditorDoneText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  notice: {
+    position: 'absolute',
+    bottom: 200,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  clipIndicator: {
+    backgroundColor: 'rgba(255, 59, 48, 0.85)',
+  },
+  noticeText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  qualityPrompt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 149, 0, 0.9)',
+  },
+  qualityPromptButton: {
+    marginLeft: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
   captureButton: {
     width: 80,
     height: 80,
@@ -252,12 +971,23 @@ const styles = StyleSheet.create({
   captureButtonDisabled: {
     opacity: 0.5,
   },
+  captureButtonBursting: {
+    borderColor: '#FF3B30',
+  },
   captureButtonInner: {
     width: 60,
     height: 60,
     borderRadius: 30,
     backgroundColor: '#FFFFFF',
   },
+  captureButtonInnerVideo: {
+    backgroundColor: '#FF3B30',
+  },
+  captureButtonInnerRecording: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+  },
   loadingText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -3,18 +3,31 @@ import {
   View,
   StyleSheet,
   Text,
-  FlatList,
+  SectionList,
   Image,
   TouchableOpacity,
   Alert,
   ActivityIndicator,
 } from 'react-native';
-import { Audio } from 'expo-av';
-import { firestoreService, FirestoreInspection, FirestorePhoto } from '../services/firestoreService';
+import { Audio, AVPlaybackStatus, ResizeMode, Video } from 'expo-av';
+import { inspectionRepository } from '../services/inspectionRepository';
+import { syncService } from '../services/syncService';
+import { firebaseStorage, UploadProgress } from '../services/firebaseStorage';
+import { AreaProposal, AudioChunk, Inspection, Marker, Photo, RecordingPause, SyncConflict, VideoClip } from '../types';
+import { findPauseAt, getTimelineSection } from '../utils/recordingTimeline';
+import { findChunkAt, getTimelineDuration } from '../utils/audioChunks';
+import { AreaSection, buildAreaSections, buildReportSections, getMarkerTitle, ReportSection } from '../utils/reportSections';
+import { getInspectionAreas } from '../utils/areas';
+import { getClipAudioPosition, getClipDuration, isAudioOutOfSync } from '../utils/videoClips';
+import { ImportCandidate, photoImportService } from '../services/photoImportService';
+import { placeOnTimeline } from '../utils/photoImport';
+import { photoTrashService, TRASH_RETENTION_MS } from '../services/photoTrashService';
+import { QUALITY_ISSUE_LABELS } from '../utils/photoQuality';
 
 interface ReviewScreenProps {
   inspectionId: string;
   onBack?: () => void;
+  onDeleteInspection?: (inspectionId: string) => void;
 }
 
 /**
@@ -24,11 +37,22 @@ interface ReviewScreenProps {
  */
 export const ReviewScreen: React.FC<ReviewScreenProps> = ({ 
   inspectionId, 
-  onBack 
+  onBack,
+  onDeleteInspection
 }) => {
-  const [inspection, setInspection] = useState<FirestoreInspection | null>(null);
-  const [photos, setPhotos] = useState<FirestorePhoto[]>([]);
+  const [inspection, setInspection] = useState<Inspection | null>(null);
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [trashedPhotos, setTrashedPhotos] = useState<Photo[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [uploads, setUploads] = useState<Record<string, UploadProgress>>({});
   const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<'TIMELINE' | 'AREA'>('TIMELINE');
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [correctingProposalId, setCorrectingProposalId] = useState<string | null>(null);
+  const [activeClip, setActiveClip] = useState<VideoClip | null>(null);
+  const [importCandidates, setImportCandidates] = useState<ImportCandidate[] | null>(null);
+  const [importClockOffset, setImportClockOffset] = useState(0);
+  const [importing, setImporting] = useState(false);
   
   // Audio playback state
   const [isPlaying, setIsPlaying] = useState(false);
@@ -36,17 +60,35 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
   const [audioPosition, setAudioPosition] = useState(0);
   const [audioLoading, setAudioLoading] = useState(false);
   const soundRef = useRef<Audio.Sound | null>(null);
+  const currentChunkRef = useRef<AudioChunk | null>(null);
   const positionUpdateInterval = useRef<NodeJS.Timeout | null>(null);
+  const isSyncingClipRef = useRef(false);
+
+  const markers = inspection?.markers ?? [];
+  const sessions = inspection?.audioSessions ?? [];
+  const clips = inspection?.clips ?? [];
+  const hasAreas = photos.some(photo => photo.area);
+  const flaggedPhotos = photos.filter(photo => (photo.quality?.issues.length ?? 0) > 0);
+  const listedPhotos = showFlaggedOnly && flaggedPhotos.length > 0 ? flaggedPhotos : photos;
+  const pendingProposals = (inspection?.areaProposals ?? []).filter(proposal => proposal.status === 'PROPOSED');
 
   /**
-   * Load inspection and photos data from Firestore
+   * Load inspection and photos data from the local database
    */
   const loadInspectionData = async () => {
     try {
       setLoading(true);
       console.log('ReviewScreen: Fetching inspection with ID:', inspectionId);
-      // Fetch from Firestore, not local DB!
-      const currentInspection = await firestoreService.getInspection(inspectionId);
+
+      // Merge in edits made on the server (e.g. back-office QA); offline is fine
+      try {
+        await syncService.pullInspection(inspectionId);
+      } catch (pullError) {
+        console.log('ReviewScreen: Could not pull server changes:', pullError);
+      }
+
+      // Read from the local database - it holds changes that haven't synced yet
+      const currentInspection = await inspectionRepository.getInspection(inspectionId);
       if (!currentInspection) {
         Alert.alert('Error', 'Inspection not found');
         setInspection(null);
@@ -55,9 +97,10 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
       }
       setInspection(currentInspection);
 
-      // Get photos for this inspection
-      const inspectionPhotos = await firestoreService.getPhotosForInspection(inspectionId);
-      setPhotos(inspectionPhotos);
+      // Photos come back with the inspection; deleted ones are kept apart until the trash expires
+      setPhotos(currentInspection.photos);
+      setTrashedPhotos(await photoTrashService.getTrash(inspectionId));
+      setConflicts(await inspectionRepository.getConflicts(inspectionId));
 
     } catch (error) {
       console.error('Failed to load inspection data:', error);
@@ -69,36 +112,229 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
     }
   };
 
+  /**
+   * Settle a sync conflict and reload
+   */
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE') => {
+    try {
+      await inspectionRepository.resolveConflict(conflict.id, keep);
+      await loadInspectionData();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      Alert.alert('Error', 'Failed to resolve conflict');
+    }
+  };
+
+  /**
+   * Confirm, correct or reject an area change inferred from the transcript and reload
+   */
+  const handleReviewAreaProposal = async (
+    proposal: AreaProposal,
+    status: 'CONFIRMED' | 'REJECTED',
+    area?: string
+  ) => {
+    try {
+      setCorrectingProposalId(null);
+      await inspectionRepository.reviewAreaProposal(inspectionId, proposal.id, status, area);
+      await loadInspectionData();
+    } catch (error) {
+      console.error('Failed to review area proposal:', error);
+      Alert.alert('Error', 'Failed to update the area');
+    }
+  };
+
+  /**
+   * Move a photo to the trash and reload
+   */
+  const handleDeletePhoto = async (photo: Photo) => {
+    try {
+      await photoTrashService.deletePhoto(photo.id);
+      await loadInspectionData();
+    } catch (error) {
+      console.error('Failed to delete photo:', error);
+      Alert.alert('Error', 'Failed to delete photo');
+    }
+  };
+
+  /**
+   * Confirm deleting the whole inspection, which can't be undone
+   */
+  const handleDeleteInspection = () => {
+    const photoCount = photos.length + trashedPhotos.length;
+    Alert.alert(
+      'Delete Inspection',
+      `This permanently deletes the inspection, its ${photoCount} ${photoCount === 1 ? 'photo' : 'photos'}, `
+        + 'audio and video clips from this phone and the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => onDeleteInspection?.(inspectionId) },
+      ]
+    );
+  };
+
+  /**
+   * Take a photo back out of the trash and reload
+   */
+  const handleRestorePhoto = async (photo: Photo) => {
+    try {
+      await photoTrashService.restorePhoto(inspectionId, photo.id);
+      await loadInspectionData();
+    } catch (error) {
+      console.error('Failed to restore photo:', error);
+      Alert.alert('Error', 'Failed to restore photo');
+    }
+  };
+
+  /**
+   * Pick photos from the library and show where they would land before importing
+   */
+  const handlePickImport = async () => {
+    try {
+      const candidates = await photoImportService.pickPhotos();
+      if (candidates.length === 0) {
+        return;
+      }
+      setImportClockOffset(await photoImportService.getClockOffset(inspectionId));
+      setImportCandidates(candidates);
+    } catch (error) {
+      console.error('Failed to pick photos:', error);
+      Alert.alert('Error', 'Failed to open the photo library');
+    }
+  };
+
+  /**
+   * Save the picked photos on the timeline with the chosen clock offset and reload
+   */
+  const handleImport = async () => {
+    if (!inspection || !importCandidates) {
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const { imported, skipped } = await photoImportService.importPhotos(inspection, importCandidates, importClockOffset);
+      setImportCandidates(null);
+      await loadInspectionData();
+      if (skipped > 0) {
+        Alert.alert(
+          'Some photos were not imported',
+          `${skipped} of ${imported.length + skipped} photos have no capture time, so they can't be placed on the recording.`
+        );
+      }
+    } catch (error) {
+      console.error('Failed to import photos:', error);
+      Alert.alert('Error', 'Failed to import photos');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Summarise where the picked photos land with the current clock offset
+   */
+  const describeImport = (candidates: ImportCandidate[]): string[] => {
+    if (!inspection) {
+      return [];
+    }
+
+    const placements = candidates
+      .filter(candidate => candidate.capturedAt !== null)
+      .map(candidate => placeOnTimeline(inspection, (candidate.capturedAt as number) + importClockOffset))
+      .sort((a, b) => a.audioTimestamp - b.audioTimestamp);
+    const outside = placements.filter(placement => placement.outside).length;
+    const undated = candidates.length - placements.length;
+
+    const lines: string[] = [];
+    if (placements.length > 0) {
+      lines.push(placements.length === 1
+        ? `Lands at ${formatTime(placements[0].audioTimestamp)}`
+        : `From ${formatTime(placements[0].audioTimestamp)} to ${formatTime(placements[placements.length - 1].audioTimestamp)}`);
+    }
+    if (outside > 0) {
+      lines.push(`${outside} taken outside the recording - adjust the camera clock if this is wrong`);
+    }
+    if (undated > 0) {
+      lines.push(`${undated} with no capture time will be skipped`);
+    }
+    return lines;
+  };
+
+  /**
+   * Format a clock offset as a signed m:ss, e.g. "-1:05"
+   */
+  const formatClockOffset = (offset: number): string =>
+    `${offset < 0 ? '-' : '+'}${formatTime(Math.abs(offset))}`;
+
+  /**
+   * Describe which record a conflict belongs to
+   */
+  const describeConflict = (conflict: SyncConflict): string => {
+    if (conflict.entityType === 'PHOTO') {
+      const photoIndex = photos.findIndex(photo => photo.id === conflict.entityId);
+      return `Photo ${photoIndex + 1} ${conflict.field}`;
+    }
+    return `Inspection ${conflict.field}`;
+  };
+
+  /**
+   * Audio files on the inspection timeline - one per chunk, or the single
+   * file of a recording made before chunking
+   */
+  const getPlaybackChunks = (): AudioChunk[] => {
+    if (inspection?.audioChunks && inspection.audioChunks.length > 0) {
+      return inspection.audioChunks;
+    }
+    if (inspection?.audioUri) {
+      return [{ id: inspection.id, index: 0, uri: inspection.audioUri, startOffset: 0, durationMs: audioDuration }];
+    }
+    return [];
+  };
+
+  /**
+   * Load one chunk for playback, starting at a position inside it
+   */
+  const loadChunk = async (chunk: AudioChunk, positionInChunk: number, shouldPlay: boolean) => {
+    // Unload any existing sound
+    if (soundRef.current) {
+      await soundRef.current.unloadAsync();
+      soundRef.current = null;
+    }
+
+    // Load the audio file
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: chunk.uri },
+      { shouldPlay, positionMillis: positionInChunk },
+      status => onPlaybackStatusUpdate(chunk, status)
+    );
+
+    soundRef.current = sound;
+    currentChunkRef.current = chunk;
+    return sound;
+  };
+
   /**
    * Load and prepare audio for playback
    */
   const loadAudio = async () => {
-    if (!inspection?.audioUri) {
+    const chunks = getPlaybackChunks();
+    if (chunks.length === 0) {
       Alert.alert('No Audio', 'No audio recording found for this inspection');
       return;
     }
 
     try {
       setAudioLoading(true);
-      
-      // Unload any existing sound
-      if (soundRef.current) {
-        await soundRef.current.unloadAsync();
-      }
 
-      // Load the audio file
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: inspection.audioUri },
-        { shouldPlay: false },
-        onPlaybackStatusUpdate
-      );
+      const sound = await loadChunk(chunks[0], 0, false);
 
-      soundRef.current = sound;
-      
-      // Get audio duration
-      const status = await sound.getStatusAsync();
-      if (status.isLoaded) {
-        setAudioDuration(status.durationMillis || 0);
+      // Get audio duration - chunked recordings know theirs up front
+      if (inspection?.audioChunks && inspection.audioChunks.length > 0) {
+        setAudioDuration(getTimelineDuration(inspection.audioChunks));
+      } else {
+        const status = await sound.getStatusAsync();
+        if (status.isLoaded) {
+          setAudioDuration(status.durationMillis || 0);
+        }
       }
 
     } catch (error) {
@@ -111,16 +347,33 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
 
   /**
    * Handle audio playback status updates
+   * Positions are reported on the inspection timeline, not within the chunk
    */
-  const onPlaybackStatusUpdate = (status: any) => {
+  const onPlaybackStatusUpdate = (chunk: AudioChunk, status: AVPlaybackStatus) => {
     if (status.isLoaded) {
       setIsPlaying(status.isPlaying);
-      setAudioPosition(status.positionMillis || 0);
+      setAudioPosition(chunk.startOffset + (status.positionMillis || 0));
       
-      // If audio finished playing, reset position
       if (status.didJustFinish) {
+        const nextChunk = getPlaybackChunks().find(candidate => candidate.index === chunk.index + 1);
+        if (nextChunk) {
+          // Carry on into the next chunk
+          loadChunk(nextChunk, 0, true).catch(error => {
+            console.error('Failed to load next audio chunk:', error);
+            setIsPlaying(false);
+          });
+          return;
+        }
+
+        // If audio finished playing, reset position
         setAudioPosition(0);
         setIsPlaying(false);
+        const firstChunk = getPlaybackChunks()[0];
+        if (firstChunk && firstChunk.index !== chunk.index) {
+          loadChunk(firstChunk, 0, false).catch(error => {
+            console.error('Failed to rewind audio:', error);
+          });
+        }
       }
     }
   };
@@ -147,15 +400,90 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
   };
 
   /**
-   * Seek to a specific position in the audio
+   * Seek to a position on the inspection timeline, switching chunks if needed
    */
-  const seekAudio = async (position: number) => {
-    if (!soundRef.current) return;
+  const seekAudio = async (position: number, shouldPlay: boolean = isPlaying) => {
+    const target = findChunkAt(getPlaybackChunks(), position);
+    if (!target) return;
 
     try {
-      await soundRef.current.setPositionAsync(position);
+      if (soundRef.current && currentChunkRef.current?.index === target.chunk.index) {
+        await soundRef.current.setPositionAsync(target.positionInChunk);
+        if (shouldPlay && !isPlaying) {
+          await soundRef.current.playAsync();
+        }
+      } else {
+        await loadChunk(target.chunk, target.positionInChunk, shouldPlay);
+      }
     } catch (error) {
       console.error('Failed to seek audio:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Play a clip with the inspection audio from the same stretch of the timeline
+   */
+  const handlePlayClip = async (clip: VideoClip) => {
+    setActiveClip(clip);
+    if (getPlaybackChunks().length === 0) {
+      return;
+    }
+
+    try {
+      if (!soundRef.current) {
+        await loadAudio();
+      }
+      await seekAudio(clip.audioTimestamp, true);
+    } catch (error) {
+      console.error('Failed to start audio for clip:', error);
+    }
+  };
+
+  /**
+   * Keep the inspection audio in step with a playing clip and stop it when the clip ends
+   * Clips are silent, so the audio follows the video rather than the other way round
+   */
+  const handleClipStatus = async (clip: VideoClip, status: AVPlaybackStatus) => {
+    if (!status.isLoaded || !soundRef.current || !currentChunkRef.current || isSyncingClipRef.current) {
+      return;
+    }
+
+    isSyncingClipRef.current = true;
+    try {
+      if (status.didJustFinish) {
+        await soundRef.current.pauseAsync();
+        return;
+      }
+      if (!status.isPlaying) {
+        return;
+      }
+
+      const audioStatus = await soundRef.current.getStatusAsync();
+      if (!audioStatus.isLoaded) {
+        return;
+      }
+      const audioAt = currentChunkRef.current.startOffset + audioStatus.positionMillis;
+      const clipAt = getClipAudioPosition(clip, status.positionMillis);
+      if (isAudioOutOfSync(audioAt, clipAt)) {
+        await seekAudio(clipAt, true);
+      }
+    } catch (error) {
+      console.error('Failed to keep audio in step with clip:', error);
+    } finally {
+      isSyncingClipRef.current = false;
+    }
+  };
+
+  /**
+   * Close the clip player and pause the audio that went with it
+   */
+  const closeClip = async () => {
+    setActiveClip(null);
+    try {
+      await soundRef.current?.pauseAsync();
+    } catch (error) {
+      console.error('Failed to pause audio after clip:', error);
     }
   };
 
@@ -191,24 +519,72 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  /**
+   * Describe where a photo was taken and which way the camera faced
+   */
+  const describePhotoPosition = (photo: Photo): string | null => {
+    const parts: string[] = [];
+    if (photo.location) {
+      const { latitude, longitude, accuracy } = photo.location;
+      parts.push(`${latitude.toFixed(5)}, ${longitude.toFixed(5)}${accuracy !== undefined ? ` ±${Math.round(accuracy)} m` : ''}`);
+    }
+    if (photo.heading) {
+      const compassPoints = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+      const point = compassPoints[Math.round(photo.heading.degrees / 45) % 8];
+      parts.push(`facing ${Math.round(photo.heading.degrees)}° ${point}${photo.heading.reference === 'MAGNETIC' ? ' (magnetic)' : ''}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+
+  /**
+   * Describe why recording stopped for a while
+   */
+  const describePause = (pause: RecordingPause): string => {
+    switch (pause.reason) {
+      case 'INTERRUPTION':
+        return 'interrupted';
+      case 'APP_KILLED':
+        return 'stopped when the app closed';
+      case 'SESSION_BREAK':
+        return 'stopped between sessions';
+      default:
+        return 'paused';
+    }
+  };
+
+  /**
+   * Format upload progress as a whole percentage
+   */
+  const formatUploadPercent = (upload: UploadProgress): number => {
+    if (upload.totalBytes === 0) return 0;
+    return Math.floor((upload.bytesUploaded / upload.totalBytes) * 100);
+  };
+
   /**
    * Check if a photo is currently playing based on audio position
    */
-  const isPhotoCurrentlyPlaying = (photo: FirestorePhoto): boolean => {
+  const isPhotoCurrentlyPlaying = (photo: Photo): boolean => {
     if (!isPlaying || !soundRef.current) return false;
     
     const photoTime = photo.audioTimestamp;
     const currentTime = audioPosition;
     const tolerance = 2000; // 2 seconds tolerance
-    
+
+    // Don't highlight across a pause - the audio on the other side was recorded later
+    const section = getTimelineSection(inspection?.audioPauses ?? [], photoTime);
+    if (currentTime < section.start || currentTime > section.end) return false;
+
     return Math.abs(currentTime - photoTime) <= tolerance;
   };
 
   /**
    * Render individual photo item
    */
-  const renderPhotoItem = ({ item }: { item: FirestorePhoto }) => {
+  const renderPhotoItem = ({ item }: { item: Photo }) => {
     const isCurrentlyPlaying = isPhotoCurrentlyPlaying(item);
+    const pauseAtPhoto = findPauseAt(inspection?.audioPauses ?? [], item.timestamp);
+    const session = sessions.find(candidate => candidate.id === item.sessionId);
+    const position = describePhotoPosition(item);
     
     return (
       <View style={[
@@ -216,17 +592,29 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
         isCurrentlyPlaying && styles.photoItemPlaying
       ]}>
         <Image
-          source={{ uri: item.photoUri }}
+          source={{ uri: item.thumbnailUri ?? item.uri }}
           style={styles.photoThumbnail}
           resizeMode="cover"
         />
         <View style={styles.photoInfo}>
           <Text style={styles.photoTimestamp}>
             {formatTimestamp(item.timestamp)}
+            {item.source === 'IMPORT' ? ' · Imported' : ''}
           </Text>
           <Text style={styles.audioTimestamp}>
+            {groupBy === 'TIMELINE' && item.area ? `${item.area} · ` : ''}
+            {sessions.length > 1 && session ? `Session ${session.index + 1} · ` : ''}
             Audio: {formatAudioTimestamp(item.audioTimestamp)}
+            {pauseAtPhoto ? ` (recording ${describePause(pauseAtPhoto)})` : ''}
           </Text>
+          {position && (
+            <Text style={styles.photoPosition}>{position}</Text>
+          )}
+          {item.quality && item.quality.issues.length > 0 && (
+            <Text style={styles.photoQualityWarning}>
+              ⚠️ {item.quality.issues.map(issue => QUALITY_ISSUE_LABELS[issue]).join(' · ')}
+            </Text>
+          )}
           {isCurrentlyPlaying && (
             <View style={styles.playingIndicator}>
               <Text style={styles.playingText}>▶️ Currently Playing</Text>
@@ -238,21 +626,67 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
             </Text>
           )}
         </View>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeletePhoto(item)}>
+          <Text style={styles.deleteButtonText}>Delete</Text>
+        </TouchableOpacity>
       </View>
     );
   };
 
+  /**
+   * Render the header of a section - the area, or the marker that starts it if any
+   */
+  const renderSectionHeader = ({ section }: { section: ReportSection | AreaSection }) => {
+    if ('area' in section) {
+      return (
+        <View style={styles.areaHeader}>
+          <Text style={styles.areaTitle}>{section.area ?? 'No area'}</Text>
+          <Text style={styles.areaCount}>
+            {section.photos.length} {section.photos.length === 1 ? 'photo' : 'photos'}
+          </Text>
+        </View>
+      );
+    }
+
+    const { marker } = section;
+    if (!marker) {
+      return null;
+    }
+
+    return (
+      <TouchableOpacity style={styles.markerHeader} onPress={() => handleMarkerPress(marker)}>
+        <Text style={styles.markerTitle}>{getMarkerTitle(marker)}</Text>
+        <Text style={styles.markerTimestamp}>Audio: {formatAudioTimestamp(marker.audioTimestamp)}</Text>
+        {marker.label && marker.caption && (
+          <Text style={styles.markerCaption} numberOfLines={2}>{marker.caption}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Jump the audio to a marker
+   */
+  const handleMarkerPress = async (marker: Marker) => {
+    if (!soundRef.current) {
+      return;
+    }
+
+    try {
+      await seekAudio(marker.audioTimestamp, true);
+    } catch (error) {
+      console.error('Failed to seek to marker:', error);
+    }
+  };
+
   /**
    * Handle photo press for full view and audio sync
    */
-  const handlePhotoPress = async (photo: FirestorePhoto) => {
+  const handlePhotoPress = async (photo: Photo) => {
     // If audio is available, seek to the photo's timestamp
-    if (inspection?.audioUri && soundRef.current) {
+    if (getPlaybackChunks().length > 0 && soundRef.current) {
       try {
-        await soundRef.current.setPositionAsync(photo.audioTimestamp);
-        if (!isPlaying) {
-          await soundRef.current.playAsync();
-        }
+        await seekAudio(photo.audioTimestamp, true);
         Alert.alert(
           'Photo Details',
           `Timestamp: ${formatTimestamp(photo.timestamp)}\nAudio: ${formatAudioTimestamp(photo.audioTimestamp)}\n\nAudio playback started at this timestamp!`,
@@ -280,6 +714,24 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
     loadInspectionData();
   }, [inspectionId]);
 
+  // Track uploads for this inspection; finished ones drop off the list
+  useEffect(() => {
+    return firebaseStorage.subscribeToProgress(progress => {
+      if (progress.inspectionId !== inspectionId) {
+        return;
+      }
+      setUploads(current => {
+        const next = { ...current };
+        if (progress.bytesUploaded >= progress.totalBytes) {
+          delete next[progress.filePath];
+        } else {
+          next[progress.filePath] = progress;
+        }
+        return next;
+      });
+    });
+  }, [inspectionId]);
+
   // Cleanup audio on unmount
   useEffect(() => {
     return () => {
@@ -320,7 +772,9 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Inspection Review</Text>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity style={styles.importButton} onPress={handlePickImport} disabled={importing}>
+          <Text style={styles.importButtonText}>Import</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Inspection Details */}
@@ -333,11 +787,148 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
         </Text>
         <Text style={styles.photoCount}>
           Photos: {photos.length}
+          {markers.length > 0 ? ` · Markers: ${markers.length}` : ''}
         </Text>
+        {onDeleteInspection && (
+          <TouchableOpacity style={styles.deleteInspectionButton} onPress={handleDeleteInspection}>
+            <Text style={styles.deleteInspectionButtonText}>Delete Inspection</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
+      {/* Upload Progress */}
+      {Object.keys(uploads).length > 0 && (
+        <View style={styles.uploadsContainer}>
+          {Object.values(uploads).map(upload => (
+            <View key={upload.filePath} style={styles.uploadItem}>
+              <Text style={styles.uploadLabel}>
+                Uploading {upload.filePath.split('/').pop()}: {formatUploadPercent(upload)}%
+              </Text>
+              <View style={styles.uploadBar}>
+                <View style={[styles.uploadBarFill, { width: `${formatUploadPercent(upload)}%` }]} />
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Sync Conflicts */}
+      {conflicts.length > 0 && (
+        <View style={styles.conflictsContainer}>
+          <Text style={styles.conflictsTitle}>
+            Needs review: {conflicts.length} conflicting {conflicts.length === 1 ? 'edit' : 'edits'}
+          </Text>
+          {conflicts.map(conflict => (
+            <View key={conflict.id} style={styles.conflictItem}>
+              <Text style={styles.conflictLabel}>{describeConflict(conflict)}</Text>
+              <Text style={styles.conflictValue}>This device: {conflict.localValue || '(empty)'}</Text>
+              <Text style={styles.conflictValue}>Server: {conflict.remoteValue || '(empty)'}</Text>
+              <View style={styles.conflictActions}>
+                <TouchableOpacity
+                  style={styles.conflictButton}
+                  onPress={() => handleResolveConflict(conflict, 'LOCAL')}
+                >
+                  <Text style={styles.conflictButtonText}>Keep mine</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.conflictButton}
+                  onPress={() => handleResolveConflict(conflict, 'REMOTE')}
+                >
+                  <Text style={styles.conflictButtonText}>Use server</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Photos picked for import, placed by their capture time */}
+      {importCandidates && (
+        <View style={styles.importContainer}>
+          <Text style={styles.importTitle}>
+            Import {importCandidates.length} {importCandidates.length === 1 ? 'photo' : 'photos'}
+          </Text>
+          {describeImport(importCandidates).map(line => (
+            <Text key={line} style={styles.importDetail}>{line}</Text>
+          ))}
+          <Text style={styles.importOffset}>Camera clock offset: {formatClockOffset(importClockOffset)}</Text>
+          <View style={styles.proposalAreas}>
+            {[-60000, -5000, 5000, 60000].map(step => (
+              <TouchableOpacity
+                key={step}
+                style={styles.proposalButton}
+                onPress={() => setImportClockOffset(offset => offset + step)}
+              >
+                <Text style={styles.proposalButtonText}>{step < 0 ? '−' : '+'}{Math.abs(step) >= 60000 ? '1 min' : '5 s'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.proposalAreas}>
+            <TouchableOpacity style={styles.proposalButton} onPress={handleImport} disabled={importing}>
+              {importing ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <Text style={styles.proposalButtonText}>Import</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.proposalButton} onPress={() => setImportCandidates(null)} disabled={importing}>
+              <Text style={styles.proposalButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Area changes heard in the transcript */}
+      {pendingProposals.length > 0 && (
+        <View style={styles.proposalsContainer}>
+          <Text style={styles.proposalsTitle}>
+            Suggested areas: {pendingProposals.length} spoken {pendingProposals.length === 1 ? 'change' : 'changes'}
+          </Text>
+          {pendingProposals.map(proposal => (
+            <View key={proposal.id} style={styles.proposalItem}>
+              <Text style={styles.proposalLabel}>{formatTime(proposal.audioTimestamp)} · {proposal.area}</Text>
+              <Text style={styles.proposalPhrase}>"{proposal.phrase}"</Text>
+              {correctingProposalId === proposal.id ? (
+                <View style={styles.proposalAreas}>
+                  {getInspectionAreas(inspection).map(area => (
+                    <TouchableOpacity
+                      key={area}
+                      style={styles.proposalButton}
+                      onPress={() => handleReviewAreaProposal(proposal, 'CONFIRMED', area)}
+                    >
+                      <Text style={styles.proposalButtonText}>{area}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : (
+                <View style={styles.proposalAreas}>
+                  <TouchableOpacity
+                    style={styles.proposalButton}
+                    onPress={() => handleReviewAreaProposal(proposal, 'CONFIRMED')}
+                  >
+                    <Text style={styles.proposalButtonText}>Confirm</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.proposalButton}
+                    onPress={() => setCorrectingProposalId(proposal.id)}
+                  >
+                    <Text style={styles.proposalButtonText}>Change</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.proposalButton}
+                    onPress={() => handleReviewAreaProposal(proposal, 'REJECTED')}
+                  >
+                    <Text style={styles.proposalButtonText}>Not a new area</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Audio Player */}
-      {inspection.audioUri && (
+      {getPlaybackChunks().length > 0 && (
         <View style={styles.audioPlayer}>
           <Text style={styles.audioTitle}>Audio Recording</Text>
           
@@ -367,16 +958,141 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
                     { width: `${audioDuration > 0 ? (audioPosition / audioDuration) * 100 : 0}%` }
                   ]} 
                 />
+                {audioDuration > 0 && (inspection.audioPauses ?? []).map(pause => (
+                  <View
+                    key={pause.pausedAt}
+                    style={[styles.pauseMarker, { left: `${(pause.audioOffset / audioDuration) * 100}%` }]}
+                  />
+                ))}
+                {audioDuration > 0 && clips.map(clip => (
+                  <View
+                    key={clip.id}
+                    style={[styles.timelineClip, {
+                      left: `${(clip.audioTimestamp / audioDuration) * 100}%`,
+                      width: `${(getClipDuration(clip) / audioDuration) * 100}%`,
+                    }]}
+                  />
+                ))}
+                {audioDuration > 0 && markers.map(marker => (
+                  <View
+                    key={marker.id}
+                    style={[styles.timelineMarker, { left: `${(marker.audioTimestamp / audioDuration) * 100}%` }]}
+                  />
+                ))}
               </View>
             </View>
           </View>
+          {sessions.length > 1 && (
+            <Text style={styles.sessionSummary}>
+              {sessions.map(session =>
+                `Session ${session.index + 1} started ${formatTimestamp(session.startedAt)} at ${formatTime(session.startOffset)}`
+              ).join(' · ')}
+            </Text>
+          )}
+          {(inspection.audioPauses ?? []).length > 0 && (
+            <Text style={styles.pauseSummary}>
+              {(inspection.audioPauses ?? []).map(pause =>
+                `${describePause(pause).replace(/^./, letter => letter.toUpperCase())} at ${formatTime(pause.audioOffset)}` +
+                (pause.resumedAt ? ` for ${formatTime(pause.resumedAt - pause.pausedAt)}` : '')
+              ).join(' · ')}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {/* Video clips, played with the inspection audio */}
+      {clips.length > 0 && (
+        <View style={styles.clipsContainer}>
+          <Text style={styles.clipsTitle}>Video Clips</Text>
+          {activeClip && (
+            <View style={styles.clipPlayer}>
+              <Video
+                key={activeClip.id}
+                source={{ uri: activeClip.uri }}
+                style={styles.clipVideo}
+                resizeMode={ResizeMode.CONTAIN}
+                shouldPlay
+                isMuted
+                progressUpdateIntervalMillis={250}
+                onPlaybackStatusUpdate={status => handleClipStatus(activeClip, status)}
+              />
+              <TouchableOpacity style={styles.clipClose} onPress={closeClip}>
+                <Text style={styles.clipCloseText}>Close</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {clips.map(clip => (
+            <TouchableOpacity
+              key={clip.id}
+              style={[styles.clipItem, activeClip?.id === clip.id && styles.clipItemActive]}
+              onPress={() => handlePlayClip(clip)}
+            >
+              <Text style={styles.clipItemText}>
+                ▶ {formatTime(clip.audioTimestamp)}–{formatTime(clip.endAudioTimestamp)}
+                {clip.area ? ` · ${clip.area}` : ''}
+              </Text>
+              <Text style={styles.clipItemMeta}>
+                {Math.round(getClipDuration(clip) / 1000)}s{clip.firebaseUrl ? '' : ' · waiting to upload'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Deleted photos that can still be restored */}
+      {trashedPhotos.length > 0 && (
+        <View style={styles.trashContainer}>
+          <Text style={styles.trashTitle}>
+            Recently deleted: {trashedPhotos.length} {trashedPhotos.length === 1 ? 'photo' : 'photos'}
+          </Text>
+          <Text style={styles.trashNote}>
+            Deleted photos are removed for good after {Math.round(TRASH_RETENTION_MS / (24 * 60 * 60 * 1000))} days
+          </Text>
+          {trashedPhotos.map(photo => (
+            <View key={photo.id} style={styles.trashItem}>
+              <Image source={{ uri: photo.thumbnailUri ?? photo.uri }} style={styles.trashThumbnail} />
+              <Text style={styles.trashLabel}>
+                {formatTime(photo.audioTimestamp)}{photo.area ? ` · ${photo.area}` : ''}
+              </Text>
+              <TouchableOpacity style={styles.proposalButton} onPress={() => handleRestorePhoto(photo)}>
+                <Text style={styles.proposalButtonText}>Restore</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
         </View>
       )}
 
       {/* Photos List */}
       <View style={styles.photosContainer}>
-        <Text style={styles.photosTitle}>Captured Photos</Text>
-        {photos.length === 0 ? (
+        <View style={styles.photosHeader}>
+          <Text style={styles.photosTitle}>Captured Photos</Text>
+          {flaggedPhotos.length > 0 && (
+            <TouchableOpacity
+              style={[styles.flaggedFilter, showFlaggedOnly && styles.flaggedFilterSelected]}
+              onPress={() => setShowFlaggedOnly(selected => !selected)}
+            >
+              <Text style={[styles.flaggedFilterText, showFlaggedOnly && styles.flaggedFilterTextSelected]}>
+                Needs attention: {flaggedPhotos.length}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {hasAreas && (
+            <View style={styles.groupToggle}>
+              {(['TIMELINE', 'AREA'] as const).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.groupOption, groupBy === option && styles.groupOptionSelected]}
+                  onPress={() => setGroupBy(option)}
+                >
+                  <Text style={[styles.groupOptionText, groupBy === option && styles.groupOptionTextSelected]}>
+                    {option === 'TIMELINE' ? 'Timeline' : 'By area'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+        {photos.length === 0 && markers.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateText}>No photos captured yet</Text>
             <Text style={styles.emptyStateSubtext}>
@@ -384,8 +1100,13 @@ export const ReviewScreen: React.FC<ReviewScreenProps> = ({
             </Text>
           </View>
         ) : (
-          <FlatList
-            data={photos}
+          <SectionList
+            sections={(groupBy === 'AREA' && hasAreas
+              ? buildAreaSections(listedPhotos, getInspectionAreas(inspection ?? {}))
+              : buildReportSections(listedPhotos, markers)
+            ).map(section => ({ ...section, data: section.photos }))}
+            renderSectionHeader={renderSectionHeader}
+            stickySectionHeadersEnabled={false}
             renderItem={({ item }) => (
               <TouchableOpacity
                 style={styles.photoItemContainer}
@@ -434,8 +1155,14 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1C1C1E',
   },
-  headerSpacer: {
-    width: 60,
+  importButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  importButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
   },
   inspectionDetails: {
     backgroundColor: '#FFFFFF',
@@ -468,6 +1195,199 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#007AFF',
   },
+  deleteInspectionButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  deleteInspectionButtonText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  uploadsContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    marginBottom: 10,
+  },
+  uploadItem: {
+    marginBottom: 8,
+  },
+  uploadLabel: {
+    fontSize: 14,
+    color: '#6C6C70',
+    marginBottom: 4,
+  },
+  uploadBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E5EA',
+    overflow: 'hidden',
+  },
+  uploadBarFill: {
+    height: 4,
+    backgroundColor: '#007AFF',
+  },
+  conflictsContainer: {
+    backgroundColor: '#FFF4E5',
+    padding: 20,
+    marginBottom: 10,
+  },
+  conflictsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#C25E00',
+    marginBottom: 10,
+  },
+  conflictItem: {
+    marginBottom: 12,
+  },
+  conflictLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  conflictValue: {
+    fontSize: 14,
+    color: '#6C6C70',
+    marginBottom: 2,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  conflictButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#C25E00',
+  },
+  conflictButtonText: {
+    color: '#C25E00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  importContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    marginBottom: 10,
+  },
+  importTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 6,
+  },
+  importDetail: {
+    fontSize: 14,
+    color: '#6C6C70',
+    marginBottom: 2,
+  },
+  importOffset: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginTop: 8,
+  },
+  trashContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    marginBottom: 10,
+  },
+  trashTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  trashNote: {
+    fontSize: 12,
+    color: '#6C6C70',
+    marginTop: 2,
+    marginBottom: 10,
+  },
+  trashItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  trashThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  trashLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  deleteButton: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  deleteButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  proposalsContainer: {
+    backgroundColor: '#EAF3FF',
+    padding: 20,
+    marginBottom: 10,
+  },
+  proposalsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0059B3',
+    marginBottom: 10,
+  },
+  proposalItem: {
+    marginBottom: 12,
+  },
+  proposalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  proposalPhrase: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#6C6C70',
+  },
+  proposalAreas: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  proposalButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 10,
+    marginBottom: 6,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  proposalButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   audioPlayer: {
     backgroundColor: '#FFFFFF',
     padding: 20,
@@ -513,19 +1433,183 @@ const styles = StyleSheet.create({
     height: '100%',
     backgroundColor: '#007AFF',
   },
+  pauseMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#FF9500',
+  },
+  timelineMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#AF52DE',
+  },
+  timelineClip: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    minWidth: 2,
+    backgroundColor: 'rgba(255, 59, 48, 0.6)',
+  },
+  sessionSummary: {
+    fontSize: 12,
+    color: '#6C6C70',
+    marginTop: 10,
+  },
+  pauseSummary: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 10,
+  },
+  clipsContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 20,
+    marginBottom: 10,
+  },
+  clipsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 10,
+  },
+  clipPlayer: {
+    marginBottom: 10,
+  },
+  clipVideo: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+    backgroundColor: '#000000',
+    borderRadius: 8,
+  },
+  clipClose: {
+    alignSelf: 'flex-end',
+    paddingVertical: 6,
+  },
+  clipCloseText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clipItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  clipItemActive: {
+    backgroundColor: '#F2F2F7',
+  },
+  clipItemText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  clipItemMeta: {
+    fontSize: 12,
+    color: '#6C6C70',
+  },
   photosContainer: {
     flex: 1,
     paddingHorizontal: 20,
   },
+  photosHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
   photosTitle: {
     fontSize: 18,
     fontWeight: '600',
     color: '#1C1C1E',
     marginBottom: 15,
   },
+  flaggedFilter: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#FF9500',
+    borderRadius: 8,
+  },
+  flaggedFilterSelected: {
+    backgroundColor: '#FF9500',
+  },
+  flaggedFilterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9500',
+  },
+  flaggedFilterTextSelected: {
+    color: '#FFFFFF',
+  },
+  groupToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  groupOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  groupOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  groupOptionText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  groupOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  areaHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    borderLeftWidth: 3,
+    borderLeftColor: '#007AFF',
+    paddingLeft: 10,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  areaTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  areaCount: {
+    fontSize: 13,
+    color: '#6C6C70',
+  },
   photosList: {
     paddingBottom: 20,
   },
+  markerHeader: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#AF52DE',
+    paddingLeft: 10,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  markerTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  markerTimestamp: {
+    fontSize: 13,
+    color: '#AF52DE',
+    marginTop: 2,
+  },
+  markerCaption: {
+    fontSize: 14,
+    color: '#6C6C70',
+    marginTop: 4,
+    lineHeight: 20,
+  },
   photoItemContainer: {
     marginBottom: 15,
   },
@@ -560,6 +1644,17 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     marginBottom: 8,
   },
+  photoPosition: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  photoQualityWarning: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#C93400',
+    marginBottom: 8,
+  },
   photoCaption: {
     fontSize: 14,
     color: '#6C6C70',
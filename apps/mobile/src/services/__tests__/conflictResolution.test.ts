@@ -0,0 +1,103 @@
+import {
+  resolveField,
+  createFieldVersion,
+  parseFieldVersions,
+  CLOCK_SKEW_TOLERANCE_MS,
+} from '../conflictResolution';
+
+const NOW = 1705312800000;
+
+describe('conflictResolution', () => {
+  describe('resolveField', () => {
+    it('should report equal values regardless of versions', () => {
+      expect(resolveField(
+        { value: 'Roof', version: { updatedAt: NOW, source: 'HUMAN' } },
+        { value: 'Roof', version: { updatedAt: NOW - 5000, source: 'AI' } }
+      )).toBe('EQUAL');
+      expect(resolveField({ value: undefined }, { value: null })).toBe('EQUAL');
+    });
+
+    it('should let a human caption beat a newer AI caption', () => {
+      expect(resolveField(
+        { value: 'Cracked flashing at chimney', version: { updatedAt: NOW, source: 'HUMAN' } },
+        { value: 'Roof overview', version: { updatedAt: NOW + 3600000, source: 'AI' } }
+      )).toBe('LOCAL');
+      expect(resolveField(
+        { value: 'Roof overview', version: { updatedAt: NOW + 3600000, source: 'AI' } },
+        { value: 'Cracked flashing at chimney', version: { updatedAt: NOW, source: 'HUMAN' } }
+      )).toBe('REMOTE');
+    });
+
+    it('should treat unversioned values as old AI output', () => {
+      expect(resolveField(
+        { value: 'Legacy caption' },
+        { value: 'QA caption', version: { updatedAt: NOW, source: 'HUMAN' } }
+      )).toBe('REMOTE');
+      expect(resolveField(
+        { value: 'Regenerated', version: { updatedAt: NOW, source: 'AI' } },
+        { value: 'Legacy caption' }
+      )).toBe('LOCAL');
+    });
+
+    it('should let the newer AI caption win', () => {
+      expect(resolveField(
+        { value: 'Older', version: { updatedAt: NOW, source: 'AI' } },
+        { value: 'Newer', version: { updatedAt: NOW + 1, source: 'AI' } }
+      )).toBe('REMOTE');
+    });
+
+    it('should let the newer human edit win when they are clearly ordered', () => {
+      expect(resolveField(
+        { value: 'Device edit', version: { updatedAt: NOW, source: 'HUMAN' } },
+        { value: 'QA edit', version: { updatedAt: NOW + CLOCK_SKEW_TOLERANCE_MS + 1, source: 'HUMAN' } }
+      )).toBe('REMOTE');
+      expect(resolveField(
+        { value: 'Device edit', version: { updatedAt: NOW + CLOCK_SKEW_TOLERANCE_MS + 1, source: 'HUMAN' } },
+        { value: 'QA edit', version: { updatedAt: NOW, source: 'HUMAN' } }
+      )).toBe('LOCAL');
+    });
+
+    it('should report a conflict for concurrent human edits too close to order', () => {
+      expect(resolveField(
+        { value: 'Device edit', version: { updatedAt: NOW, source: 'HUMAN' } },
+        { value: 'QA edit', version: { updatedAt: NOW + 1000, source: 'HUMAN' } }
+      )).toBe('CONFLICT');
+    });
+
+    it('should let an edit made on top of the other side win even if clocks disagree', () => {
+      expect(resolveField(
+        { value: 'Kept after review', version: { updatedAt: NOW, source: 'HUMAN', basedOn: NOW + 1000 } },
+        { value: 'QA edit', version: { updatedAt: NOW + 1000, source: 'HUMAN' } }
+      )).toBe('LOCAL');
+      expect(resolveField(
+        { value: 'Device edit', version: { updatedAt: NOW + 1000, source: 'HUMAN' } },
+        { value: 'QA correction', version: { updatedAt: NOW, source: 'HUMAN', basedOn: NOW + 1000 } }
+      )).toBe('REMOTE');
+    });
+  });
+
+  describe('createFieldVersion', () => {
+    it('should stamp the current time and omit basedOn when unknown', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+      expect(createFieldVersion('HUMAN')).toEqual({ updatedAt: NOW, source: 'HUMAN' });
+      expect(createFieldVersion('AI', { updatedAt: NOW - 10, source: 'HUMAN' })).toEqual({
+        updatedAt: NOW,
+        source: 'AI',
+        basedOn: NOW - 10,
+      });
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('parseFieldVersions', () => {
+    it('should decode stored versions and tolerate bad data', () => {
+      expect(parseFieldVersions('{"caption":{"updatedAt":1,"source":"AI"}}')).toEqual({
+        caption: { updatedAt: 1, source: 'AI' },
+      });
+      expect(parseFieldVersions(undefined)).toEqual({});
+      expect(parseFieldVersions('not json')).toEqual({});
+    });
+  });
+});
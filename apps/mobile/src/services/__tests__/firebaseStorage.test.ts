@@ -0,0 +1,231 @@
+import * as FileSystem from 'expo-file-system';
+import { getDownloadURL } from 'firebase/storage';
+import { inspectionDB } from '../../database';
+import { FirebaseStorageService } from '../firebaseStorage';
+
+jest.mock('../../config/firebase', () => ({
+  storage: { app: { options: { storageBucket: 'test-bucket' } } },
+}));
+
+jest.mock('firebase/storage', () => ({
+  ref: jest.fn((_storage, path) => ({ fullPath: path })),
+  uploadBytes: jest.fn(),
+  getDownloadURL: jest.fn(),
+  deleteObject: jest.fn(),
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file://test-dir/',
+  EncodingType: { Base64: 'base64' },
+  getInfoAsync: jest.fn(),
+  readAsStringAsync: jest.fn(),
+}));
+
+jest.mock('../../database', () => ({
+  inspectionDB: {
+    getUploadSession: jest.fn(),
+    saveUploadSession: jest.fn(),
+    updateUploadSessionProgress: jest.fn(),
+    deleteUploadSession: jest.fn(),
+  },
+}));
+
+const mockDB = inspectionDB as jest.Mocked<typeof inspectionDB>;
+const mockFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+const mockFetch = jest.fn();
+
+const MiB = 1024 * 1024;
+const FILE_PATH = 'inspection-files/insp-1/photo_p1.jpg';
+
+const response = (headers: Record<string, string> = {}, ok = true, status = ok ? 200 : 404) => ({
+  ok,
+  status,
+  statusText: ok ? 'OK' : 'Not Found',
+  headers: { get: (name: string) => headers[name] ?? null },
+});
+
+describe('FirebaseStorageService', () => {
+  let service: FirebaseStorageService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as unknown as typeof fetch;
+    service = new FirebaseStorageService();
+
+    mockFileSystem.readAsStringAsync.mockImplementation(async (_uri, options) =>
+      Buffer.alloc(options?.length ?? 0).toString('base64')
+    );
+    (getDownloadURL as jest.Mock).mockResolvedValue('https://download/photo_p1.jpg');
+  });
+
+  it('should upload a new file in chunks and report progress', async () => {
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 2.5 * MiB } as any);
+    mockDB.getUploadSession.mockResolvedValue(null);
+    mockFetch
+      .mockResolvedValueOnce(response({ 'X-Goog-Upload-URL': 'https://upload/session-1' }))
+      .mockResolvedValue(response());
+    const onProgress = jest.fn();
+
+    const result = await service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1', onProgress);
+
+    expect(result).toEqual({ downloadUrl: 'https://download/photo_p1.jpg', filePath: FILE_PATH });
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `https://firebasestorage.googleapis.com/v0/b/test-bucket/o?name=${encodeURIComponent(FILE_PATH)}`
+    );
+    expect(mockDB.saveUploadSession).toHaveBeenCalledWith(expect.objectContaining({
+      storage_path: FILE_PATH,
+      upload_url: 'https://upload/session-1',
+      content_type: 'image/jpeg',
+      total_bytes: 2.5 * MiB,
+    }));
+
+    const chunkCommands = mockFetch.mock.calls.slice(1).map(([, init]) => init.headers);
+    expect(chunkCommands).toEqual([
+      { 'X-Goog-Upload-Command': 'upload', 'X-Goog-Upload-Offset': '0' },
+      { 'X-Goog-Upload-Command': 'upload', 'X-Goog-Upload-Offset': String(MiB) },
+      { 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': String(2 * MiB) },
+    ]);
+    expect(onProgress.mock.calls.map(([progress]) => progress.bytesUploaded)).toEqual([
+      0, MiB, 2 * MiB, 2.5 * MiB,
+    ]);
+    expect(mockDB.deleteUploadSession).toHaveBeenCalledWith(FILE_PATH);
+  });
+
+  it('should resume a persisted session from the offset the server confirms', async () => {
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 2 * MiB } as any);
+    mockDB.getUploadSession.mockResolvedValue({
+      storage_path: FILE_PATH,
+      inspection_id: 'insp-1',
+      local_uri: 'file://photo.jpg',
+      upload_url: 'https://upload/session-1',
+      content_type: 'image/jpeg',
+      total_bytes: 2 * MiB,
+      bytes_uploaded: MiB,
+      created_at: 1,
+      updated_at: 2,
+    });
+    mockFetch
+      .mockResolvedValueOnce(response({
+        'X-Goog-Upload-Status': 'active',
+        'X-Goog-Upload-Size-Received': String(MiB),
+      }))
+      .mockResolvedValue(response());
+    const listener = jest.fn();
+    service.subscribeToProgress(listener);
+
+    await service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1');
+
+    expect(mockDB.saveUploadSession).not.toHaveBeenCalled();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({ 'X-Goog-Upload-Command': 'query' });
+    expect(mockFetch.mock.calls[1][1].headers).toEqual({
+      'X-Goog-Upload-Command': 'upload, finalize',
+      'X-Goog-Upload-Offset': String(MiB),
+    });
+    expect(mockFileSystem.readAsStringAsync).toHaveBeenCalledWith('file://photo.jpg', {
+      encoding: 'base64',
+      position: MiB,
+      length: MiB,
+    });
+    expect(listener).toHaveBeenLastCalledWith({
+      filePath: FILE_PATH,
+      inspectionId: 'insp-1',
+      bytesUploaded: 2 * MiB,
+      totalBytes: 2 * MiB,
+    });
+  });
+
+  it('should ask the server where to resume even when no progress was saved', async () => {
+    // The app was killed after the server took the first chunk but before its progress was saved
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 2 * MiB } as any);
+    mockDB.getUploadSession.mockResolvedValue({
+      storage_path: FILE_PATH,
+      inspection_id: 'insp-1',
+      local_uri: 'file://photo.jpg',
+      upload_url: 'https://upload/session-1',
+      content_type: 'image/jpeg',
+      total_bytes: 2 * MiB,
+      bytes_uploaded: 0,
+      created_at: 1,
+      updated_at: 2,
+    });
+    mockFetch
+      .mockResolvedValueOnce(response({
+        'X-Goog-Upload-Status': 'active',
+        'X-Goog-Upload-Size-Received': String(MiB),
+      }))
+      .mockResolvedValue(response());
+
+    await service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1');
+
+    expect(mockFetch.mock.calls.map(([, init]) => init.headers)).toEqual([
+      { 'X-Goog-Upload-Command': 'query' },
+      { 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': String(MiB) },
+    ]);
+  });
+
+  it('should start a new session when the persisted one has expired', async () => {
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 100 } as any);
+    mockDB.getUploadSession
+      .mockResolvedValueOnce({
+        storage_path: FILE_PATH,
+        inspection_id: 'insp-1',
+        local_uri: 'file://photo.jpg',
+        upload_url: 'https://upload/expired',
+        content_type: 'image/jpeg',
+        total_bytes: 100,
+        bytes_uploaded: 50,
+        created_at: 1,
+        updated_at: 2,
+      })
+      .mockResolvedValueOnce(null);
+    mockFetch
+      .mockResolvedValueOnce(response({}, false))
+      .mockResolvedValueOnce(response({ 'X-Goog-Upload-URL': 'https://upload/session-2' }))
+      .mockResolvedValue(response());
+
+    await service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1');
+
+    expect(mockDB.deleteUploadSession).toHaveBeenCalledWith(FILE_PATH);
+    expect(mockFetch.mock.calls[2]).toEqual(['https://upload/session-2', expect.objectContaining({
+      headers: { 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': '0' },
+    })]);
+  });
+
+  it('should keep the session when the status query fails for another reason', async () => {
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 2 * MiB } as any);
+    mockDB.getUploadSession.mockResolvedValue({
+      storage_path: FILE_PATH,
+      inspection_id: 'insp-1',
+      local_uri: 'file://photo.jpg',
+      upload_url: 'https://upload/session-1',
+      content_type: 'image/jpeg',
+      total_bytes: 2 * MiB,
+      bytes_uploaded: MiB,
+      created_at: 1,
+      updated_at: 2,
+    });
+    mockFetch.mockResolvedValueOnce({ ...response({}, false, 503), statusText: 'Service Unavailable' });
+
+    await expect(service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1'))
+      .rejects.toThrow('Upload failed: Upload status query failed: 503 Service Unavailable');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockDB.deleteUploadSession).not.toHaveBeenCalled();
+  });
+
+  it('should keep the session when a chunk fails so the upload can resume', async () => {
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true, size: 2 * MiB } as any);
+    mockDB.getUploadSession.mockResolvedValue(null);
+    mockFetch
+      .mockResolvedValueOnce(response({ 'X-Goog-Upload-URL': 'https://upload/session-1' }))
+      .mockResolvedValueOnce(response())
+      .mockRejectedValueOnce(new Error('Network request failed'));
+
+    await expect(service.uploadPhoto('file://photo.jpg', 'insp-1', 'p1'))
+      .rejects.toThrow('Upload failed: Network request failed');
+
+    expect(mockDB.updateUploadSessionProgress).toHaveBeenCalledWith(FILE_PATH, MiB);
+    expect(mockDB.deleteUploadSession).not.toHaveBeenCalled();
+  });
+});
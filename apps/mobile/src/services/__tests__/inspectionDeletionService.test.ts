@@ -0,0 +1,115 @@
+import * as FileSystem from 'expo-file-system';
+import { InspectionDeletionService } from '../inspectionDeletionService';
+import { inspectionRepository } from '../inspectionRepository';
+import { photoImportService } from '../photoImportService';
+import { Inspection } from '../../types';
+
+jest.mock('../inspectionRepository', () => ({
+  inspectionRepository: {
+    getInspection: jest.fn(),
+    getTrashedPhotos: jest.fn(),
+    deleteInspection: jest.fn(),
+  },
+}));
+
+jest.mock('../photoImportService', () => ({
+  photoImportService: {
+    clearClockOffset: jest.fn(),
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file://docs/',
+  readDirectoryAsync: jest.fn(),
+  getInfoAsync: jest.fn(),
+  deleteAsync: jest.fn(),
+}));
+
+const mockRepository = inspectionRepository as jest.Mocked<typeof inspectionRepository>;
+const mockFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+
+const START = 1705312800000;
+
+const inspection: Inspection = {
+  id: 'insp-1',
+  client: 'Acme Insurance',
+  address: '1 Test St',
+  claimNumber: 'CLM-1',
+  inspectionDate: '2024-01-15',
+  photos: [{
+    id: 'photo-1',
+    uri: 'file://docs/inspection_photo_insp-1_1705312860000.upload.jpg',
+    thumbnailUri: 'file://docs/inspection_photo_insp-1_1705312860000.thumb.jpg',
+    timestamp: START + 60000,
+    audioTimestamp: 60000,
+  }],
+  audioChunks: [{ id: 'insp-1:0', index: 0, uri: 'file://docs/inspection_audio_insp-1_0.m4a', startOffset: 0, durationMs: 90000 }],
+  clips: [{
+    id: 'clip-1',
+    uri: 'file://docs/inspection_clip_insp-1_1705312870000.mov',
+    timestamp: START + 70000,
+    audioTimestamp: 70000,
+    endAudioTimestamp: 75000,
+  }],
+  status: 'DRAFT',
+  createdAt: START,
+  updatedAt: START,
+};
+
+describe('InspectionDeletionService', () => {
+  let service: InspectionDeletionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InspectionDeletionService();
+    mockRepository.deleteInspection.mockResolvedValue({ inspections: 1, photos: 2, video_clips: 1 });
+    mockRepository.getTrashedPhotos.mockResolvedValue([{
+      id: 'photo-2',
+      uri: 'file://docs/inspection_photo_insp-1_1705312880000.upload.jpg',
+      timestamp: START + 80000,
+      audioTimestamp: 80000,
+      deletedAt: START + 90000,
+    }]);
+    mockFileSystem.readDirectoryAsync.mockResolvedValue([
+      'inspection_photo_insp-1_1705312860000.upload.jpg',
+      'inspection_photo_insp-1_1705312890000.jpg', // Capture that was never saved
+      'inspection_photo_insp-2_1705312860000.jpg',
+      'inspection_audio_insp-10_0.m4a',
+    ]);
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true } as FileSystem.FileInfo);
+  });
+
+  it('should delete the records and every file of the inspection, trashed photos included', async () => {
+    mockRepository.getInspection.mockResolvedValue(inspection);
+
+    const report = await service.deleteInspection('insp-1');
+
+    expect(mockRepository.deleteInspection).toHaveBeenCalledWith('insp-1');
+    expect(photoImportService.clearClockOffset).toHaveBeenCalledWith('insp-1');
+    expect(mockFileSystem.deleteAsync.mock.calls.map(([uri]) => uri).sort()).toEqual([
+      'file://docs/inspection_audio_insp-1_0.m4a',
+      'file://docs/inspection_clip_insp-1_1705312870000.mov',
+      'file://docs/inspection_photo_insp-1_1705312860000.thumb.jpg',
+      'file://docs/inspection_photo_insp-1_1705312860000.upload.jpg',
+      'file://docs/inspection_photo_insp-1_1705312880000.upload.jpg',
+      'file://docs/inspection_photo_insp-1_1705312890000.jpg',
+    ]);
+    expect(report).toEqual({ records: { inspections: 1, photos: 2, video_clips: 1 }, files: 6, failedFiles: 0 });
+  });
+
+  it('should finish off an inspection whose records are already gone', async () => {
+    mockRepository.getInspection.mockResolvedValue(null);
+    mockRepository.getTrashedPhotos.mockResolvedValue([]);
+    mockRepository.deleteInspection.mockResolvedValue({});
+    mockFileSystem.getInfoAsync
+      .mockResolvedValueOnce({ exists: false } as FileSystem.FileInfo)
+      .mockResolvedValueOnce({ exists: true } as FileSystem.FileInfo);
+    mockFileSystem.deleteAsync.mockRejectedValueOnce(new Error('Permission denied'));
+
+    const report = await service.deleteInspection('insp-1');
+
+    // The server delete is queued again even though nothing was left locally
+    expect(mockRepository.deleteInspection).toHaveBeenCalledWith('insp-1');
+    expect(report).toEqual({ records: {}, files: 0, failedFiles: 1 });
+  });
+});
@@ -0,0 +1,107 @@
+import { inspectionRepository } from '../inspectionRepository';
+import { SyncService } from '../syncService';
+import { inspectionDB } from '../../database';
+import { firestoreService } from '../firestoreService';
+import { firebaseStorage } from '../firebaseStorage';
+
+// The repository and sync service run against a real in-memory SQLite database
+jest.mock('../firestoreService', () => ({
+  firestoreService: {
+    createInspection: jest.fn(async ({ id }) => id),
+    addPhoto: jest.fn(async ({ id }) => id),
+    updatePhotoFirebaseUrl: jest.fn(),
+    updatePhotoCaption: jest.fn(),
+    deletePhoto: jest.fn(),
+  },
+}));
+
+jest.mock('../firebaseStorage', () => ({
+  firebaseStorage: {
+    deletePhoto: jest.fn(),
+  },
+}));
+
+const mockFirestore = firestoreService as jest.Mocked<typeof firestoreService>;
+const mockStorage = firebaseStorage as jest.Mocked<typeof firebaseStorage>;
+
+const START = 1705312800000;
+
+describe('InspectionRepository', () => {
+  let syncService: SyncService;
+
+  const createInspectionWithPhoto = async () => {
+    const inspection = await inspectionRepository.createInspection({
+      client: 'Client',
+      address: '1 Main St',
+      claimNumber: 'CLM-1',
+      inspectionDate: '2024-01-15',
+      status: 'DRAFT',
+    });
+    const photo = await inspectionRepository.addPhoto(inspection.id, {
+      uri: 'file://docs/photo.jpg',
+      timestamp: START,
+      audioTimestamp: 500,
+    });
+    return { inspectionId: inspection.id, photoId: photo.id };
+  };
+
+  const getPendingTypes = async () =>
+    (await inspectionDB.getPendingOperations()).map(operation => operation.type);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    syncService = new SyncService();
+    // Each test starts with an empty outbox
+    for (const operation of await inspectionDB.getPendingOperations()) {
+      await inspectionDB.completeOperation(operation.id);
+    }
+  });
+
+  it('should drop the queued delete of a photo restored before it synced', async () => {
+    const { inspectionId, photoId } = await createInspectionWithPhoto();
+    await syncService.syncPendingOperations();
+
+    await inspectionRepository.trashPhoto(photoId);
+    await inspectionRepository.restorePhoto(photoId);
+    // Back online: the file went up again before the outbox replayed
+    await inspectionRepository.updatePhotoFirebaseUrl(photoId, 'https://storage/photo.jpg');
+
+    expect(await getPendingTypes()).toEqual(['ADD_PHOTO', 'UPDATE_PHOTO_FIREBASE_URL']);
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 2, failed: 0, remaining: 0 });
+    expect(mockFirestore.deletePhoto).not.toHaveBeenCalled();
+    expect(mockStorage.deletePhoto).not.toHaveBeenCalled();
+    expect(mockFirestore.updatePhotoFirebaseUrl).toHaveBeenCalledWith(photoId, 'https://storage/photo.jpg');
+    expect((await inspectionRepository.getInspection(inspectionId))?.photos.map(photo => photo.id)).toEqual([photoId]);
+  });
+
+  it('should leave only the delete of a photo emptied from the trash before it synced', async () => {
+    const { inspectionId, photoId } = await createInspectionWithPhoto();
+    await inspectionRepository.updatePhotoCaption(photoId, 'Roof');
+    await inspectionRepository.trashPhoto(photoId);
+
+    await inspectionRepository.purgePhoto(photoId);
+
+    expect(await getPendingTypes()).toEqual(['CREATE_INSPECTION', 'DELETE_PHOTO']);
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 2, failed: 0, remaining: 0 });
+    expect(mockFirestore.addPhoto).not.toHaveBeenCalled();
+    expect(mockFirestore.deletePhoto).toHaveBeenCalledWith(photoId);
+    expect(mockStorage.deletePhoto).toHaveBeenCalledWith(inspectionId, photoId);
+  });
+
+  it('should treat updates of a photo that is no longer on the phone as done', async () => {
+    const { photoId } = await createInspectionWithPhoto();
+    await syncService.syncPendingOperations();
+    await inspectionRepository.updatePhotoCaption(photoId, 'Roof');
+    // Removed without going through the repository, e.g. by an older version of the app
+    await inspectionDB.deletePhoto(photoId);
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 1, failed: 0, remaining: 0 });
+    expect(mockFirestore.updatePhotoCaption).not.toHaveBeenCalled();
+  });
+});
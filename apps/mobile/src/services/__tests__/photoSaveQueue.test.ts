@@ -0,0 +1,126 @@
+import { PhotoSaveQueue } from '../photoSaveQueue';
+import { inspectionRepository } from '../inspectionRepository';
+import { imageProcessingService } from '../imageProcessingService';
+import { uploadQueue } from '../uploadQueue';
+import { photoQualityService } from '../photoQualityService';
+import { Photo, PhotoQuality } from '../../types';
+
+jest.mock('../inspectionRepository', () => ({
+  inspectionRepository: {
+    addPhoto: jest.fn(),
+  },
+}));
+
+jest.mock('../imageProcessingService', () => ({
+  imageProcessingService: {
+    processPhoto: jest.fn(),
+    discardOriginal: jest.fn(),
+  },
+}));
+
+jest.mock('../uploadQueue', () => ({
+  uploadQueue: {
+    enqueuePhotoUpload: jest.fn(),
+  },
+}));
+
+jest.mock('../photoQualityService', () => ({
+  photoQualityService: {
+    checkPhoto: jest.fn(),
+  },
+}));
+
+const mockRepository = inspectionRepository as jest.Mocked<typeof inspectionRepository>;
+const mockUploadQueue = uploadQueue as jest.Mocked<typeof uploadQueue>;
+const mockImageProcessing = imageProcessingService as jest.Mocked<typeof imageProcessingService>;
+const mockQuality = photoQualityService as jest.Mocked<typeof photoQualityService>;
+
+const START = 1705312800000;
+
+const capture = (n: number): Omit<Photo, 'id'> => ({
+  uri: `file://docs/inspection_photo_insp-1_${START + n}.jpg`,
+  timestamp: START + n,
+  audioTimestamp: n,
+});
+
+describe('PhotoSaveQueue', () => {
+  let queue: PhotoSaveQueue;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue = new PhotoSaveQueue();
+    mockRepository.addPhoto.mockImplementation(async (_inspectionId, photo) => ({
+      id: `photo-${photo.audioTimestamp}`,
+      ...photo,
+    }));
+    mockImageProcessing.processPhoto.mockImplementation(async ({ uri }) => ({
+      uri: uri.replace('.jpg', '.upload.jpg'),
+      thumbnailUri: uri.replace('.jpg', '.thumb.jpg'),
+    }));
+  });
+
+  it('should save a burst of photos in capture order and queue their uploads', async () => {
+    const saved = await Promise.all([1, 2, 3].map(n => queue.savePhoto('insp-1', capture(n))));
+
+    expect(saved.map(photo => photo.id)).toEqual(['photo-1', 'photo-2', 'photo-3']);
+    expect(mockRepository.addPhoto.mock.calls.map(([, photo]) => photo.audioTimestamp)).toEqual([1, 2, 3]);
+    expect(mockUploadQueue.enqueuePhotoUpload)
+      .toHaveBeenCalledWith('insp-1', 'photo-2', capture(2).uri.replace('.jpg', '.upload.jpg'));
+  });
+
+  it('should save the resized copy and thumbnail, then let go of the capture', async () => {
+    const saved = await queue.savePhoto('insp-1', capture(1));
+
+    expect(saved.uri).toBe('file://docs/inspection_photo_insp-1_1705312800001.upload.jpg');
+    expect(saved.thumbnailUri).toBe('file://docs/inspection_photo_insp-1_1705312800001.thumb.jpg');
+    expect(mockImageProcessing.discardOriginal).toHaveBeenCalledWith(capture(1).uri, {
+      uri: saved.uri,
+      thumbnailUri: saved.thumbnailUri,
+    });
+    expect(mockRepository.addPhoto.mock.invocationCallOrder[0])
+      .toBeLessThan(mockImageProcessing.discardOriginal.mock.invocationCallOrder[0]);
+  });
+
+  it('should check each saved photo in order without holding up the next save', async () => {
+    const quality: PhotoQuality = { sharpness: 12, brightness: 120, darkFraction: 0, brightFraction: 0, issues: ['BLUR'] };
+    let finishCheck: (quality: PhotoQuality) => void = () => undefined;
+    mockQuality.checkPhoto.mockReturnValueOnce(new Promise(resolve => { finishCheck = resolve; }));
+
+    const first = await queue.savePhoto('insp-1', capture(1));
+    // The first check is still running, and the next photo saves anyway
+    const second = await queue.savePhoto('insp-1', capture(2));
+    finishCheck(quality);
+
+    expect(first.quality).toBeUndefined();
+    expect(second.id).toBe('photo-2');
+    expect(mockQuality.checkPhoto.mock.calls.map(([inspectionId, photo]) => [inspectionId, photo.id])).toEqual([
+      ['insp-1', 'photo-1'],
+      ['insp-1', 'photo-2'],
+    ]);
+    expect(mockQuality.checkPhoto).toHaveBeenCalledWith('insp-1', expect.objectContaining({
+      thumbnailUri: capture(1).uri.replace('.jpg', '.thumb.jpg'),
+    }));
+  });
+
+  it('should report how many photos are still being saved', async () => {
+    const counts: number[] = [];
+    queue.subscribe(pending => counts.push(pending));
+
+    queue.savePhoto('insp-1', capture(1));
+    queue.savePhoto('insp-1', capture(2));
+    await queue.flush();
+
+    expect(counts).toEqual([0, 1, 2, 1, 0]);
+  });
+
+  it('should keep saving after a photo fails to save', async () => {
+    mockRepository.addPhoto.mockRejectedValueOnce(new Error('database is locked'));
+
+    const failed = queue.savePhoto('insp-1', capture(1));
+    const next = queue.savePhoto('insp-1', capture(2));
+
+    await expect(failed).rejects.toThrow('database is locked');
+    await expect(next).resolves.toEqual(expect.objectContaining({ id: 'photo-2' }));
+    expect(mockUploadQueue.enqueuePhotoUpload).toHaveBeenCalledTimes(1);
+  });
+});
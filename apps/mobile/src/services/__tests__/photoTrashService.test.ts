@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { PhotoTrashService, TRASH_RETENTION_MS } from '../photoTrashService';
+import { inspectionRepository } from '../inspectionRepository';
+import { uploadQueue } from '../uploadQueue';
+import { Photo } from '../../types';
+
+jest.mock('../inspectionRepository', () => ({
+  inspectionRepository: {
+    trashPhoto: jest.fn(),
+    restorePhoto: jest.fn(),
+    getTrashedPhotos: jest.fn(),
+    getPhotosTrashedBefore: jest.fn(),
+    purgePhoto: jest.fn(),
+  },
+}));
+
+jest.mock('../uploadQueue', () => ({
+  uploadQueue: {
+    enqueuePhotoUpload: jest.fn(),
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  deleteAsync: jest.fn(),
+}));
+
+const mockRepository = inspectionRepository as jest.Mocked<typeof inspectionRepository>;
+const mockUploadQueue = uploadQueue as jest.Mocked<typeof uploadQueue>;
+const mockFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+
+const START = 1705312800000;
+
+const trashedPhoto: Photo = {
+  id: 'photo-1',
+  uri: 'file://docs/inspection_photo_insp-1_1705312860000.upload.jpg',
+  thumbnailUri: 'file://docs/inspection_photo_insp-1_1705312860000.thumb.jpg',
+  timestamp: START + 60000,
+  audioTimestamp: 60000,
+  deletedAt: START,
+};
+
+describe('PhotoTrashService', () => {
+  let service: PhotoTrashService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PhotoTrashService();
+  });
+
+  it('should upload a restored photo again', async () => {
+    mockRepository.restorePhoto.mockResolvedValue({ ...trashedPhoto, deletedAt: undefined });
+
+    await service.restorePhoto('insp-1', 'photo-1');
+
+    expect(mockRepository.restorePhoto).toHaveBeenCalledWith('photo-1');
+    expect(mockUploadQueue.enqueuePhotoUpload).toHaveBeenCalledWith('insp-1', 'photo-1', trashedPhoto.uri);
+  });
+
+  it('should delete the files and records of photos past the retention period', async () => {
+    mockRepository.getPhotosTrashedBefore.mockResolvedValue([trashedPhoto]);
+    mockFileSystem.deleteAsync
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Permission denied'));
+
+    const emptied = await service.emptyExpiredTrash(START + TRASH_RETENTION_MS);
+
+    expect(emptied).toBe(1);
+    expect(mockRepository.getPhotosTrashedBefore).toHaveBeenCalledWith(START);
+    expect(mockFileSystem.deleteAsync).toHaveBeenCalledWith(trashedPhoto.uri, { idempotent: true });
+    expect(mockFileSystem.deleteAsync).toHaveBeenCalledWith(trashedPhoto.thumbnailUri, { idempotent: true });
+    // A file that can't be deleted doesn't keep the photo in the trash forever
+    expect(mockRepository.purgePhoto).toHaveBeenCalledWith('photo-1');
+  });
+});
@@ -0,0 +1,294 @@
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { RecoveryService } from '../recoveryService';
+import { inspectionDB } from '../../database';
+import { inspectionRepository } from '../inspectionRepository';
+import { imageProcessingService } from '../imageProcessingService';
+import { uploadQueue } from '../uploadQueue';
+import { AudioChunk, DatabaseActiveRecording, Inspection, RecordingPause } from '../../types';
+
+jest.mock('../../database', () => ({
+  inspectionDB: {
+    getActiveRecordings: jest.fn(),
+    saveActiveRecording: jest.fn(),
+    deleteActiveRecording: jest.fn(),
+  },
+}));
+
+jest.mock('../inspectionRepository', () => ({
+  inspectionRepository: {
+    getInspection: jest.fn(),
+    getTrashedPhotos: jest.fn(),
+    addPhoto: jest.fn(),
+    addAudioChunk: jest.fn(),
+    updateInspectionAudioUrl: jest.fn(),
+    endAudioSession: jest.fn(),
+  },
+}));
+
+jest.mock('../imageProcessingService', () => ({
+  imageProcessingService: {
+    processPhoto: jest.fn(async ({ uri }: { uri: string }) => ({ uri })),
+    discardOriginal: jest.fn(),
+  },
+}));
+
+jest.mock('../uploadQueue', () => ({
+  uploadQueue: {
+    enqueuePhotoUpload: jest.fn(),
+    enqueueAudioChunkUpload: jest.fn(),
+  },
+}));
+
+jest.mock('expo-av', () => ({
+  Audio: {
+    Sound: {
+      createAsync: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file://docs/',
+  readDirectoryAsync: jest.fn(),
+  getInfoAsync: jest.fn(),
+  moveAsync: jest.fn(),
+}));
+
+const mockDB = inspectionDB as jest.Mocked<typeof inspectionDB>;
+const mockRepository = inspectionRepository as jest.Mocked<typeof inspectionRepository>;
+const mockUploadQueue = uploadQueue as jest.Mocked<typeof uploadQueue>;
+const mockImageProcessing = imageProcessingService as jest.Mocked<typeof imageProcessingService>;
+const mockFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+const mockCreateSound = Audio.Sound.createAsync as jest.Mock;
+
+const START = 1705312800000;
+
+const firstChunk: AudioChunk = {
+  id: 'insp-1:0',
+  index: 0,
+  uri: 'file://docs/inspection_audio_insp-1_0.m4a',
+  startOffset: 0,
+  durationMs: 300000,
+};
+
+const inspection = (overrides: Partial<Inspection> = {}): Inspection => ({
+  id: 'insp-1',
+  client: 'Test Client',
+  address: '1 Test Street',
+  claimNumber: 'CLM-1',
+  inspectionDate: '2024-01-15',
+  status: 'DRAFT',
+  photos: [],
+  audioChunks: [firstChunk],
+  createdAt: START,
+  updatedAt: START,
+  ...overrides,
+});
+
+const activeRecording = (overrides: Partial<DatabaseActiveRecording> = {}): DatabaseActiveRecording => ({
+  inspection_id: 'insp-1',
+  started_at: START,
+  recorder_uri: 'file://cache/Audio/recording-123.m4a',
+  chunk_index: 1,
+  chunk_start_offset: 300000,
+  pauses: JSON.stringify([]),
+  updated_at: START + 300000,
+  ...overrides,
+});
+
+const playableFor = (durationMillis: number) => ({
+  sound: { unloadAsync: jest.fn() },
+  status: { isLoaded: true, durationMillis },
+});
+
+describe('RecoveryService', () => {
+  let service: RecoveryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RecoveryService();
+    mockRepository.getInspection.mockResolvedValue(inspection());
+    mockRepository.getTrashedPhotos.mockResolvedValue([]);
+    mockRepository.addAudioChunk.mockImplementation(async (inspectionId, chunk) => ({
+      id: `${inspectionId}:${chunk.index}`,
+      ...chunk,
+    }));
+    mockRepository.addPhoto.mockImplementation(async (_inspectionId, photo) => ({ id: 'photo-recovered', ...photo }));
+    mockFileSystem.readDirectoryAsync.mockResolvedValue(['inspection_audio_insp-1_0.m4a']);
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true } as FileSystem.FileInfo);
+  });
+
+  it('should save the chunk that was being recorded and carry on after it', async () => {
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording()]);
+    mockCreateSound.mockResolvedValue(playableFor(95000));
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    expect(mockFileSystem.moveAsync).toHaveBeenCalledWith({
+      from: 'file://cache/Audio/recording-123.m4a',
+      to: 'file://docs/inspection_audio_insp-1_1.m4a',
+    });
+    expect(mockRepository.addAudioChunk).toHaveBeenCalledWith('insp-1', {
+      index: 1,
+      uri: 'file://docs/inspection_audio_insp-1_1.m4a',
+      startOffset: 300000,
+      durationMs: 95000,
+    });
+    expect(mockUploadQueue.enqueueAudioChunkUpload)
+      .toHaveBeenCalledWith('insp-1', 'insp-1:1', 'file://docs/inspection_audio_insp-1_1.m4a');
+    expect(interrupted.recoveredChunks).toBe(1);
+    expect(interrupted.audioLost).toBe(false);
+    expect(interrupted.resumePoint.chunks).toHaveLength(2);
+    // Recording must have been running until at least the end of the recovered audio
+    expect(interrupted.resumePoint.interruptedAt).toBe(START + 395000);
+
+    // Checkpointed so the next launch doesn't recover the same file again
+    expect(mockDB.saveActiveRecording).toHaveBeenCalledWith(expect.objectContaining({
+      inspection_id: 'insp-1',
+      recorder_uri: undefined,
+      chunk_index: 2,
+      chunk_start_offset: 395000,
+    }));
+  });
+
+  it('should save a chunk that was moved into place but never recorded', async () => {
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording()]);
+    mockFileSystem.readDirectoryAsync.mockResolvedValue([
+      'inspection_audio_insp-1_0.m4a',
+      'inspection_audio_insp-1_1.m4a',
+    ]);
+    mockCreateSound.mockResolvedValue(playableFor(300000));
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    // The recorder's temp file is the one that was moved, so there's nothing else to look for
+    expect(mockFileSystem.getInfoAsync).not.toHaveBeenCalled();
+    expect(mockRepository.addAudioChunk).toHaveBeenCalledTimes(1);
+    expect(interrupted.recoveredChunks).toBe(1);
+    expect(interrupted.audioLost).toBe(false);
+  });
+
+  it('should report audio that could not be read back and keep pauses within the saved audio', async () => {
+    const pauses: RecordingPause[] = [{ audioOffset: 320000, pausedAt: START + 320000 }];
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording({ pauses: JSON.stringify(pauses) })]);
+    mockCreateSound.mockRejectedValue(new Error('Invalid file'));
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    expect(mockFileSystem.moveAsync).not.toHaveBeenCalled();
+    expect(mockRepository.addAudioChunk).not.toHaveBeenCalled();
+    expect(interrupted.audioLost).toBe(true);
+    expect(interrupted.resumePoint.pauses).toEqual([{ audioOffset: 300000, pausedAt: START + 320000 }]);
+  });
+
+  it('should save photos whose file was written but whose record was not', async () => {
+    const savedPhoto = { id: 'photo-1', uri: 'file://docs/inspection_photo_insp-1_1705312860000.jpg', timestamp: START + 60000, audioTimestamp: 60000 };
+    mockRepository.getInspection.mockResolvedValue(inspection({
+      photos: [savedPhoto],
+      audioSessions: [{ id: 'insp-1:0', index: 0, startedAt: START, startOffset: 0 }],
+    }));
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording({ recorder_uri: undefined, chunk_index: 1 })]);
+    mockFileSystem.readDirectoryAsync.mockResolvedValue([
+      'inspection_audio_insp-1_0.m4a',
+      'inspection_photo_insp-1_1705312860000.jpg',
+      'inspection_photo_insp-1_1705312920000.jpg',
+      'inspection_photo_insp-2_1705312920000.jpg',
+    ]);
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    expect(mockRepository.addPhoto).toHaveBeenCalledTimes(1);
+    expect(mockRepository.addPhoto).toHaveBeenCalledWith('insp-1', {
+      uri: 'file://docs/inspection_photo_insp-1_1705312920000.jpg',
+      timestamp: START + 120000,
+      audioTimestamp: 120000,
+      sessionId: 'insp-1:0',
+      source: 'CAMERA',
+    });
+    expect(mockUploadQueue.enqueuePhotoUpload)
+      .toHaveBeenCalledWith('insp-1', 'photo-recovered', 'file://docs/inspection_photo_insp-1_1705312920000.jpg');
+    expect(interrupted.recoveredPhotos).toBe(1);
+    expect(interrupted.resumePoint.sessionId).toBe('insp-1:0');
+  });
+
+  it('should clean up a capture whose resized copy was already saved', async () => {
+    const savedPhoto = {
+      id: 'photo-1',
+      uri: 'file://docs/inspection_photo_insp-1_1705312860000.upload.jpg',
+      thumbnailUri: 'file://docs/inspection_photo_insp-1_1705312860000.thumb.jpg',
+      timestamp: START + 60000,
+      audioTimestamp: 60000,
+    };
+    mockRepository.getInspection.mockResolvedValue(inspection({ photos: [savedPhoto] }));
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording({ recorder_uri: undefined, chunk_index: 1 })]);
+    mockFileSystem.readDirectoryAsync.mockResolvedValue([
+      'inspection_audio_insp-1_0.m4a',
+      'inspection_photo_insp-1_1705312860000.jpg',
+      'inspection_photo_insp-1_1705312860000.upload.jpg',
+      'inspection_photo_insp-1_1705312860000.thumb.jpg',
+    ]);
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    expect(mockRepository.addPhoto).not.toHaveBeenCalled();
+    expect(mockImageProcessing.discardOriginal)
+      .toHaveBeenCalledWith('file://docs/inspection_photo_insp-1_1705312860000.jpg', savedPhoto);
+    expect(interrupted.recoveredPhotos).toBe(0);
+  });
+
+  it('should not bring back a deleted photo whose original was kept', async () => {
+    mockRepository.getTrashedPhotos.mockResolvedValue([{
+      id: 'photo-1',
+      uri: 'file://docs/inspection_photo_insp-1_1705312860000.upload.jpg',
+      originalUri: 'file://docs/inspection_photo_insp-1_1705312860000.jpg',
+      timestamp: START + 60000,
+      audioTimestamp: 60000,
+      deletedAt: START + 120000,
+    }]);
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording({ recorder_uri: undefined, chunk_index: 1 })]);
+    mockFileSystem.readDirectoryAsync.mockResolvedValue([
+      'inspection_audio_insp-1_0.m4a',
+      'inspection_photo_insp-1_1705312860000.jpg',
+      'inspection_photo_insp-1_1705312860000.upload.jpg',
+    ]);
+
+    const [interrupted] = await service.findInterruptedInspections();
+
+    expect(mockRepository.addPhoto).not.toHaveBeenCalled();
+    expect(mockImageProcessing.discardOriginal).not.toHaveBeenCalled();
+    expect(interrupted.recoveredPhotos).toBe(0);
+  });
+
+  it('should drop the checkpoint of an inspection that no longer exists', async () => {
+    mockDB.getActiveRecordings.mockResolvedValue([activeRecording()]);
+    mockRepository.getInspection.mockResolvedValue(null);
+
+    await expect(service.findInterruptedInspections()).resolves.toEqual([]);
+    expect(mockDB.deleteActiveRecording).toHaveBeenCalledWith('insp-1');
+  });
+
+  it('should close the recording when finishing an interrupted inspection', async () => {
+    const pauses: RecordingPause[] = [{ audioOffset: 60000, pausedAt: START + 60000, resumedAt: START + 90000 }];
+    const silences = [{ start: 120000, end: 150000 }];
+
+    await service.finishInterruptedInspection({
+      inspection: inspection(),
+      resumePoint: {
+        startedAt: START,
+        interruptedAt: START + 330000,
+        pauses,
+        chunks: [firstChunk],
+        silences,
+        sessionId: 'insp-1:0',
+      },
+      recoveredPhotos: 0,
+      recoveredChunks: 0,
+      audioLost: false,
+    });
+
+    expect(mockRepository.updateInspectionAudioUrl).toHaveBeenCalledWith('insp-1', firstChunk.uri, pauses, silences);
+    expect(mockRepository.endAudioSession).toHaveBeenCalledWith('insp-1:0', START + 330000, 300000);
+    expect(mockDB.deleteActiveRecording).toHaveBeenCalledWith('insp-1');
+  });
+});
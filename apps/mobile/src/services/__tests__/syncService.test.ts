@@ -0,0 +1,388 @@
+import NetInfo from '@react-native-community/netinfo';
+import { SyncService } from '../syncService';
+import { inspectionDB } from '../../database';
+import { firestoreService } from '../firestoreService';
+import { firebaseStorage } from '../firebaseStorage';
+import { DatabaseOutboxOperation } from '../../types';
+
+jest.mock('../../database', () => ({
+  inspectionDB: {
+    getPendingOperations: jest.fn(),
+    getPendingOperationCount: jest.fn(),
+    completeOperation: jest.fn(),
+    recordOperationFailure: jest.fn(),
+    getInspection: jest.fn(),
+    getPhoto: jest.fn(),
+    setInspectionRemoteId: jest.fn(),
+    setPhotoRemoteId: jest.fn(),
+    getPhotosForInspection: jest.fn(),
+    getMarkersForInspection: jest.fn(),
+    updateMarkerCaption: jest.fn(),
+    updateInspectionAreaProposals: jest.fn(),
+    setInspectionField: jest.fn(),
+    setPhotoField: jest.fn(),
+    recordConflict: jest.fn(),
+  },
+  INSPECTION_FIELD_COLUMNS: { client: 'client', address: 'address', claimNumber: 'claim_number', status: 'status' },
+  PHOTO_FIELD_COLUMNS: { caption: 'caption', area: 'area' },
+}));
+
+jest.mock('../firestoreService', () => ({
+  firestoreService: {
+    createInspection: jest.fn(),
+    addPhoto: jest.fn(),
+    updateInspectionStatus: jest.fn(),
+    updatePhotoCaption: jest.fn(),
+    updatePhotoArea: jest.fn(),
+    getInspection: jest.fn(),
+    getPhoto: jest.fn(),
+    getPhotosForInspection: jest.fn(),
+    getMarkersForInspection: jest.fn(),
+    deletePhoto: jest.fn(),
+    deleteInspection: jest.fn(),
+  },
+}));
+
+jest.mock('../firebaseStorage', () => ({
+  firebaseStorage: {
+    deletePhoto: jest.fn(),
+    deleteInspectionFiles: jest.fn(),
+  },
+}));
+
+const mockDB = inspectionDB as jest.Mocked<typeof inspectionDB>;
+const mockFirestore = firestoreService as jest.Mocked<typeof firestoreService>;
+const mockStorage = firebaseStorage as jest.Mocked<typeof firebaseStorage>;
+
+const operation = (
+  seq: number,
+  inspectionId: string,
+  type: DatabaseOutboxOperation['type'],
+  payload: object
+): DatabaseOutboxOperation => ({
+  seq,
+  id: `op-${seq}`,
+  inspection_id: inspectionId,
+  type,
+  payload: JSON.stringify(payload),
+  attempts: 0,
+  created_at: 1705312800000 + seq,
+});
+
+describe('SyncService', () => {
+  let outbox: DatabaseOutboxOperation[];
+  let remoteIds: Record<string, string | null>;
+  let syncService: SyncService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    outbox = [];
+    remoteIds = {};
+
+    mockDB.getPendingOperations.mockImplementation(async () => [...outbox]);
+    mockDB.getPendingOperationCount.mockImplementation(async () => outbox.length);
+    mockDB.completeOperation.mockImplementation(async (id: string) => {
+      outbox = outbox.filter(op => op.id !== id);
+    });
+    mockDB.getInspection.mockImplementation(async (id: string) =>
+      ({ id, remote_id: remoteIds[id] } as any)
+    );
+    mockDB.getPhoto.mockImplementation(async (id: string) =>
+      ({ id, remote_id: remoteIds[id] } as any)
+    );
+    mockDB.setInspectionRemoteId.mockImplementation(async (id: string, remoteId: string) => {
+      remoteIds[id] = remoteId;
+    });
+    mockDB.setPhotoRemoteId.mockImplementation(async (id: string, remoteId: string | null) => {
+      remoteIds[id] = remoteId;
+    });
+    mockDB.getMarkersForInspection.mockResolvedValue([]);
+    mockFirestore.getMarkersForInspection.mockResolvedValue([]);
+
+    syncService = new SyncService();
+  });
+
+  it('should replay operations in order using the client-generated IDs', async () => {
+    outbox = [
+      operation(1, 'local-1', 'CREATE_INSPECTION', {
+        client: 'Client', address: '1 Main St', claimNumber: 'CLM-1', inspectionDate: '2024-01-15', status: 'DRAFT',
+      }),
+      operation(2, 'local-1', 'ADD_PHOTO', {
+        photoId: 'photo-1', photoUri: 'file://photo.jpg', timestamp: 1, audioTimestamp: 500,
+      }),
+      operation(3, 'local-1', 'UPDATE_PHOTO_CAPTION', { photoId: 'photo-1', caption: 'Roof' }),
+    ];
+    mockFirestore.createInspection.mockImplementation(async ({ id }) => id);
+    mockFirestore.addPhoto.mockImplementation(async ({ id }) => id);
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 3, failed: 0, remaining: 0 });
+    expect(mockFirestore.createInspection).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'local-1', claimNumber: 'CLM-1' })
+    );
+    expect(mockFirestore.addPhoto).toHaveBeenCalledWith({
+      id: 'photo-1',
+      inspectionId: 'local-1',
+      photoUri: 'file://photo.jpg',
+      timestamp: 1,
+      audioTimestamp: 500,
+    });
+    expect(mockFirestore.updatePhotoCaption).toHaveBeenCalledWith('photo-1', 'Roof', undefined);
+  });
+
+  it('should delete a photo from Firestore and Storage and add it again once restored', async () => {
+    remoteIds['local-1'] = 'local-1';
+    const addPhoto = operation(1, 'local-1', 'ADD_PHOTO', {
+      photoId: 'photo-1', photoUri: 'file://photo.jpg', timestamp: 1, audioTimestamp: 500,
+    });
+    outbox = [
+      addPhoto,
+      operation(2, 'local-1', 'DELETE_PHOTO', { photoId: 'photo-1' }),
+      { ...addPhoto, seq: 3, id: 'op-3' },
+    ];
+    mockFirestore.addPhoto.mockImplementation(async ({ id }) => id);
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 3, failed: 0, remaining: 0 });
+    expect(mockFirestore.deletePhoto).toHaveBeenCalledWith('photo-1');
+    expect(mockStorage.deletePhoto).toHaveBeenCalledWith('local-1', 'photo-1');
+    expect(mockFirestore.addPhoto).toHaveBeenCalledTimes(2);
+    expect(remoteIds['photo-1']).toBe('photo-1');
+  });
+
+  it('should delete an inspection from Firestore and Storage after its local record is gone', async () => {
+    outbox = [operation(1, 'local-1', 'DELETE_INSPECTION', { remoteId: 'legacy-remote-id' })];
+    mockFirestore.deleteInspection.mockResolvedValue({ photos: 3, inspections: 1 });
+    mockStorage.deleteInspectionFiles.mockResolvedValue(4);
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 1, failed: 0, remaining: 0 });
+    expect(mockFirestore.deleteInspection).toHaveBeenCalledWith('legacy-remote-id');
+    expect(mockStorage.deleteInspectionFiles).toHaveBeenCalledWith('local-1');
+  });
+
+  it('should skip creates that already reached Firestore', async () => {
+    remoteIds['local-1'] = 'remote-inspection';
+    outbox = [
+      operation(1, 'local-1', 'CREATE_INSPECTION', {
+        client: 'Client', address: '1 Main St', claimNumber: 'CLM-1', inspectionDate: '2024-01-15', status: 'DRAFT',
+      }),
+    ];
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result.synced).toBe(1);
+    expect(mockFirestore.createInspection).not.toHaveBeenCalled();
+  });
+
+  it('should keep resolving server-assigned IDs for inspections synced before IDs were unified', async () => {
+    remoteIds['local-1'] = 'legacy-remote-id';
+    outbox = [operation(1, 'local-1', 'UPDATE_INSPECTION_STATUS', { status: 'READY' })];
+
+    await syncService.syncPendingOperations();
+
+    expect(mockFirestore.updateInspectionStatus).toHaveBeenCalledWith('legacy-remote-id', 'READY', undefined);
+  });
+
+  it('should hold back later operations for an inspection after a failure', async () => {
+    remoteIds['local-2'] = 'remote-2';
+    outbox = [
+      operation(1, 'local-1', 'CREATE_INSPECTION', {
+        client: 'Client', address: '1 Main St', claimNumber: 'CLM-1', inspectionDate: '2024-01-15', status: 'DRAFT',
+      }),
+      operation(2, 'local-1', 'UPDATE_INSPECTION_STATUS', { status: 'READY' }),
+      operation(3, 'local-2', 'UPDATE_INSPECTION_STATUS', { status: 'READY' }),
+    ];
+    mockFirestore.createInspection.mockRejectedValue(new Error('Network request failed'));
+
+    const result = await syncService.syncPendingOperations();
+
+    expect(result).toEqual({ synced: 1, failed: 1, remaining: 2 });
+    expect(mockDB.recordOperationFailure).toHaveBeenCalledWith('op-1', 'Network request failed');
+    expect(mockFirestore.updateInspectionStatus).toHaveBeenCalledTimes(1);
+    expect(mockFirestore.updateInspectionStatus).toHaveBeenCalledWith('remote-2', 'READY', undefined);
+    expect(outbox.map(op => op.id)).toEqual(['op-1', 'op-2']);
+  });
+
+  it('should sync when connectivity returns', async () => {
+    remoteIds['local-1'] = 'remote-1';
+    outbox = [operation(1, 'local-1', 'UPDATE_INSPECTION_STATUS', { status: 'READY' })];
+
+    syncService.start();
+    const listener = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+
+    listener({ isConnected: false, isInternetReachable: false });
+    expect(mockDB.getPendingOperations).not.toHaveBeenCalled();
+
+    listener({ isConnected: true, isInternetReachable: true });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockFirestore.updateInspectionStatus).toHaveBeenCalledWith('remote-1', 'READY', undefined);
+    syncService.stop();
+  });
+
+  it('should report the pending count to subscribers', async () => {
+    outbox = [operation(1, 'local-1', 'UPDATE_INSPECTION_STATUS', { status: 'READY' })];
+    const listener = jest.fn();
+
+    const unsubscribe = syncService.subscribe(listener);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(listener).toHaveBeenCalledWith(1);
+    unsubscribe();
+  });
+
+  describe('field-level merging', () => {
+    const NOW = 1705312800000;
+
+    beforeEach(() => {
+      remoteIds['local-1'] = 'local-1';
+      remoteIds['photo-1'] = 'photo-1';
+    });
+
+    it('should push a human caption over an AI caption', async () => {
+      const version = { updatedAt: NOW, source: 'HUMAN' as const };
+      outbox = [operation(1, 'local-1', 'UPDATE_PHOTO_CAPTION', { photoId: 'photo-1', caption: 'Hail damage', version })];
+      mockFirestore.getPhoto.mockResolvedValue({
+        caption: 'Roof overview',
+        fieldVersions: { caption: { updatedAt: NOW + 5000, source: 'AI' } },
+      } as any);
+
+      await syncService.syncPendingOperations();
+
+      expect(mockFirestore.updatePhotoCaption).toHaveBeenCalledWith('photo-1', 'Hail damage', version);
+    });
+
+    it('should take a newer server-side human caption instead of pushing', async () => {
+      const remoteVersion = { updatedAt: NOW + 3600000, source: 'HUMAN' as const };
+      outbox = [operation(1, 'local-1', 'UPDATE_PHOTO_CAPTION', {
+        photoId: 'photo-1', caption: 'Device caption', version: { updatedAt: NOW, source: 'HUMAN' },
+      })];
+      mockFirestore.getPhoto.mockResolvedValue({
+        caption: 'QA caption',
+        fieldVersions: { caption: remoteVersion },
+      } as any);
+
+      const result = await syncService.syncPendingOperations();
+
+      expect(result.remaining).toBe(0);
+      expect(mockFirestore.updatePhotoCaption).not.toHaveBeenCalled();
+      expect(mockDB.setPhotoField).toHaveBeenCalledWith('photo-1', 'caption', 'QA caption', remoteVersion);
+    });
+
+    it('should record a conflict for concurrent human edits and not overwrite either side', async () => {
+      outbox = [operation(1, 'local-1', 'UPDATE_PHOTO_CAPTION', {
+        photoId: 'photo-1', caption: 'Device caption', version: { updatedAt: NOW, source: 'HUMAN' },
+      })];
+      mockFirestore.getPhoto.mockResolvedValue({
+        caption: 'QA caption',
+        fieldVersions: { caption: { updatedAt: NOW + 2000, source: 'HUMAN' } },
+      } as any);
+
+      await syncService.syncPendingOperations();
+
+      expect(mockFirestore.updatePhotoCaption).not.toHaveBeenCalled();
+      expect(mockDB.setPhotoField).not.toHaveBeenCalled();
+      expect(mockDB.recordConflict).toHaveBeenCalledWith(expect.objectContaining({
+        inspection_id: 'local-1',
+        entity_type: 'PHOTO',
+        entity_id: 'photo-1',
+        field: 'caption',
+        local_value: 'Device caption',
+        remote_value: 'QA caption',
+      }));
+    });
+
+    it('should merge server edits into the local copy when pulling', async () => {
+      mockDB.getInspection.mockResolvedValue({
+        id: 'local-1', remote_id: 'local-1', client: 'Client', address: '1 Main St',
+        claim_number: 'CLM-1', status: 'DRAFT',
+      } as any);
+      mockDB.getPhotosForInspection.mockResolvedValue([
+        { id: 'photo-1', remote_id: 'photo-1', caption: 'AI caption',
+          field_versions: JSON.stringify({ caption: { updatedAt: NOW, source: 'AI' } }) },
+      ] as any);
+      mockFirestore.getInspection.mockResolvedValue({
+        client: 'Client Corp', address: '1 Main St', claimNumber: 'CLM-1', status: 'DRAFT',
+        fieldVersions: { client: { updatedAt: NOW, source: 'HUMAN' } },
+      } as any);
+      mockFirestore.getPhotosForInspection.mockResolvedValue([
+        { id: 'photo-1', caption: 'QA caption', fieldVersions: { caption: { updatedAt: NOW - 1000, source: 'HUMAN' } } },
+      ] as any);
+
+      const conflicts = await syncService.pullInspection('local-1');
+
+      expect(conflicts).toBe(0);
+      expect(mockDB.setInspectionField).toHaveBeenCalledWith(
+        'local-1', 'client', 'Client Corp', { updatedAt: NOW, source: 'HUMAN' }
+      );
+      expect(mockDB.setPhotoField).toHaveBeenCalledWith(
+        'photo-1', 'caption', 'QA caption', { updatedAt: NOW - 1000, source: 'HUMAN' }
+      );
+    });
+
+    it('should take marker captions written by analysis', async () => {
+      mockDB.getInspection.mockResolvedValue({ id: 'local-1', remote_id: 'local-1' } as any);
+      mockDB.getPhotosForInspection.mockResolvedValue([]);
+      mockDB.getMarkersForInspection.mockResolvedValue([
+        { id: 'marker-1', label: 'North elevation' },
+        { id: 'marker-2', caption: 'Kitchen ceiling stain' },
+      ] as any);
+      mockFirestore.getInspection.mockResolvedValue({ status: 'READY' } as any);
+      mockFirestore.getPhotosForInspection.mockResolvedValue([]);
+      mockFirestore.getMarkersForInspection.mockResolvedValue([
+        { id: 'marker-1', caption: 'Start of north elevation, brick veneer' },
+        { id: 'marker-2', caption: 'Kitchen ceiling stain' },
+      ] as any);
+
+      await syncService.pullInspection('local-1');
+
+      expect(mockDB.updateMarkerCaption).toHaveBeenCalledTimes(1);
+      expect(mockDB.updateMarkerCaption).toHaveBeenCalledWith('marker-1', 'Start of north elevation, brick veneer');
+    });
+
+    it('should keep an area picked on the camera over an inferred one', async () => {
+      const remoteVersion = { updatedAt: NOW - 60000, source: 'HUMAN' as const };
+      outbox = [operation(1, 'local-1', 'UPDATE_PHOTO_AREA', {
+        photoId: 'photo-1', area: 'Kitchen', version: { updatedAt: NOW, source: 'AI' },
+      })];
+      mockFirestore.getPhoto.mockResolvedValue({ area: 'Laundry', fieldVersions: { area: remoteVersion } } as any);
+
+      await syncService.syncPendingOperations();
+
+      expect(mockFirestore.updatePhotoArea).not.toHaveBeenCalled();
+      expect(mockDB.setPhotoField).toHaveBeenCalledWith('photo-1', 'area', 'Laundry', remoteVersion);
+    });
+
+    it('should take area proposals from analysis until the engineer has reviewed them', async () => {
+      const proposal = { id: 'area-1', audioTimestamp: 60000, area: 'Kitchen', phrase: 'moving to the kitchen' };
+      mockDB.getPhotosForInspection.mockResolvedValue([]);
+      mockFirestore.getPhotosForInspection.mockResolvedValue([]);
+      mockFirestore.getInspection.mockResolvedValue({
+        status: 'READY', areaProposals: [{ ...proposal, status: 'PROPOSED' }],
+      } as any);
+
+      mockDB.getInspection.mockResolvedValue({ id: 'local-1', remote_id: 'local-1' } as any);
+      await syncService.pullInspection('local-1');
+      expect(mockDB.updateInspectionAreaProposals).toHaveBeenCalledWith('local-1', [{ ...proposal, status: 'PROPOSED' }]);
+
+      mockDB.updateInspectionAreaProposals.mockClear();
+      mockDB.getInspection.mockResolvedValue({
+        id: 'local-1', remote_id: 'local-1', area_proposals: JSON.stringify([{ ...proposal, status: 'REJECTED' }]),
+      } as any);
+      await syncService.pullInspection('local-1');
+      expect(mockDB.updateInspectionAreaProposals).not.toHaveBeenCalled();
+    });
+
+    it('should not pull inspections that were never synced', async () => {
+      mockDB.getInspection.mockResolvedValue({ id: 'local-2' } as any);
+
+      expect(await syncService.pullInspection('local-2')).toBe(0);
+      expect(mockFirestore.getInspection).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
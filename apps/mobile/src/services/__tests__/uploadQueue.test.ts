@@ -0,0 +1,271 @@
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { UploadQueueService, getRetryDelay, MAX_UPLOAD_ATTEMPTS, MAX_RETRY_DELAY_MS } from '../uploadQueue';
+import { inspectionDB } from '../../database';
+import { firebaseStorage } from '../firebaseStorage';
+import { inspectionRepository } from '../inspectionRepository';
+import { DatabaseUploadTask } from '../../types';
+
+jest.mock('../../database', () => ({
+  inspectionDB: {
+    getSetting: jest.fn(),
+    setSetting: jest.fn(),
+    enqueueUpload: jest.fn(),
+    getDueUploads: jest.fn(),
+    getNextUploadAttemptAt: jest.fn(),
+    getUploadsByStatus: jest.fn(),
+    getUploadCount: jest.fn(),
+    completeUpload: jest.fn(),
+    recordUploadFailure: jest.fn(),
+    retryUpload: jest.fn(),
+    getPhoto: jest.fn(),
+    getVideoClip: jest.fn(),
+    getAudioChunk: jest.fn(),
+  },
+}));
+
+jest.mock('../firebaseStorage', () => ({
+  firebaseStorage: {
+    uploadPhoto: jest.fn(),
+    uploadAudio: jest.fn(),
+    uploadVideo: jest.fn(),
+    deleteFile: jest.fn(),
+  },
+}));
+
+jest.mock('../inspectionRepository', () => ({
+  inspectionRepository: {
+    updatePhotoFirebaseUrl: jest.fn(),
+    updateAudioChunkFirebaseUrl: jest.fn(),
+    updateVideoClipFirebaseUrl: jest.fn(),
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  getInfoAsync: jest.fn(),
+}));
+
+const mockDB = inspectionDB as jest.Mocked<typeof inspectionDB>;
+const mockStorage = firebaseStorage as jest.Mocked<typeof firebaseStorage>;
+const mockRepository = inspectionRepository as jest.Mocked<typeof inspectionRepository>;
+const mockFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+
+const NOW = 1705312800000;
+
+const task = (overrides: Partial<DatabaseUploadTask> = {}): DatabaseUploadTask => ({
+  id: 'PHOTO:photo-1',
+  inspection_id: 'insp-1',
+  kind: 'PHOTO',
+  entity_id: 'photo-1',
+  local_uri: 'file://photo-1.jpg',
+  status: 'PENDING',
+  attempts: 0,
+  next_attempt_at: NOW,
+  created_at: NOW,
+  updated_at: NOW,
+  ...overrides,
+});
+
+describe('UploadQueueService', () => {
+  let uploadQueue: UploadQueueService;
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  const setNetwork = (state: object) => {
+    const listener = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+    listener({ isConnected: true, isInternetReachable: true, ...state });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    uploadQueue = new UploadQueueService();
+
+    mockDB.getSetting.mockResolvedValue(null);
+    mockDB.getDueUploads.mockResolvedValue([]);
+    mockDB.getNextUploadAttemptAt.mockResolvedValue(null);
+    mockDB.getUploadCount.mockResolvedValue(0);
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: true } as any);
+    mockDB.getPhoto.mockResolvedValue({ id: 'photo-1' } as any);
+    mockDB.getVideoClip.mockResolvedValue({ id: 'clip-1' } as any);
+    mockDB.getAudioChunk.mockResolvedValue({ id: 'insp-1:2' } as any);
+  });
+
+  afterEach(() => {
+    uploadQueue.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after each failure up to the cap', () => {
+      expect(getRetryDelay(1)).toBe(5000);
+      expect(getRetryDelay(2)).toBe(10000);
+      expect(getRetryDelay(3)).toBe(20000);
+      expect(getRetryDelay(20)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+
+  it('should upload a photo and record its URL locally and for Firestore', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'cellular' });
+    await flush();
+    mockDB.getDueUploads.mockResolvedValueOnce([task()]);
+    mockStorage.uploadPhoto.mockResolvedValue({ downloadUrl: 'https://storage/photo-1.jpg', filePath: 'p' });
+
+    await uploadQueue.processQueue();
+
+    expect(mockStorage.uploadPhoto).toHaveBeenCalledWith('file://photo-1.jpg', 'insp-1', 'photo-1');
+    expect(mockRepository.updatePhotoFirebaseUrl).toHaveBeenCalledWith('photo-1', 'https://storage/photo-1.jpg');
+    expect(mockDB.completeUpload).toHaveBeenCalledWith('PHOTO:photo-1');
+  });
+
+  it('should record the URL of an uploaded audio chunk on the chunk', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'wifi' });
+    await flush();
+    mockDB.getDueUploads.mockResolvedValueOnce([
+      task({
+        id: 'AUDIO_CHUNK:insp-1:2',
+        kind: 'AUDIO_CHUNK',
+        entity_id: 'insp-1:2',
+        local_uri: 'file://inspection_audio_insp-1_2.m4a',
+      }),
+    ]);
+    mockStorage.uploadAudio.mockResolvedValue({ downloadUrl: 'https://storage/chunk-2.m4a', filePath: 'c' });
+
+    await uploadQueue.processQueue();
+
+    expect(mockStorage.uploadAudio).toHaveBeenCalledWith('file://inspection_audio_insp-1_2.m4a', 'insp-1');
+    expect(mockRepository.updateAudioChunkFirebaseUrl).toHaveBeenCalledWith('insp-1:2', 'https://storage/chunk-2.m4a');
+    expect(mockDB.completeUpload).toHaveBeenCalledWith('AUDIO_CHUNK:insp-1:2');
+  });
+
+  it('should upload a video clip and record its URL on the clip', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'wifi' });
+    await flush();
+    mockDB.getDueUploads.mockResolvedValueOnce([
+      task({
+        id: 'VIDEO:clip-1',
+        kind: 'VIDEO',
+        entity_id: 'clip-1',
+        local_uri: 'file://inspection_clip_insp-1_1705312800000.mov',
+      }),
+    ]);
+    mockStorage.uploadVideo.mockResolvedValue({ downloadUrl: 'https://storage/clip-1.mov', filePath: 'v' });
+
+    await uploadQueue.processQueue();
+
+    expect(mockStorage.uploadVideo).toHaveBeenCalledWith('file://inspection_clip_insp-1_1705312800000.mov', 'insp-1', 'clip-1');
+    expect(mockRepository.updateVideoClipFirebaseUrl).toHaveBeenCalledWith('clip-1', 'https://storage/clip-1.mov');
+    expect(mockDB.completeUpload).toHaveBeenCalledWith('VIDEO:clip-1');
+  });
+
+  it('should remove the uploaded file when its inspection was deleted during the upload', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'wifi' });
+    await flush();
+    mockDB.getDueUploads.mockResolvedValueOnce([task()]);
+    mockStorage.uploadPhoto.mockImplementation(async () => {
+      // The inspection and its Storage folder are deleted while the bytes are in flight
+      mockDB.getPhoto.mockResolvedValue(null);
+      return { downloadUrl: 'https://storage/photo-1.jpg', filePath: 'inspection-files/insp-1/photo_photo-1.jpg' };
+    });
+
+    await uploadQueue.processQueue();
+
+    expect(mockStorage.deleteFile).toHaveBeenCalledWith('inspection-files/insp-1/photo_photo-1.jpg');
+    expect(mockRepository.updatePhotoFirebaseUrl).not.toHaveBeenCalled();
+    expect(mockDB.completeUpload).toHaveBeenCalledWith('PHOTO:photo-1');
+    expect(mockDB.recordUploadFailure).not.toHaveBeenCalled();
+  });
+
+  it('should back off after a failure and give up after the last attempt', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'wifi' });
+    await flush();
+    mockDB.getDueUploads
+      .mockResolvedValueOnce([task({ attempts: 2 })])
+      .mockResolvedValueOnce([task({ attempts: MAX_UPLOAD_ATTEMPTS - 1 })]);
+    mockStorage.uploadPhoto.mockRejectedValue(new Error('Network request failed'));
+
+    await uploadQueue.processQueue();
+    await uploadQueue.processQueue();
+
+    expect(mockDB.recordUploadFailure).toHaveBeenNthCalledWith(
+      1, 'PHOTO:photo-1', 'Network request failed', NOW + getRetryDelay(3)
+    );
+    expect(mockDB.recordUploadFailure).toHaveBeenNthCalledWith(2, 'PHOTO:photo-1', 'Network request failed', null);
+    expect(mockDB.completeUpload).not.toHaveBeenCalled();
+  });
+
+  it('should fail permanently when the local file is gone', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'wifi' });
+    await flush();
+    mockDB.getDueUploads.mockResolvedValueOnce([task()]);
+    mockFileSystem.getInfoAsync.mockResolvedValue({ exists: false } as any);
+
+    await uploadQueue.processQueue();
+
+    expect(mockStorage.uploadPhoto).not.toHaveBeenCalled();
+    expect(mockDB.recordUploadFailure).toHaveBeenCalledWith(
+      'PHOTO:photo-1', 'Local file is missing: file://photo-1.jpg', null
+    );
+  });
+
+  it('should hold uploads while offline and on cellular when set to Wi-Fi only', async () => {
+    mockDB.getSetting.mockResolvedValue('WIFI_ONLY');
+    await uploadQueue.start();
+
+    await uploadQueue.enqueuePhotoUpload('insp-1', 'photo-1', 'file://photo-1.jpg');
+    setNetwork({ isConnected: false, type: 'none' });
+    setNetwork({ type: 'cellular' });
+
+    expect(mockDB.enqueueUpload).toHaveBeenCalledWith({
+      id: 'PHOTO:photo-1',
+      inspection_id: 'insp-1',
+      kind: 'PHOTO',
+      entity_id: 'photo-1',
+      local_uri: 'file://photo-1.jpg',
+    });
+    expect(mockDB.getDueUploads).not.toHaveBeenCalled();
+
+    setNetwork({ type: 'wifi' });
+    await flush();
+
+    expect(mockDB.getDueUploads).toHaveBeenCalled();
+  });
+
+  it('should persist the network policy and resume uploads when allowed', async () => {
+    await uploadQueue.start();
+    setNetwork({ type: 'cellular' });
+    await uploadQueue.setNetworkPolicy('WIFI_ONLY');
+    mockDB.getDueUploads.mockClear();
+
+    await uploadQueue.setNetworkPolicy('ANY');
+
+    expect(mockDB.setSetting).toHaveBeenLastCalledWith('upload_network_policy', 'ANY');
+    expect(uploadQueue.getNetworkPolicy()).toBe('ANY');
+    expect(mockDB.getDueUploads).toHaveBeenCalled();
+  });
+
+  it('should reset failed uploads on retry', async () => {
+    mockDB.getUploadsByStatus.mockResolvedValue([task({ status: 'FAILED', attempts: MAX_UPLOAD_ATTEMPTS })]);
+
+    await uploadQueue.retryFailedUploads();
+
+    expect(mockDB.getUploadsByStatus).toHaveBeenCalledWith('FAILED');
+    expect(mockDB.retryUpload).toHaveBeenCalledWith('PHOTO:photo-1');
+  });
+
+  it('should report pending and failed counts to subscribers', async () => {
+    mockDB.getUploadCount.mockImplementation(async status => (status === 'PENDING' ? 3 : 1));
+    const listener = jest.fn();
+
+    uploadQueue.subscribe(listener);
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith({ pending: 3, failed: 1 });
+  });
+});
@@ -0,0 +1,83 @@
+import { FieldSource, FieldVersion, FieldVersions } from '../types';
+
+/**
+ * Device clocks drift; two human edits closer together than this can't be
+ * ordered reliably, so they become a conflict instead of "newest wins"
+ */
+export const CLOCK_SKEW_TOLERANCE_MS = 60 * 1000;
+
+export type MergeOutcome = 'EQUAL' | 'LOCAL' | 'REMOTE' | 'CONFLICT';
+
+export interface VersionedValue {
+  value: string | null | undefined;
+  version?: FieldVersion;
+}
+
+// Values written before versioning count as the oldest possible AI value
+export const UNVERSIONED: FieldVersion = { updatedAt: 0, source: 'AI' };
+
+/**
+ * Build the version stamp for a write made now
+ */
+export const createFieldVersion = (source: FieldSource, basedOn?: FieldVersion): FieldVersion => {
+  const version: FieldVersion = { updatedAt: Date.now(), source };
+  // Firestore rejects undefined values, so only set basedOn when known
+  if (basedOn) {
+    version.basedOn = basedOn.updatedAt;
+  }
+  return version;
+};
+
+/**
+ * Decode a JSON field_versions column
+ */
+export const parseFieldVersions = (json?: string | null): FieldVersions => {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(json) as FieldVersions;
+  } catch (error) {
+    console.error('Failed to parse field versions:', error);
+    return {};
+  }
+};
+
+/**
+ * Decide which side of a field wins when the device and Firestore disagree
+ *
+ * 1. Human edits beat AI-generated values
+ * 2. An edit made on top of the other side's version wins
+ * 3. Between AI values, the newer one wins
+ * 4. Between human edits, the newer one wins unless they are too close to order,
+ *    in which case the merge isn't safe and a conflict is reported
+ */
+export const resolveField = (local: VersionedValue, remote: VersionedValue): MergeOutcome => {
+  if ((local.value ?? null) === (remote.value ?? null)) {
+    return 'EQUAL';
+  }
+
+  const localVersion = local.version ?? UNVERSIONED;
+  const remoteVersion = remote.version ?? UNVERSIONED;
+
+  if (localVersion.source !== remoteVersion.source) {
+    return localVersion.source === 'HUMAN' ? 'LOCAL' : 'REMOTE';
+  }
+
+  if (localVersion.basedOn !== undefined && localVersion.basedOn >= remoteVersion.updatedAt) {
+    return 'LOCAL';
+  }
+  if (remoteVersion.basedOn !== undefined && remoteVersion.basedOn >= localVersion.updatedAt) {
+    return 'REMOTE';
+  }
+
+  if (localVersion.source === 'AI') {
+    return localVersion.updatedAt > remoteVersion.updatedAt ? 'LOCAL' : 'REMOTE';
+  }
+
+  if (Math.abs(localVersion.updatedAt - remoteVersion.updatedAt) <= CLOCK_SKEW_TOLERANCE_MS) {
+    return 'CONFLICT';
+  }
+  return localVersion.updatedAt > remoteVersion.updatedAt ? 'LOCAL' : 'REMOTE';
+};
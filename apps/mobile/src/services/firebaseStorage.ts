@@ -1,22 +1,39 @@
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { ref, uploadBytes, getDownloadURL, deleteObject, listAll } from 'firebase/storage';
 import { storage } from '../config/firebase';
 import * as FileSystem from 'expo-file-system';
+import { inspectionDB } from '../database';
+import { DatabaseUploadSession } from '../types';
 
 export interface UploadResult {
   downloadUrl: string;
   filePath: string;
 }
 
+export interface UploadProgress {
+  filePath: string;
+  inspectionId: string;
+  bytesUploaded: number;
+  totalBytes: number;
+}
+
+type UploadProgressListener = (progress: UploadProgress) => void;
+
 export class FirebaseStorageService {
   private bucketName = 'inspection-files';
+  private uploadEndpoint = 'https://firebasestorage.googleapis.com/v0/b';
+  private chunkSize = 1024 * 1024; // Must be a multiple of 256 KiB for resumable uploads
+  private progressListeners = new Set<UploadProgressListener>();
 
   /**
-   * Upload a file to Firebase Cloud Storage using fetch and blob
+   * Upload a file to Firebase Cloud Storage in resumable chunks
+   * The upload session is persisted, so if the app is killed or the network
+   * drops, uploading the same file again continues from the last confirmed byte
    */
   async uploadFile(
     localUri: string,
     fileName: string,
-    inspectionId: string
+    inspectionId: string,
+    onProgress?: UploadProgressListener
   ): Promise<UploadResult> {
     try {
       console.log('Starting file upload:', fileName);
@@ -27,73 +44,291 @@ export class FirebaseStorageService {
       if (!fileInfo.exists) {
         throw new Error(`File does not exist: ${localUri}`);
       }
-      console.log('File exists, size:', fileInfo.size);
+      const totalBytes = fileInfo.size;
+      console.log('File exists, size:', totalBytes);
 
-      // Create storage reference
-      const storageRef = ref(storage, `${this.bucketName}/${inspectionId}/${fileName}`);
+      const filePath = `${this.bucketName}/${inspectionId}/${fileName}`;
+      let { session, isNew } = await this.getOrStartSession(filePath, inspectionId, localUri, totalBytes, fileName);
+      // A session from an earlier attempt is always queried: the server may have
+      // taken a chunk whose progress the app was killed before saving
+      let status = isNew ? { offset: 0, finalized: false } : await this.queryUploadStatus(session);
 
-      console.log('Storage ref created:', storageRef.fullPath);
+      if (!status) {
+        // Session expired on the server - start over with a fresh one
+        await inspectionDB.deleteUploadSession(filePath);
+        ({ session } = await this.getOrStartSession(filePath, inspectionId, localUri, totalBytes, fileName));
+        status = { offset: 0, finalized: false };
+      }
 
-      // Read file as blob using fetch
-      console.log('Reading file as blob...');
-      const response = await fetch(`file://${localUri}`);
-      const blob = await response.blob();
+      let { offset, finalized } = status;
+      if (offset > 0) {
+        console.log(`Resuming upload of ${filePath} at byte ${offset} of ${totalBytes}`);
+      }
+      this.emitProgress({ filePath, inspectionId, bytesUploaded: offset, totalBytes }, onProgress);
 
-      console.log('Blob created, size:', blob.size);
+      // Empty files still need one finalize request
+      while (!finalized) {
+        const length = Math.min(this.chunkSize, totalBytes - offset);
+        const isLastChunk = offset + length >= totalBytes;
+        const chunk = await this.readChunk(localUri, offset, length);
 
-      // Upload blob
-      console.log('Starting upload...');
-      const snapshot = await uploadBytes(storageRef, blob);
+        const response = await fetch(session.upload_url, {
+          method: 'POST',
+          headers: {
+            'X-Goog-Upload-Command': isLastChunk ? 'upload, finalize' : 'upload',
+            'X-Goog-Upload-Offset': String(offset),
+          },
+          body: chunk,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Chunk upload failed: ${response.status} ${response.statusText}`);
+        }
 
+        offset += length;
+        await inspectionDB.updateUploadSessionProgress(filePath, offset);
+        this.emitProgress({ filePath, inspectionId, bytesUploaded: offset, totalBytes }, onProgress);
+
+        finalized = isLastChunk;
+      }
+
+      await inspectionDB.deleteUploadSession(filePath);
       console.log('Upload successful, getting download URL...');
 
       // Get download URL
-      const downloadUrl = await getDownloadURL(snapshot.ref);
+      const downloadUrl = await getDownloadURL(ref(storage, filePath));
 
       console.log('Download URL obtained:', downloadUrl);
 
       return {
         downloadUrl,
-        filePath: snapshot.ref.fullPath,
+        filePath,
       };
     } catch (error) {
       console.error('Failed to upload file:', error);
-      console.error('Error code:', error.code);
-      console.error('Error message:', error.message);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorCode = (error as { code?: string })?.code;
 
       // Check if it's a Firebase error
-      if (error.code) {
-        throw new Error(`Firebase error (${error.code}): ${error.message}`);
+      if (errorCode) {
+        throw new Error(`Firebase error (${errorCode}): ${errorMessage}`);
       } else {
-        throw new Error(`Upload failed: ${error.message}`);
+        throw new Error(`Upload failed: ${errorMessage}`);
       }
     }
   }
 
+  /**
+   * Subscribe to byte-level progress of every upload
+   */
+  subscribeToProgress(listener: UploadProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reuse the persisted session for this file, or open a new one
+   * isNew is true when the session was opened by this call, so nothing has been sent on it
+   */
+  private async getOrStartSession(
+    filePath: string,
+    inspectionId: string,
+    localUri: string,
+    totalBytes: number,
+    fileName: string
+  ): Promise<{ session: DatabaseUploadSession; isNew: boolean }> {
+    const existing = await inspectionDB.getUploadSession(filePath);
+    if (existing && existing.local_uri === localUri && existing.total_bytes === totalBytes) {
+      return { session: existing, isNew: false };
+    }
+    if (existing) {
+      // The local file changed since the session started - its bytes can't be reused
+      await inspectionDB.deleteUploadSession(filePath);
+    }
+
+    const contentType = this.getContentType(fileName);
+    const bucket = storage.app.options.storageBucket;
+    const response = await fetch(
+      `${this.uploadEndpoint}/${bucket}/o?name=${encodeURIComponent(filePath)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(totalBytes),
+          'X-Goog-Upload-Header-Content-Type': contentType,
+        },
+        body: JSON.stringify({ name: filePath, contentType }),
+      }
+    );
+
+    const uploadUrl = response.headers.get('X-Goog-Upload-URL');
+    if (!response.ok || !uploadUrl) {
+      throw new Error(`Failed to start upload session: ${response.status} ${response.statusText}`);
+    }
+
+    const session = {
+      storage_path: filePath,
+      inspection_id: inspectionId,
+      local_uri: localUri,
+      upload_url: uploadUrl,
+      content_type: contentType,
+      total_bytes: totalBytes,
+      bytes_uploaded: 0,
+    };
+    await inspectionDB.saveUploadSession(session);
+    console.log('Upload session started:', filePath);
+
+    return { session: { ...session, created_at: Date.now(), updated_at: Date.now() }, isNew: true };
+  }
+
+  /**
+   * Ask the server how many bytes it has for a session
+   * Returns null when the session no longer exists; any other error throws,
+   * keeping the session so a later attempt can still resume it
+   */
+  private async queryUploadStatus(
+    session: DatabaseUploadSession
+  ): Promise<{ offset: number; finalized: boolean } | null> {
+    const response = await fetch(session.upload_url, {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' },
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Upload status query failed: ${response.status} ${response.statusText}`);
+    }
+
+    if (response.headers.get('X-Goog-Upload-Status') === 'final') {
+      return { offset: session.total_bytes, finalized: true };
+    }
+
+    const received = Number(response.headers.get('X-Goog-Upload-Size-Received'));
+    return { offset: Number.isFinite(received) ? received : 0, finalized: false };
+  }
+
+  /**
+   * Read a byte range of a local file
+   */
+  private async readChunk(localUri: string, position: number, length: number): Promise<Uint8Array> {
+    if (length === 0) {
+      return new Uint8Array(0);
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(localUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position,
+      length,
+    });
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * Guess the MIME type from the file extension
+   */
+  private getContentType(fileName: string): string {
+    if (fileName.endsWith('.m4a')) return 'audio/mp4';
+    if (fileName.endsWith('.jpg') || fileName.endsWith('.jpeg')) return 'image/jpeg';
+    if (fileName.endsWith('.mp4')) return 'video/mp4';
+    if (fileName.endsWith('.mov')) return 'video/quicktime';
+    return 'application/octet-stream';
+  }
+
+  /**
+   * Report progress to the caller and to all subscribers
+   */
+  private emitProgress(progress: UploadProgress, onProgress?: UploadProgressListener): void {
+    onProgress?.(progress);
+    this.progressListeners.forEach(listener => listener(progress));
+  }
+
   /**
    * Upload audio file
+   * Named after the local recording so a retried upload resumes the same session
    */
-  async uploadAudio(audioUri: string, inspectionId: string): Promise<UploadResult> {
-    const fileName = `audio_${Date.now()}.m4a`;
-    return this.uploadFile(audioUri, fileName, inspectionId);
+  async uploadAudio(
+    audioUri: string,
+    inspectionId: string,
+    onProgress?: UploadProgressListener
+  ): Promise<UploadResult> {
+    const localName = audioUri.split('/').pop()?.replace(/\.m4a$/, '') || 'recording';
+    const fileName = `audio_${localName}.m4a`;
+    return this.uploadFile(audioUri, fileName, inspectionId, onProgress);
   }
 
   /**
    * Upload photo file
+   * Named after the photo ID so a retried upload overwrites rather than duplicates
+   */
+  async uploadPhoto(
+    photoUri: string,
+    inspectionId: string,
+    photoId: string,
+    onProgress?: UploadProgressListener
+  ): Promise<UploadResult> {
+    const fileName = `photo_${photoId}.jpg`;
+    return this.uploadFile(photoUri, fileName, inspectionId, onProgress);
+  }
+
+  /**
+   * Upload video clip file
+   * Named after the clip ID so a retried upload overwrites rather than duplicates;
+   * keeps the container the camera recorded (.mov on iOS, .mp4 on Android)
+   */
+  async uploadVideo(
+    videoUri: string,
+    inspectionId: string,
+    clipId: string,
+    onProgress?: UploadProgressListener
+  ): Promise<UploadResult> {
+    const extension = videoUri.split('.').pop()?.toLowerCase() === 'mov' ? 'mov' : 'mp4';
+    const fileName = `video_${clipId}.${extension}`;
+    return this.uploadFile(videoUri, fileName, inspectionId, onProgress);
+  }
+
+  /**
+   * Delete an uploaded photo file
    */
-  async uploadPhoto(photoUri: string, inspectionId: string, photoId: string): Promise<UploadResult> {
-    const fileName = `photo_${photoId}_${Date.now()}.jpg`;
-    return this.uploadFile(photoUri, fileName, inspectionId);
+  async deletePhoto(inspectionId: string, photoId: string): Promise<void> {
+    await this.deleteFile(`${this.bucketName}/${inspectionId}/photo_${photoId}.jpg`);
+  }
+
+  /**
+   * Delete every file uploaded for an inspection: photos, audio and video clips
+   * Returns how many files were deleted; running it again after a failure
+   * only finds the files that are left
+   */
+  async deleteInspectionFiles(inspectionId: string): Promise<number> {
+    const { items } = await listAll(ref(storage, `${this.bucketName}/${inspectionId}`));
+    for (const item of items) {
+      await this.deleteFile(item.fullPath);
+    }
+    return items.length;
   }
 
   /**
    * Delete a file from Firebase Cloud Storage
+   * A file that was never uploaded or is already deleted counts as deleted
    */
   async deleteFile(filePath: string): Promise<void> {
     try {
       const fileRef = ref(storage, filePath);
       await deleteObject(fileRef);
     } catch (error) {
+      if ((error as { code?: string }).code === 'storage/object-not-found') {
+        return;
+      }
       console.error('Failed to delete file:', error);
       throw new Error(`Delete failed: ${error.message}`);
     }
@@ -1,7 +1,7 @@
 import {
   collection,
   doc,
-  addDoc,
+  setDoc,
   updateDoc,
   getDocs,
   getDoc,
@@ -10,10 +10,27 @@ import {
   orderBy,
   serverTimestamp,
   Timestamp,
-  deleteDoc
+  deleteDoc,
+  deleteField,
+  writeBatch,
+  DocumentReference
 } from 'firebase/firestore';
 import { firestore } from '../config/firebase';
-import { Inspection, Photo } from '../types';
+import {
+  AreaProposal,
+  AudioSpan,
+  DeletionCounts,
+  DeviceInfo,
+  Inspection,
+  Photo,
+  PhotoHeading,
+  PhotoLocation,
+  PhotoSource,
+  FieldVersion,
+  FieldVersions,
+  RecordingPause,
+  RecordingProfileId,
+} from '../types';
 
 export interface FirestoreInspection {
   id?: string;
@@ -23,11 +40,32 @@ export interface FirestoreInspection {
   inspectionDate: string;
   audioUri?: string;
   firebaseAudioUrl?: string;
+  audioPauses?: RecordingPause[];
+  audioSilences?: AudioSpan[];
+  audioChunks?: Record<string, FirestoreAudioChunk>; // Keyed by chunk index
+  audioSessions?: Record<string, FirestoreAudioSession>; // Keyed by session index
+  recordingProfile?: RecordingProfileId;
+  areas?: string[];
+  areaProposals?: AreaProposal[];
   status: 'DRAFT' | 'PROCESSING' | 'READY' | 'ERROR';
+  fieldVersions?: FieldVersions;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export interface FirestoreAudioChunk {
+  startOffset: number;
+  durationMs: number;
+  firebaseUrl?: string;
+}
+
+export interface FirestoreAudioSession {
+  startedAt: number;
+  startOffset: number;
+  endedAt?: number;
+  endOffset?: number;
+}
+
 export interface FirestorePhoto {
   id?: string;
   inspectionId: string;
@@ -36,29 +74,68 @@ export interface FirestorePhoto {
   timestamp: number;
   audioTimestamp: number;
   caption?: string;
+  sessionId?: string;
+  location?: PhotoLocation;
+  heading?: PhotoHeading;
+  device?: DeviceInfo;
+  area?: string;
+  source?: PhotoSource;
+  fieldVersions?: FieldVersions;
+  createdAt: Timestamp;
+}
+
+export interface FirestoreMarker {
+  id?: string;
+  inspectionId: string;
+  label?: string;
+  timestamp: number;
+  audioTimestamp: number;
+  caption?: string;
   createdAt: Timestamp;
 }
 
+export interface FirestoreVideoClip {
+  id?: string;
+  inspectionId: string;
+  videoUri: string;
+  firebaseUrl?: string;
+  timestamp: number;
+  audioTimestamp: number;
+  endAudioTimestamp: number;
+  sessionId?: string;
+  area?: string;
+  createdAt: Timestamp;
+}
+
+// Firestore's limit on writes in one batch
+const MAX_BATCH_WRITES = 500;
+
 export class FirestoreService {
   private inspectionsCollection = 'inspections';
   private photosCollection = 'photos';
+  private markersCollection = 'markers';
+  private videoClipsCollection = 'videoClips';
 
   /**
    * Create a new inspection in Firestore
+   * The document ID is generated on the device, so writing it again is harmless
    */
-  async createInspection(inspection: Omit<FirestoreInspection, 'createdAt' | 'updatedAt'>): Promise<string> {
+  async createInspection(
+    inspection: Omit<FirestoreInspection, 'id' | 'createdAt' | 'updatedAt'> & { id: string }
+  ): Promise<string> {
     try {
       console.log('Creating inspection in Firestore:', inspection);
 
+      const { id, ...fields } = inspection;
       const inspectionData = {
-        ...inspection,
+        ...fields,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       };
 
-      const docRef = await addDoc(collection(firestore, this.inspectionsCollection), inspectionData);
-      console.log('Inspection created in Firestore with ID:', docRef.id);
-      return docRef.id;
+      await setDoc(doc(firestore, this.inspectionsCollection, id), inspectionData, { merge: true });
+      console.log('Inspection created in Firestore with ID:', id);
+      return id;
     } catch (error) {
       console.error('Failed to create inspection in Firestore:', error);
       throw error;
@@ -67,25 +144,73 @@ export class FirestoreService {
 
   /**
    * Add a photo to an inspection in Firestore
+   * The document ID is generated on the device, so writing it again is harmless
    */
-  async addPhoto(photo: Omit<FirestorePhoto, 'createdAt'>): Promise<string> {
+  async addPhoto(photo: Omit<FirestorePhoto, 'id' | 'createdAt'> & { id: string }): Promise<string> {
     try {
       console.log('Adding photo to Firestore:', photo);
 
+      const { id, ...fields } = photo;
       const photoData = {
-        ...photo,
+        ...fields,
         createdAt: serverTimestamp(),
       };
 
-      const docRef = await addDoc(collection(firestore, this.photosCollection), photoData);
-      console.log('Photo added to Firestore with ID:', docRef.id);
-      return docRef.id;
+      await setDoc(doc(firestore, this.photosCollection, id), photoData, { merge: true });
+      console.log('Photo added to Firestore with ID:', id);
+      return id;
     } catch (error) {
       console.error('Failed to add photo to Firestore:', error);
       throw error;
     }
   }
 
+  /**
+   * Add a timeline marker to an inspection in Firestore
+   * The document ID is generated on the device, so writing it again is harmless
+   */
+  async addMarker(marker: Omit<FirestoreMarker, 'id' | 'createdAt'> & { id: string }): Promise<string> {
+    try {
+      console.log('Adding marker to Firestore:', marker);
+
+      const { id, ...fields } = marker;
+      const markerData = {
+        ...fields,
+        createdAt: serverTimestamp(),
+      };
+
+      await setDoc(doc(firestore, this.markersCollection, id), markerData, { merge: true });
+      console.log('Marker added to Firestore with ID:', id);
+      return id;
+    } catch (error) {
+      console.error('Failed to add marker to Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a video clip to an inspection in Firestore
+   * The document ID is generated on the device, so writing it again is harmless
+   */
+  async addVideoClip(clip: Omit<FirestoreVideoClip, 'id' | 'createdAt'> & { id: string }): Promise<string> {
+    try {
+      console.log('Adding video clip to Firestore:', clip);
+
+      const { id, ...fields } = clip;
+      const clipData = {
+        ...fields,
+        createdAt: serverTimestamp(),
+      };
+
+      await setDoc(doc(firestore, this.videoClipsCollection, id), clipData, { merge: true });
+      console.log('Video clip added to Firestore with ID:', id);
+      return id;
+    } catch (error) {
+      console.error('Failed to add video clip to Firestore:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all inspections from Firestore
    */
@@ -137,6 +262,29 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Get a specific photo by ID
+   */
+  async getPhoto(photoId: string): Promise<FirestorePhoto | null> {
+    try {
+      const docRef = doc(firestore, this.photosCollection, photoId);
+      const docSnap = await getDoc(docRef);
+
+      if (docSnap.exists()) {
+        return {
+          id: docSnap.id,
+          ...docSnap.data()
+        } as FirestorePhoto;
+      } else {
+        console.log('Photo not found:', photoId);
+        return null;
+      }
+    } catch (error) {
+      console.error('Failed to get photo from Firestore:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get photos for a specific inspection from Firestore
    */
@@ -167,13 +315,78 @@ export class FirestoreService {
   }
 
   /**
-   * Update inspection audio URI in Firestore
+   * Get markers for a specific inspection from Firestore in timeline order
    */
-  async updateInspectionAudioUrl(inspectionId: string, audioUri: string): Promise<void> {
+  async getMarkersForInspection(inspectionId: string): Promise<FirestoreMarker[]> {
+    try {
+      const q = query(
+        collection(firestore, this.markersCollection),
+        where('inspectionId', '==', inspectionId),
+        orderBy('audioTimestamp', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const markers: FirestoreMarker[] = [];
+
+      querySnapshot.forEach((doc) => {
+        markers.push({
+          id: doc.id,
+          ...doc.data()
+        } as FirestoreMarker);
+      });
+
+      console.log('Retrieved markers from Firestore:', markers.length);
+      return markers;
+    } catch (error) {
+      console.error('Failed to get markers from Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get video clips for a specific inspection from Firestore in timeline order
+   */
+  async getVideoClipsForInspection(inspectionId: string): Promise<FirestoreVideoClip[]> {
+    try {
+      const q = query(
+        collection(firestore, this.videoClipsCollection),
+        where('inspectionId', '==', inspectionId),
+        orderBy('audioTimestamp', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const clips: FirestoreVideoClip[] = [];
+
+      querySnapshot.forEach((doc) => {
+        clips.push({
+          id: doc.id,
+          ...doc.data()
+        } as FirestoreVideoClip);
+      });
+
+      console.log('Retrieved video clips from Firestore:', clips.length);
+      return clips;
+    } catch (error) {
+      console.error('Failed to get video clips from Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update inspection audio URI (and the pauses and silences on its timeline) in Firestore
+   */
+  async updateInspectionAudioUrl(
+    inspectionId: string,
+    audioUri: string,
+    audioPauses?: RecordingPause[],
+    audioSilences?: AudioSpan[]
+  ): Promise<void> {
     try {
       const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
       await updateDoc(docRef, {
         audioUri,
+        ...(audioPauses ? { audioPauses } : {}),
+        ...(audioSilences ? { audioSilences } : {}),
         updatedAt: serverTimestamp(),
       });
       console.log('Inspection audio URL updated in Firestore');
@@ -200,6 +413,97 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Update the areas offered for an inspection's photos in Firestore
+   */
+  async updateInspectionAreas(inspectionId: string, areas: string[]): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      await updateDoc(docRef, {
+        areas,
+        updatedAt: serverTimestamp(),
+      });
+      console.log('Inspection areas updated in Firestore');
+    } catch (error) {
+      console.error('Failed to update inspection areas in Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the area changes inferred from an inspection's transcript in Firestore
+   */
+  async updateAreaProposals(inspectionId: string, proposals: AreaProposal[]): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      await updateDoc(docRef, {
+        areaProposals: proposals,
+        updatedAt: serverTimestamp(),
+      });
+      console.log('Area proposals updated in Firestore');
+    } catch (error) {
+      console.error('Failed to update area proposals in Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a recording session of an inspection in Firestore
+   * Written again with the end once the session stops
+   */
+  async setAudioSession(inspectionId: string, sessionIndex: number, session: FirestoreAudioSession): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      await updateDoc(docRef, {
+        [`audioSessions.${sessionIndex}`]: session,
+        updatedAt: serverTimestamp(),
+      });
+      console.log('Audio session recorded in Firestore:', sessionIndex);
+    } catch (error) {
+      console.error('Failed to record audio session in Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a finalized audio chunk on its inspection
+   */
+  async setAudioChunk(
+    inspectionId: string,
+    chunkIndex: number,
+    chunk: Omit<FirestoreAudioChunk, 'firebaseUrl'>
+  ): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      await updateDoc(docRef, {
+        [`audioChunks.${chunkIndex}.startOffset`]: chunk.startOffset,
+        [`audioChunks.${chunkIndex}.durationMs`]: chunk.durationMs,
+        updatedAt: serverTimestamp(),
+      });
+      console.log('Audio chunk recorded in Firestore:', chunkIndex);
+    } catch (error) {
+      console.error('Failed to record audio chunk in Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the Firebase URL of an audio chunk in Firestore
+   */
+  async updateAudioChunkFirebaseUrl(inspectionId: string, chunkIndex: number, firebaseUrl: string): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      await updateDoc(docRef, {
+        [`audioChunks.${chunkIndex}.firebaseUrl`]: firebaseUrl,
+        updatedAt: serverTimestamp(),
+      });
+      console.log('Audio chunk Firebase URL updated in Firestore:', chunkIndex);
+    } catch (error) {
+      console.error('Failed to update audio chunk Firebase URL in Firestore:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update photo Firebase URL in Firestore
    */
@@ -216,14 +520,33 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Update the uploaded URL of a video clip in Firestore
+   */
+  async updateVideoClipFirebaseUrl(clipId: string, firebaseUrl: string): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.videoClipsCollection, clipId);
+      await updateDoc(docRef, {
+        firebaseUrl,
+      });
+      console.log('Video clip Firebase URL updated in Firestore');
+    } catch (error) {
+      console.error('Failed to update video clip Firebase URL in Firestore:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update photo caption in Firestore
+   * The version stamp records who wrote the caption so later merges can tell
+   * human edits from AI captions
    */
-  async updatePhotoCaption(photoId: string, caption: string): Promise<void> {
+  async updatePhotoCaption(photoId: string, caption: string, version?: FieldVersion): Promise<void> {
     try {
       const docRef = doc(firestore, this.photosCollection, photoId);
       await updateDoc(docRef, {
         caption,
+        ...(version ? { 'fieldVersions.caption': version } : {}),
       });
       console.log('Photo caption updated in Firestore');
     } catch (error) {
@@ -232,14 +555,49 @@ export class FirestoreService {
     }
   }
 
+  /**
+   * Update the area a photo is tagged with in Firestore, or clear it
+   * The version stamp tells an area picked by the engineer from an inferred one
+   */
+  async updatePhotoArea(photoId: string, area: string | null, version: FieldVersion): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.photosCollection, photoId);
+      await updateDoc(docRef, {
+        area: area ?? deleteField(),
+        'fieldVersions.area': version,
+      });
+      console.log('Photo area updated in Firestore');
+    } catch (error) {
+      console.error('Failed to update photo area in Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the caption generated for a marker in Firestore
+   */
+  async updateMarkerCaption(markerId: string, caption: string): Promise<void> {
+    try {
+      const docRef = doc(firestore, this.markersCollection, markerId);
+      await updateDoc(docRef, {
+        caption,
+      });
+      console.log('Marker caption updated in Firestore');
+    } catch (error) {
+      console.error('Failed to update marker caption in Firestore:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update inspection status in Firestore
    */
-  async updateInspectionStatus(inspectionId: string, status: string): Promise<void> {
+  async updateInspectionStatus(inspectionId: string, status: string, version?: FieldVersion): Promise<void> {
     try {
       const docRef = doc(firestore, this.inspectionsCollection, inspectionId);
       await updateDoc(docRef, {
         status,
+        ...(version ? { 'fieldVersions.status': version } : {}),
         updatedAt: serverTimestamp(),
       });
       console.log('Inspection status updated in Firestore');
@@ -250,26 +608,63 @@ export class FirestoreService {
   }
 
   /**
-   * Delete an inspection and all its photos
+   * Delete a photo
+   * Deleting a photo that is already gone does nothing, so a retried delete is harmless
+   */
+  async deletePhoto(photoId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(firestore, this.photosCollection, photoId));
+      console.log('Photo deleted from Firestore');
+    } catch (error) {
+      console.error('Failed to delete photo from Firestore:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an inspection and every photo, marker and video clip document that belongs to it
+   * Children are deleted in batches before the inspection itself, so a run that
+   * fails part way leaves nothing orphaned and running it again finishes the job
+   * Returns how many documents each collection lost
    */
-  async deleteInspection(inspectionId: string): Promise<void> {
+  async deleteInspection(inspectionId: string): Promise<DeletionCounts> {
     try {
-      // Delete all photos for this inspection
-      const photos = await this.getPhotosForInspection(inspectionId);
-      for (const photo of photos) {
-        if (photo.id) {
-          await deleteDoc(doc(firestore, this.photosCollection, photo.id));
+      const counts: DeletionCounts = {};
+      for (const collectionName of [this.photosCollection, this.markersCollection, this.videoClipsCollection]) {
+        const snapshot = await getDocs(query(
+          collection(firestore, collectionName),
+          where('inspectionId', '==', inspectionId)
+        ));
+        await this.deleteInBatches(snapshot.docs.map(child => child.ref));
+        if (snapshot.size > 0) {
+          counts[collectionName] = snapshot.size;
         }
       }
 
-      // Delete the inspection
-      await deleteDoc(doc(firestore, this.inspectionsCollection, inspectionId));
-      console.log('Inspection and photos deleted from Firestore');
+      const inspectionRef = doc(firestore, this.inspectionsCollection, inspectionId);
+      if ((await getDoc(inspectionRef)).exists()) {
+        await deleteDoc(inspectionRef);
+        counts[this.inspectionsCollection] = 1;
+      }
+
+      console.log('Inspection deleted from Firestore:', inspectionId, counts);
+      return counts;
     } catch (error) {
       console.error('Failed to delete inspection from Firestore:', error);
       throw error;
     }
   }
+
+  /**
+   * Delete documents in as few batched writes as Firestore allows
+   */
+  private async deleteInBatches(refs: DocumentReference[]): Promise<void> {
+    for (let start = 0; start < refs.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(firestore);
+      refs.slice(start, start + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+  }
 }
 
 export const firestoreService = new FirestoreService();
\ No newline at end of file
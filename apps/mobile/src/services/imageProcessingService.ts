@@ -0,0 +1,143 @@
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, ImageRef, SaveFormat } from 'expo-image-manipulator';
+import piexif from 'piexifjs';
+import { inspectionDB } from '../database';
+import { OriginalPhotoPolicy, Photo } from '../types';
+import { buildPhotoExif } from '../utils/photoExif';
+import {
+  fitWithin,
+  getPhotoVariantUri,
+  PhotoVariant,
+  THUMBNAIL_MAX_EDGE,
+  THUMBNAIL_QUALITY,
+  UPLOAD_MAX_EDGE,
+  UPLOAD_QUALITY,
+} from '../utils/photoFiles';
+
+const ORIGINAL_POLICY_SETTING = 'original_photo_policy';
+
+/**
+ * The files a captured photo is saved as
+ */
+export interface ProcessedPhoto {
+  uri: string;
+  thumbnailUri?: string;
+  originalUri?: string;
+}
+
+/**
+ * A captured photo file and what is known about when, where and how it was taken
+ */
+export type CapturedPhoto = Pick<Photo, 'uri' | 'timestamp' | 'location' | 'heading' | 'device'>;
+
+/**
+ * Turns a full-resolution capture into the resized copy that gets uploaded
+ * and a thumbnail for lists, and decides whether the capture itself is kept
+ */
+export class ImageProcessingService {
+  /**
+   * Get whether full-resolution captures are kept on the phone
+   */
+  async getOriginalPolicy(): Promise<OriginalPhotoPolicy> {
+    const savedPolicy = await inspectionDB.getSetting(ORIGINAL_POLICY_SETTING);
+    return savedPolicy === 'KEEP' ? 'KEEP' : 'DISCARD';
+  }
+
+  /**
+   * Choose whether full-resolution captures are kept on the phone
+   */
+  async setOriginalPolicy(policy: OriginalPhotoPolicy): Promise<void> {
+    await inspectionDB.setSetting(ORIGINAL_POLICY_SETTING, policy);
+  }
+
+  /**
+   * Make the upload copy and thumbnail of a capture and stamp the photo's metadata into its EXIF
+   * If the image can't be processed the capture itself is used, so the photo is never lost
+   */
+  async processPhoto(photo: CapturedPhoto): Promise<ProcessedPhoto> {
+    const processed = await this.resizeCapture(photo.uri);
+
+    // Resizing drops the EXIF, and the capture only has what the camera knew
+    await this.writeExif(processed.uri, photo);
+    if (processed.originalUri && processed.originalUri !== processed.uri) {
+      await this.writeExif(processed.originalUri, photo);
+    }
+
+    return processed;
+  }
+
+  /**
+   * Delete the capture once its photo is saved, unless it is still needed
+   */
+  async discardOriginal(captureUri: string, processed: ProcessedPhoto): Promise<void> {
+    if (processed.uri === captureUri || processed.originalUri === captureUri) {
+      return;
+    }
+
+    try {
+      await FileSystem.deleteAsync(captureUri, { idempotent: true });
+    } catch (error) {
+      console.error('Failed to delete original photo:', error);
+    }
+  }
+
+  /**
+   * Make the upload copy and thumbnail of a capture in the document directory
+   */
+  private async resizeCapture(captureUri: string): Promise<ProcessedPhoto> {
+    try {
+      const capture = await ImageManipulator.manipulate(captureUri).renderAsync();
+      const uploadImage = await this.resize(capture, UPLOAD_MAX_EDGE);
+      const uri = await this.save(uploadImage, captureUri, 'upload', UPLOAD_QUALITY);
+
+      // The thumbnail is made from the smaller upload copy
+      const thumbnailImage = await this.resize(uploadImage, THUMBNAIL_MAX_EDGE);
+      const thumbnailUri = await this.save(thumbnailImage, captureUri, 'thumb', THUMBNAIL_QUALITY);
+
+      const keepOriginal = await this.getOriginalPolicy() === 'KEEP';
+      return { uri, thumbnailUri, originalUri: keepOriginal ? captureUri : undefined };
+    } catch (error) {
+      console.error('Failed to process photo, keeping the original:', error);
+      return { uri: captureUri };
+    }
+  }
+
+  /**
+   * Scale an image down to fit within maxEdge
+   */
+  private async resize(image: ImageRef, maxEdge: number): Promise<ImageRef> {
+    return ImageManipulator.manipulate(image)
+      .resize(fitWithin(image, maxEdge))
+      .renderAsync();
+  }
+
+  /**
+   * Encode an image as JPEG and move it next to the capture
+   */
+  private async save(image: ImageRef, captureUri: string, variant: PhotoVariant, quality: number): Promise<string> {
+    const result = await image.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+    const uri = getPhotoVariantUri(captureUri, variant);
+    await FileSystem.moveAsync({ from: result.uri, to: uri });
+    return uri;
+  }
+
+  /**
+   * Merge a photo's time, location, heading and device into a JPEG's EXIF
+   * A file whose EXIF can't be read is left alone rather than losing what the camera wrote
+   */
+  private async writeExif(uri: string, photo: CapturedPhoto): Promise<void> {
+    try {
+      const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+      const jpeg = `data:image/jpeg;base64,${base64}`;
+      const exif = piexif.dump(buildPhotoExif(photo, piexif.load(jpeg)));
+      const updated = piexif.insert(exif, jpeg);
+      await FileSystem.writeAsStringAsync(uri, updated.slice(updated.indexOf(',') + 1), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    } catch (error) {
+      console.error('Failed to write photo EXIF:', uri, error);
+    }
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -1,12 +1,18 @@
 import { transcriptionService, TranscriptionResult } from './transcriptionService';
 import { llmCaptionService, CaptionRequest, CaptionResult } from './llmCaptionService';
-import { firestoreService } from './firestoreService';
-import { Photo, Inspection } from '../types';
+import { firestoreService, FirestoreAudioChunk, FirestoreInspection, FirestoreMarker, FirestorePhoto } from './firestoreService';
+import { createFieldVersion } from './conflictResolution';
+import { AreaProposal, Photo, Inspection, RecordingPause } from '../types';
+import { isWithinSpans } from '../utils/levelMonitor';
+import { getInspectionAreas } from '../utils/areas';
+import { detectAreaProposals, getProposedAreaAt } from '../utils/spokenAreas';
 
 export interface AnalysisResult {
   inspectionId: string;
   transcription: TranscriptionResult;
   photoCaptions: PhotoCaptionResult[];
+  markerCaptions: MarkerCaptionResult[];
+  areaProposals: AreaProposal[];
   status: 'COMPLETED' | 'FAILED' | 'PARTIAL';
   error?: string;
 }
@@ -19,6 +25,13 @@ export interface PhotoCaptionResult {
   timestamp: number;
 }
 
+export interface MarkerCaptionResult {
+  markerId: string;
+  caption: string;
+  audioContext: string;
+  timestamp: number;
+}
+
 export class InspectionAnalysisService {
   /**
    * Complete analysis pipeline: transcribe audio and generate captions for all photos
@@ -33,13 +46,12 @@ export class InspectionAnalysisService {
         throw new Error('Inspection not found');
       }
 
-      if (!inspection.firebaseAudioUrl) {
-        throw new Error('No audio file found for inspection');
-      }
-
-      // 2. Transcribe audio
+      // 2. Transcribe audio - segmented recordings are transcribed chunk by chunk
       console.log('Step 1: Transcribing audio...');
-      const transcription = await transcriptionService.transcribeAudio(inspection.firebaseAudioUrl);
+      const transcription = transcriptionService.removeSilentSegments(
+        await this.transcribeInspectionAudio(inspection),
+        inspection.audioSilences ?? []
+      );
       console.log('Audio transcription completed');
 
       // 3. Get all photos for this inspection
@@ -47,23 +59,52 @@ export class InspectionAnalysisService {
       const photos = await firestoreService.getPhotosForInspection(inspectionId);
       console.log('Found', photos.length, 'photos');
 
-      // 4. Generate captions for each photo
-      console.log('Step 3: Generating captions...');
+      // 4. Propose the area changes the engineer spoke and tag photos with them,
+      // keeping proposals the engineer has already reviewed
+      console.log('Step 3: Detecting spoken area changes...');
+      const reviewed = inspection.areaProposals?.some(proposal => proposal.status !== 'PROPOSED');
+      const areaProposals = reviewed && inspection.areaProposals
+        ? inspection.areaProposals
+        : detectAreaProposals(transcription.segments, getInspectionAreas(inspection));
+      if (!reviewed) {
+        await firestoreService.updateAreaProposals(inspectionId, areaProposals);
+      }
+      const taggedPhotos = await this.tagPhotosWithAreas(photos, areaProposals);
+      console.log('Proposed', areaProposals.length, 'area changes');
+
+      // 5. Generate captions for each photo
+      console.log('Step 4: Generating captions...');
       const photoCaptions = await this.generateCaptionsForPhotos(
-        photos,
+        taggedPhotos,
         transcription,
         {
           client: inspection.client,
           address: inspection.address,
           claimNumber: inspection.claimNumber,
-        }
+        },
+        inspection.audioPauses ?? []
       );
 
-      // 5. Update photos with captions in Firestore
-      console.log('Step 4: Updating photos with captions...');
+      // 6. Update photos with captions in Firestore
+      console.log('Step 5: Updating photos with captions...');
       await this.updatePhotosWithCaptions(photoCaptions);
 
-      // 6. Update inspection status
+      // 7. Caption timeline markers from the same transcript
+      console.log('Step 6: Captioning markers...');
+      const markers = await firestoreService.getMarkersForInspection(inspectionId);
+      const markerCaptions = await this.generateCaptionsForMarkers(
+        markers,
+        transcription,
+        {
+          client: inspection.client,
+          address: inspection.address,
+          claimNumber: inspection.claimNumber,
+        },
+        inspection.audioPauses ?? []
+      );
+      await this.updateMarkersWithCaptions(markerCaptions);
+
+      // 8. Update inspection status
       await firestoreService.updateInspectionStatus(inspectionId, 'READY');
 
       console.log('Analysis completed successfully');
@@ -72,6 +113,8 @@ export class InspectionAnalysisService {
         inspectionId,
         transcription,
         photoCaptions,
+        markerCaptions,
+        areaProposals,
         status: 'COMPLETED',
       };
 
@@ -90,34 +133,91 @@ export class InspectionAnalysisService {
         inspectionId,
         transcription: { text: '', segments: [], confidence: 0 },
         photoCaptions: [],
+        markerCaptions: [],
+        areaProposals: [],
         status: 'FAILED',
         error: errorMessage,
       };
     }
   }
 
+  /**
+   * Transcribe an inspection's audio, whether it was recorded in chunks or as one file
+   * Chunks that are nothing but silence are skipped
+   */
+  private async transcribeInspectionAudio(inspection: FirestoreInspection): Promise<TranscriptionResult> {
+    const allChunks = Object.values(inspection.audioChunks ?? {});
+    const chunks = allChunks.filter(chunk =>
+      !isWithinSpans(inspection.audioSilences ?? [], chunk.startOffset, chunk.startOffset + chunk.durationMs)
+    );
+    if (allChunks.length > 0) {
+      const uploaded = chunks.filter(
+        (chunk): chunk is FirestoreAudioChunk & { firebaseUrl: string } => !!chunk.firebaseUrl
+      );
+      if (uploaded.length < chunks.length) {
+        throw new Error(`Audio is still uploading (${uploaded.length} of ${chunks.length} chunks)`);
+      }
+      return transcriptionService.transcribeChunks(uploaded);
+    }
+
+    if (!inspection.firebaseAudioUrl) {
+      throw new Error('No audio file found for inspection');
+    }
+    return transcriptionService.transcribeAudio(inspection.firebaseAudioUrl);
+  }
+
+  /**
+   * Tag photos with the area the proposals put them in
+   * Areas the engineer picked on the camera are left alone
+   */
+  private async tagPhotosWithAreas(photos: FirestorePhoto[], proposals: AreaProposal[]): Promise<FirestorePhoto[]> {
+    return Promise.all(photos.map(async (photo) => {
+      if (!photo.id || (photo.area && photo.fieldVersions?.area?.source !== 'AI')) {
+        return photo;
+      }
+
+      const area = getProposedAreaAt(proposals, photo.audioTimestamp);
+      if (area === (photo.area ?? null)) {
+        return photo;
+      }
+
+      try {
+        await firestoreService.updatePhotoArea(photo.id, area, createFieldVersion('AI'));
+        return { ...photo, area: area ?? undefined };
+      } catch (error) {
+        console.error('Failed to update photo area:', photo.id, error);
+        return photo;
+      }
+    }));
+  }
+
   /**
    * Generate captions for all photos based on transcription
    */
   private async generateCaptionsForPhotos(
     photos: any[],
     transcription: TranscriptionResult,
-    inspectionDetails: { client: string; address: string; claimNumber: string }
+    inspectionDetails: { client: string; address: string; claimNumber: string },
+    audioPauses: RecordingPause[]
   ): Promise<PhotoCaptionResult[]> {
-    // Filter photos with valid IDs first
-    const validPhotos = photos.filter(photo => photo.id);
+    // Filter photos with valid IDs first, and never overwrite a caption a person wrote
+    const validPhotos = photos.filter(photo =>
+      photo.id && photo.fieldVersions?.caption?.source !== 'HUMAN'
+    );
     
     const captionRequests: CaptionRequest[] = validPhotos.map(photo => {
       const audioContext = transcriptionService.getContextAroundTimestamp(
         transcription.segments,
         photo.audioTimestamp,
-        3000 // 3 seconds context
+        3000, // 3 seconds context
+        audioPauses
       );
 
       return {
         photoTimestamp: photo.audioTimestamp,
         audioContext: audioContext || 'No audio context available',
         inspectionDetails,
+        ...(photo.area ? { area: photo.area } : {}),
       };
     });
 
@@ -140,10 +240,11 @@ export class InspectionAnalysisService {
   private async updatePhotosWithCaptions(photoCaptions: PhotoCaptionResult[]): Promise<void> {
     const updatePromises = photoCaptions.map(async (photoCaption) => {
       try {
-        // Update photo with caption in Firestore
+        // Update photo with caption in Firestore, stamped as AI-generated
         await firestoreService.updatePhotoCaption(
           photoCaption.photoId,
-          photoCaption.caption
+          photoCaption.caption,
+          createFieldVersion('AI')
         );
         console.log('Updated photo', photoCaption.photoId, 'with caption');
       } catch (error) {
@@ -155,6 +256,54 @@ export class InspectionAnalysisService {
     console.log('All photo captions updated in Firestore');
   }
 
+  /**
+   * Generate captions for timeline markers from the speech around them
+   */
+  private async generateCaptionsForMarkers(
+    markers: FirestoreMarker[],
+    transcription: TranscriptionResult,
+    inspectionDetails: { client: string; address: string; claimNumber: string },
+    audioPauses: RecordingPause[]
+  ): Promise<MarkerCaptionResult[]> {
+    const validMarkers = markers.filter(marker => marker.id);
+
+    const captionRequests: CaptionRequest[] = validMarkers.map(marker => ({
+      photoTimestamp: marker.audioTimestamp,
+      audioContext: transcriptionService.getContextAroundTimestamp(
+        transcription.segments,
+        marker.audioTimestamp,
+        3000,
+        audioPauses
+      ) || 'No audio context available',
+      inspectionDetails,
+      marker: { label: marker.label },
+    }));
+
+    console.log('Generating captions for', captionRequests.length, 'markers');
+
+    const captionResults = await llmCaptionService.generateCaptionsBatch(captionRequests);
+
+    return validMarkers.map((marker, index) => ({
+      markerId: marker.id!,
+      caption: captionResults[index]?.caption || marker.label || 'No caption generated',
+      audioContext: captionResults[index]?.context || 'No context',
+      timestamp: marker.audioTimestamp,
+    }));
+  }
+
+  /**
+   * Update markers in Firestore with generated captions
+   */
+  private async updateMarkersWithCaptions(markerCaptions: MarkerCaptionResult[]): Promise<void> {
+    await Promise.all(markerCaptions.map(async (markerCaption) => {
+      try {
+        await firestoreService.updateMarkerCaption(markerCaption.markerId, markerCaption.caption);
+      } catch (error) {
+        console.error('Failed to update marker caption:', markerCaption.markerId, error);
+      }
+    }));
+  }
+
   /**
    * Get analysis results for an inspection
    */
@@ -186,6 +335,8 @@ export class InspectionAnalysisService {
           audioContext: 'Context available',
           timestamp: photo.audioTimestamp,
         })),
+        markerCaptions: [],
+        areaProposals: inspection.areaProposals ?? [],
         status: 'COMPLETED',
       };
 
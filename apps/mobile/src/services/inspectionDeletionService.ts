@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { inspectionRepository } from './inspectionRepository';
+import { photoImportService } from './photoImportService';
+import { InspectionDeletionReport } from '../types';
+
+/**
+ * Deletes an inspection everywhere it is stored
+ * Records and files on the phone go straight away; the Firestore documents and
+ * Cloud Storage files are deleted by the sync service once the phone is online,
+ * so deleting works offline and a failed server delete is retried like any change
+ */
+export class InspectionDeletionService {
+  /**
+   * Delete an inspection with its photos (including trashed ones), markers,
+   * video clips, audio and pending uploads
+   * Safe to run again on an inspection that is already partly deleted
+   */
+  async deleteInspection(inspectionId: string): Promise<InspectionDeletionReport> {
+    // Gather file locations while the records pointing at them still exist
+    const uris = await this.findLocalFiles(inspectionId);
+
+    const records = await inspectionRepository.deleteInspection(inspectionId);
+    await photoImportService.clearClockOffset(inspectionId);
+
+    let files = 0;
+    let failedFiles = 0;
+    for (const uri of uris) {
+      try {
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists) {
+          continue;
+        }
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        files++;
+      } catch (error) {
+        console.error('Failed to delete inspection file:', uri, error);
+        failedFiles++;
+      }
+    }
+
+    const report = { records, files, failedFiles };
+    console.log('Inspection deleted from the device:', inspectionId, report);
+    return report;
+  }
+
+  /**
+   * Every file on the phone that belongs to an inspection
+   * Besides the files its records point at, this picks up files named after it
+   * that never made it into a record, e.g. a capture the app was killed saving
+   */
+  private async findLocalFiles(inspectionId: string): Promise<string[]> {
+    const inspection = await inspectionRepository.getInspection(inspectionId);
+    const trashed = await inspectionRepository.getTrashedPhotos(inspectionId);
+    const photos = [...(inspection?.photos ?? []), ...trashed];
+
+    const recorded = [
+      inspection?.audioUri,
+      ...photos.flatMap(photo => [photo.uri, photo.thumbnailUri, photo.originalUri]),
+      ...(inspection?.audioChunks ?? []).map(chunk => chunk.uri),
+      ...(inspection?.clips ?? []).map(clip => clip.uri),
+    ];
+
+    const directory = FileSystem.documentDirectory;
+    const named = directory
+      ? (await FileSystem.readDirectoryAsync(directory))
+        .filter(name => name.startsWith('inspection_') && name.includes(`_${inspectionId}_`))
+        .map(name => `${directory}${name}`)
+      : [];
+
+    return [...new Set([...recorded, ...named])].filter((uri): uri is string => !!uri);
+  }
+}
+
+export const inspectionDeletionService = new InspectionDeletionService();
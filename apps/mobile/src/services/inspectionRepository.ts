@@ -0,0 +1,830 @@
+import { inspectionDB } from '../database';
+import { syncService } from './syncService';
+import { generateId } from '../utils/id';
+import { createFieldVersion, parseFieldVersions } from './conflictResolution';
+import {
+  AreaProposal,
+  AudioChunk,
+  AudioSession,
+  AudioSpan,
+  DatabaseAudioChunk,
+  DatabaseAudioSession,
+  DatabaseConflict,
+  DatabaseInspection,
+  DatabaseMarker,
+  DatabasePhoto,
+  DatabaseVideoClip,
+  DeletionCounts,
+  FieldVersion,
+  Inspection,
+  Marker,
+  OutboxOperationType,
+  OutboxPayloads,
+  Photo,
+  PhotoQuality,
+  RecordingPause,
+  RecordingProfileId,
+  SyncConflict,
+  VideoClip,
+} from '../types';
+import { parseAudioPauses } from '../utils/recordingTimeline';
+import { parseAudioSpans } from '../utils/levelMonitor';
+import { getAudioChunkId } from '../utils/audioChunks';
+import { getAudioSessionId } from '../utils/audioSessions';
+import { addArea, getInspectionAreas, normalizeAreaName } from '../utils/areas';
+import { getProposedAreaAt } from '../utils/spokenAreas';
+
+// Operations that push a photo's record to the server, as opposed to deleting it
+const PHOTO_SYNC_OPERATIONS: OutboxOperationType[] = [
+  'ADD_PHOTO',
+  'UPDATE_PHOTO_CAPTION',
+  'UPDATE_PHOTO_AREA',
+  'UPDATE_PHOTO_FIREBASE_URL',
+];
+
+/**
+ * Offline-first access to inspections and photos
+ * Every write lands in SQLite together with an outbox operation in one
+ * transaction; the sync service pushes it to Firestore when it can
+ */
+export class InspectionRepository {
+  /**
+   * Create a new inspection locally
+   */
+  async createInspection(
+    inspection: Omit<Inspection, 'id' | 'photos' | 'createdAt' | 'updatedAt'>
+  ): Promise<Inspection> {
+    const inspectionId = generateId();
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.createInspection({
+        id: inspectionId,
+        client: inspection.client,
+        address: inspection.address,
+        claim_number: inspection.claimNumber,
+        inspection_date: inspection.inspectionDate,
+        audio_uri: inspection.audioUri,
+        firebase_audio_url: inspection.firebaseAudioUrl,
+        recording_profile: inspection.recordingProfile,
+        status: inspection.status,
+      });
+      await this.enqueue(inspectionId, 'CREATE_INSPECTION', {
+        client: inspection.client,
+        address: inspection.address,
+        claimNumber: inspection.claimNumber,
+        inspectionDate: inspection.inspectionDate,
+        status: inspection.status,
+        ...(inspection.recordingProfile ? { recordingProfile: inspection.recordingProfile } : {}),
+      });
+    });
+    syncService.requestSync();
+
+    const created = await this.getInspection(inspectionId);
+    if (!created) {
+      throw new Error(`Failed to read back inspection ${inspectionId}`);
+    }
+    return created;
+  }
+
+  /**
+   * Add a photo to an inspection locally
+   */
+  async addPhoto(inspectionId: string, photo: Omit<Photo, 'id'>): Promise<Photo> {
+    const photoId = generateId();
+    // An area picked on the camera is the engineer's call and wins over one inferred later
+    const areaVersion = photo.area ? createFieldVersion('HUMAN') : undefined;
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.addPhoto({
+        id: photoId,
+        inspection_id: inspectionId,
+        photo_uri: photo.uri,
+        timestamp: photo.timestamp,
+        audio_timestamp: photo.audioTimestamp,
+        caption: photo.caption,
+        session_id: photo.sessionId,
+        thumbnail_uri: photo.thumbnailUri,
+        original_uri: photo.originalUri,
+        location: photo.location ? JSON.stringify(photo.location) : undefined,
+        heading: photo.heading ? JSON.stringify(photo.heading) : undefined,
+        device: photo.device ? JSON.stringify(photo.device) : undefined,
+        area: photo.area,
+        source: photo.source,
+      });
+      if (photo.area && areaVersion) {
+        await inspectionDB.setPhotoField(photoId, 'area', photo.area, areaVersion);
+      }
+      await this.enqueue(inspectionId, 'ADD_PHOTO', {
+        photoId,
+        photoUri: photo.uri,
+        timestamp: photo.timestamp,
+        audioTimestamp: photo.audioTimestamp,
+        caption: photo.caption,
+        sessionId: photo.sessionId,
+        location: photo.location,
+        heading: photo.heading,
+        device: photo.device,
+        area: photo.area,
+        areaVersion,
+        source: photo.source,
+      });
+    });
+    syncService.requestSync();
+
+    return { id: photoId, ...photo };
+  }
+
+  /**
+   * Delete an inspection and everything recorded for it from the device, and
+   * queue deleting it from Firestore and Cloud Storage
+   * Its unsynced changes are dropped with it. Deleting again re-queues the server
+   * delete, so an inspection half deleted by a crash can be finished off
+   * Returns the rows removed by table; the caller deletes the files
+   */
+  async deleteInspection(inspectionId: string): Promise<DeletionCounts> {
+    const inspection = await inspectionDB.getInspection(inspectionId);
+    let counts: DeletionCounts = {};
+
+    await inspectionDB.runInTransaction(async () => {
+      counts = await inspectionDB.deleteInspection(inspectionId);
+      // Inspections created on the device keep their ID in Firestore
+      await this.enqueue(inspectionId, 'DELETE_INSPECTION', { remoteId: inspection?.remote_id ?? inspectionId });
+    });
+    syncService.requestSync();
+
+    return counts;
+  }
+
+  /**
+   * Move a photo to the trash and queue deleting its server copy and uploaded file
+   * The local files stay until the trash is emptied, so the photo can be restored
+   */
+  async trashPhoto(photoId: string): Promise<void> {
+    const photo = await this.requirePhoto(photoId);
+    if (photo.deleted_at) {
+      return;
+    }
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.trashPhoto(photoId, Date.now());
+      await inspectionDB.cancelUploads('PHOTO', photoId);
+      await this.enqueue(photo.inspection_id, 'DELETE_PHOTO', { photoId });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Take a photo out of the trash and queue adding it to the server again
+   * A delete that hasn't synced yet is dropped, so it can't remove the file uploaded again
+   * The caller queues the upload of its file
+   */
+  async restorePhoto(photoId: string): Promise<Photo> {
+    const row = await this.requirePhoto(photoId);
+    if (!row.deleted_at) {
+      throw new Error(`Photo is not in the trash: ${photoId}`);
+    }
+    const photo = toPhoto({ ...row, deleted_at: undefined });
+    const versions = parseFieldVersions(row.field_versions);
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.restorePhoto(photoId);
+      await inspectionDB.cancelPhotoOperations(photoId, ['DELETE_PHOTO']);
+      await this.enqueue(row.inspection_id, 'ADD_PHOTO', {
+        photoId,
+        photoUri: photo.uri,
+        timestamp: photo.timestamp,
+        audioTimestamp: photo.audioTimestamp,
+        caption: photo.caption,
+        sessionId: photo.sessionId,
+        location: photo.location,
+        heading: photo.heading,
+        device: photo.device,
+        area: photo.area,
+        areaVersion: versions.area,
+        captionVersion: versions.caption,
+        source: photo.source,
+      });
+    });
+    syncService.requestSync();
+
+    return photo;
+  }
+
+  /**
+   * Get an inspection's photos in the trash, most recently deleted first
+   */
+  async getTrashedPhotos(inspectionId: string): Promise<Photo[]> {
+    const photos = await inspectionDB.getTrashedPhotos(inspectionId);
+    return photos.map(toPhoto);
+  }
+
+  /**
+   * Get photos of any inspection that went in the trash at or before a time
+   */
+  async getPhotosTrashedBefore(deletedBefore: number): Promise<Photo[]> {
+    const photos = await inspectionDB.getPhotosTrashedBefore(deletedBefore);
+    return photos.map(toPhoto);
+  }
+
+  /**
+   * Forget a photo in the trash for good
+   * Its server copy was deleted, or queued for deleting, when it went in the trash;
+   * any other operation still waiting for it has nothing left to sync
+   */
+  async purgePhoto(photoId: string): Promise<void> {
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.cancelPhotoOperations(photoId, PHOTO_SYNC_OPERATIONS);
+      await inspectionDB.deletePhoto(photoId);
+    });
+  }
+
+  /**
+   * Drop a timeline marker on an inspection locally
+   */
+  async addMarker(inspectionId: string, marker: Omit<Marker, 'id' | 'caption'>): Promise<Marker> {
+    const markerId = generateId();
+    const label = marker.label?.trim() || undefined;
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.addMarker({
+        id: markerId,
+        inspection_id: inspectionId,
+        label,
+        timestamp: marker.timestamp,
+        audio_timestamp: marker.audioTimestamp,
+      });
+      await this.enqueue(inspectionId, 'ADD_MARKER', {
+        markerId,
+        label,
+        timestamp: marker.timestamp,
+        audioTimestamp: marker.audioTimestamp,
+      });
+    });
+    syncService.requestSync();
+
+    return { id: markerId, timestamp: marker.timestamp, audioTimestamp: marker.audioTimestamp, label };
+  }
+
+  /**
+   * Add a video clip to an inspection locally
+   */
+  async addVideoClip(inspectionId: string, clip: Omit<VideoClip, 'id' | 'firebaseUrl'>): Promise<VideoClip> {
+    const clipId = generateId();
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.addVideoClip({
+        id: clipId,
+        inspection_id: inspectionId,
+        video_uri: clip.uri,
+        timestamp: clip.timestamp,
+        audio_timestamp: clip.audioTimestamp,
+        end_audio_timestamp: clip.endAudioTimestamp,
+        session_id: clip.sessionId,
+        area: clip.area,
+      });
+      await this.enqueue(inspectionId, 'ADD_VIDEO_CLIP', {
+        clipId,
+        videoUri: clip.uri,
+        timestamp: clip.timestamp,
+        audioTimestamp: clip.audioTimestamp,
+        endAudioTimestamp: clip.endAudioTimestamp,
+        sessionId: clip.sessionId,
+        area: clip.area,
+      });
+    });
+    syncService.requestSync();
+
+    return { id: clipId, ...clip };
+  }
+
+  /**
+   * Update the uploaded URL of a video clip
+   */
+  async updateVideoClipFirebaseUrl(clipId: string, firebaseUrl: string): Promise<void> {
+    const clip = await inspectionDB.getVideoClip(clipId);
+    if (!clip) {
+      throw new Error(`Video clip not found: ${clipId}`);
+    }
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updateVideoClipFirebaseUrl(clipId, firebaseUrl);
+      await this.enqueue(clip.inspection_id, 'UPDATE_VIDEO_CLIP_FIREBASE_URL', { clipId, firebaseUrl });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Update the local audio file of an inspection and the pauses and silences on its timeline
+   */
+  async updateInspectionAudioUrl(
+    inspectionId: string,
+    audioUri: string,
+    audioPauses: RecordingPause[] = [],
+    audioSilences: AudioSpan[] = []
+  ): Promise<void> {
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updateInspectionAudio(inspectionId, audioUri);
+      await inspectionDB.updateInspectionAudioPauses(inspectionId, audioPauses);
+      await inspectionDB.updateInspectionAudioSilences(inspectionId, audioSilences);
+      await this.enqueue(inspectionId, 'UPDATE_INSPECTION_AUDIO_URI', { audioUri, audioPauses, audioSilences });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Replace the list of areas offered for an inspection's photos
+   * Photos already tagged with a removed area keep it
+   */
+  async updateInspectionAreas(inspectionId: string, areas: string[]): Promise<void> {
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updateInspectionAreas(inspectionId, areas);
+      await this.enqueue(inspectionId, 'UPDATE_INSPECTION_AREAS', { areas });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Confirm, correct or reject an area change inferred from the transcript
+   * A confirmed area joins the inspection's area list, and photos without an
+   * area picked on the camera are retagged from the proposals still standing
+   */
+  async reviewAreaProposal(
+    inspectionId: string,
+    proposalId: string,
+    status: 'CONFIRMED' | 'REJECTED',
+    correctedArea?: string
+  ): Promise<void> {
+    const inspection = await inspectionDB.getInspection(inspectionId);
+    if (!inspection) {
+      throw new Error(`Inspection not found: ${inspectionId}`);
+    }
+    const proposals: AreaProposal[] = inspection.area_proposals ? JSON.parse(inspection.area_proposals) : [];
+    const proposal = proposals.find(candidate => candidate.id === proposalId);
+    if (!proposal) {
+      throw new Error(`Area proposal not found: ${proposalId}`);
+    }
+
+    const area = correctedArea ? normalizeAreaName(correctedArea) : proposal.area;
+    const reviewed = proposals.map(candidate => (candidate.id === proposalId ? { ...candidate, area, status } : candidate));
+    const areas = getInspectionAreas({ areas: inspection.areas ? JSON.parse(inspection.areas) : undefined });
+    const updatedAreas = status === 'CONFIRMED' ? addArea(areas, area) : areas;
+    const photos = await inspectionDB.getPhotosForInspection(inspectionId);
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updateInspectionAreaProposals(inspectionId, reviewed);
+      await this.enqueue(inspectionId, 'UPDATE_AREA_PROPOSALS', { proposals: reviewed });
+      if (updatedAreas.length !== areas.length) {
+        await inspectionDB.updateInspectionAreas(inspectionId, updatedAreas);
+        await this.enqueue(inspectionId, 'UPDATE_INSPECTION_AREAS', { areas: updatedAreas });
+      }
+
+      for (const photo of photos) {
+        const current = parseFieldVersions(photo.field_versions).area;
+        if (photo.area && current?.source !== 'AI') {
+          continue;
+        }
+        const photoArea = getProposedAreaAt(reviewed, photo.audio_timestamp);
+        if (photoArea !== (photo.area ?? null)) {
+          await this.writePhotoArea(photo, photoArea, createFieldVersion('AI', current));
+        }
+      }
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Start the next recording session of an inspection locally
+   */
+  async startAudioSession(inspectionId: string, startedAt: number, startOffset: number): Promise<AudioSession> {
+    const index = (await inspectionDB.getAudioSessions(inspectionId)).length;
+    const session: AudioSession = { id: getAudioSessionId(inspectionId, index), index, startedAt, startOffset };
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.addAudioSession({
+        id: session.id,
+        inspection_id: inspectionId,
+        session_index: index,
+        started_at: startedAt,
+        start_offset: startOffset,
+      });
+      await this.enqueue(inspectionId, 'SAVE_AUDIO_SESSION', {
+        sessionId: session.id,
+        sessionIndex: index,
+        startedAt,
+        startOffset,
+      });
+    });
+    syncService.requestSync();
+
+    return session;
+  }
+
+  /**
+   * Record where a recording session ended
+   */
+  async endAudioSession(sessionId: string, endedAt: number, endOffset: number): Promise<void> {
+    const session = await inspectionDB.getAudioSession(sessionId);
+    if (!session) {
+      throw new Error(`Audio session not found: ${sessionId}`);
+    }
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.endAudioSession(sessionId, endedAt, endOffset);
+      await this.enqueue(session.inspection_id, 'SAVE_AUDIO_SESSION', {
+        sessionId,
+        sessionIndex: session.session_index,
+        startedAt: session.started_at,
+        startOffset: session.start_offset,
+        endedAt,
+        endOffset,
+      });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Record a finalized chunk of an inspection's audio locally
+   */
+  async addAudioChunk(inspectionId: string, chunk: Omit<AudioChunk, 'id' | 'firebaseUrl'>): Promise<AudioChunk> {
+    const chunkId = getAudioChunkId(inspectionId, chunk.index);
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.addAudioChunk({
+        id: chunkId,
+        inspection_id: inspectionId,
+        chunk_index: chunk.index,
+        local_uri: chunk.uri,
+        start_offset: chunk.startOffset,
+        duration_ms: chunk.durationMs,
+      });
+      await this.enqueue(inspectionId, 'ADD_AUDIO_CHUNK', {
+        chunkId,
+        chunkIndex: chunk.index,
+        startOffset: chunk.startOffset,
+        durationMs: chunk.durationMs,
+      });
+    });
+    syncService.requestSync();
+
+    return { id: chunkId, ...chunk };
+  }
+
+  /**
+   * Update the uploaded URL of an audio chunk
+   */
+  async updateAudioChunkFirebaseUrl(chunkId: string, firebaseUrl: string): Promise<void> {
+    const chunk = await inspectionDB.getAudioChunk(chunkId);
+    if (!chunk) {
+      throw new Error(`Audio chunk not found: ${chunkId}`);
+    }
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updateAudioChunkFirebaseUrl(chunkId, firebaseUrl);
+      await this.enqueue(chunk.inspection_id, 'UPDATE_AUDIO_CHUNK_FIREBASE_URL', {
+        chunkId,
+        chunkIndex: chunk.chunk_index,
+        firebaseUrl,
+      });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Update inspection status
+   */
+  async updateInspectionStatus(inspectionId: string, status: Inspection['status']): Promise<void> {
+    const inspection = await inspectionDB.getInspection(inspectionId);
+    if (!inspection) {
+      throw new Error(`Inspection not found: ${inspectionId}`);
+    }
+    const current = parseFieldVersions(inspection.field_versions).status;
+
+    await this.writeInspectionStatus(inspectionId, status, createFieldVersion('HUMAN', current));
+  }
+
+  /**
+   * Update the uploaded URL of a photo
+   */
+  async updatePhotoFirebaseUrl(photoId: string, firebaseUrl: string): Promise<void> {
+    const photo = await this.requirePhoto(photoId);
+
+    // The upload finished after the photo was deleted, so the file needs deleting again
+    if (photo.deleted_at) {
+      await this.enqueue(photo.inspection_id, 'DELETE_PHOTO', { photoId });
+      syncService.requestSync();
+      return;
+    }
+
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.updatePhotoFirebaseUrl(photoId, firebaseUrl);
+      await this.enqueue(photo.inspection_id, 'UPDATE_PHOTO_FIREBASE_URL', { photoId, firebaseUrl });
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Store a photo's quality scores on the device
+   * They help the engineer catch bad shots on site, so they aren't synced
+   */
+  async updatePhotoQuality(photoId: string, quality: PhotoQuality): Promise<void> {
+    await inspectionDB.updatePhotoQuality(photoId, JSON.stringify(quality));
+  }
+
+  /**
+   * Update photo caption as a human edit
+   */
+  async updatePhotoCaption(photoId: string, caption: string): Promise<void> {
+    const photo = await this.requirePhoto(photoId);
+    const current = parseFieldVersions(photo.field_versions).caption;
+
+    await this.writePhotoCaption(photo, caption, createFieldVersion('HUMAN', current));
+  }
+
+  /**
+   * Get fields the sync couldn't merge automatically
+   */
+  async getConflicts(inspectionId: string): Promise<SyncConflict[]> {
+    const conflicts = await inspectionDB.getOpenConflicts(inspectionId);
+    return conflicts.map(toConflict);
+  }
+
+  /**
+   * Settle a conflict by keeping the device value or taking the server value
+   */
+  async resolveConflict(conflictId: string, keep: 'LOCAL' | 'REMOTE'): Promise<void> {
+    const row = await inspectionDB.getConflict(conflictId);
+    if (!row) {
+      throw new Error(`Conflict not found: ${conflictId}`);
+    }
+    const conflict = toConflict(row);
+
+    if (keep === 'REMOTE') {
+      const version = conflict.remoteVersion ?? createFieldVersion('HUMAN');
+      await inspectionDB.runInTransaction(async () => {
+        if (conflict.entityType === 'PHOTO' && (conflict.field === 'caption' || conflict.field === 'area')) {
+          await inspectionDB.setPhotoField(conflict.entityId, conflict.field, conflict.remoteValue, version);
+        } else if (conflict.entityType === 'INSPECTION' && conflict.field === 'status') {
+          await inspectionDB.setInspectionField(conflict.entityId, 'status', conflict.remoteValue, version);
+        } else {
+          throw new Error(`Unsupported conflict field: ${conflict.entityType}.${conflict.field}`);
+        }
+        await inspectionDB.resolveConflict(conflictId);
+      });
+      return;
+    }
+
+    // Keeping the device value is a new edit made with the server value in view,
+    // so it wins the next merge
+    const version = createFieldVersion('HUMAN', conflict.remoteVersion);
+    const value = conflict.localValue ?? '';
+
+    if (conflict.entityType === 'PHOTO' && conflict.field === 'caption') {
+      const photo = await this.requirePhoto(conflict.entityId);
+      await this.writePhotoCaption(photo, value, version, conflictId);
+    } else if (conflict.entityType === 'PHOTO' && conflict.field === 'area') {
+      const photo = await this.requirePhoto(conflict.entityId);
+      await inspectionDB.runInTransaction(async () => {
+        await this.writePhotoArea(photo, conflict.localValue, version, conflictId);
+      });
+      syncService.requestSync();
+    } else if (conflict.entityType === 'INSPECTION' && conflict.field === 'status') {
+      await this.writeInspectionStatus(conflict.entityId, value as Inspection['status'], version, conflictId);
+    } else {
+      throw new Error(`Unsupported conflict field: ${conflict.entityType}.${conflict.field}`);
+    }
+  }
+
+  /**
+   * Get an inspection with its photos, markers, video clips and recording sessions
+   */
+  async getInspection(inspectionId: string): Promise<Inspection | null> {
+    const inspection = await inspectionDB.getInspection(inspectionId);
+    if (!inspection) {
+      return null;
+    }
+
+    const photos = await this.getPhotosForInspection(inspectionId);
+    const markers = await inspectionDB.getMarkersForInspection(inspectionId);
+    const clips = await inspectionDB.getVideoClipsForInspection(inspectionId);
+    const sessions = await inspectionDB.getAudioSessions(inspectionId);
+    const chunks = await inspectionDB.getAudioChunks(inspectionId);
+    return toInspection(
+      inspection,
+      photos,
+      markers.map(toMarker),
+      clips.map(toVideoClip),
+      sessions.map(toAudioSession),
+      chunks.map(toAudioChunk)
+    );
+  }
+
+  /**
+   * Get photos for an inspection in capture order
+   */
+  async getPhotosForInspection(inspectionId: string): Promise<Photo[]> {
+    const photos = await inspectionDB.getPhotosForInspection(inspectionId);
+    return photos.map(toPhoto);
+  }
+
+  /**
+   * Write a versioned status locally and queue it for sync
+   */
+  private async writeInspectionStatus(
+    inspectionId: string,
+    status: Inspection['status'],
+    version: FieldVersion,
+    resolvesConflictId?: string
+  ): Promise<void> {
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.setInspectionField(inspectionId, 'status', status, version);
+      await this.enqueue(inspectionId, 'UPDATE_INSPECTION_STATUS', { status, version });
+      if (resolvesConflictId) {
+        await inspectionDB.resolveConflict(resolvesConflictId);
+      }
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Write a versioned caption locally and queue it for sync
+   */
+  private async writePhotoCaption(
+    photo: DatabasePhoto,
+    caption: string,
+    version: FieldVersion,
+    resolvesConflictId?: string
+  ): Promise<void> {
+    await inspectionDB.runInTransaction(async () => {
+      await inspectionDB.setPhotoField(photo.id, 'caption', caption, version);
+      await this.enqueue(photo.inspection_id, 'UPDATE_PHOTO_CAPTION', { photoId: photo.id, caption, version });
+      if (resolvesConflictId) {
+        await inspectionDB.resolveConflict(resolvesConflictId);
+      }
+    });
+    syncService.requestSync();
+  }
+
+  /**
+   * Write a versioned area and queue it for sync, inside the caller's transaction
+   */
+  private async writePhotoArea(
+    photo: DatabasePhoto,
+    area: string | null,
+    version: FieldVersion,
+    resolvesConflictId?: string
+  ): Promise<void> {
+    await inspectionDB.setPhotoField(photo.id, 'area', area, version);
+    await this.enqueue(photo.inspection_id, 'UPDATE_PHOTO_AREA', { photoId: photo.id, area, version });
+    if (resolvesConflictId) {
+      await inspectionDB.resolveConflict(resolvesConflictId);
+    }
+  }
+
+  /**
+   * Queue an operation for the sync service
+   */
+  private async enqueue<T extends OutboxOperationType>(
+    inspectionId: string,
+    type: T,
+    payload: OutboxPayloads[T]
+  ): Promise<void> {
+    await inspectionDB.enqueueOperation({
+      id: generateId(),
+      inspection_id: inspectionId,
+      type,
+      payload: JSON.stringify(payload),
+    });
+  }
+
+  /**
+   * Load a photo row or fail loudly
+   */
+  private async requirePhoto(photoId: string): Promise<DatabasePhoto> {
+    const photo = await inspectionDB.getPhoto(photoId);
+    if (!photo) {
+      throw new Error(`Photo not found: ${photoId}`);
+    }
+    return photo;
+  }
+}
+
+/**
+ * Map a database row to the app's inspection model
+ */
+const toInspection = (
+  row: DatabaseInspection,
+  photos: Photo[],
+  markers: Marker[],
+  clips: VideoClip[],
+  audioSessions: AudioSession[],
+  audioChunks: AudioChunk[]
+): Inspection => ({
+  id: row.id,
+  client: row.client,
+  address: row.address,
+  claimNumber: row.claim_number,
+  inspectionDate: row.inspection_date,
+  photos,
+  markers,
+  clips,
+  audioSessions,
+  audioUri: row.audio_uri ?? undefined,
+  firebaseAudioUrl: row.firebase_audio_url ?? undefined,
+  audioPauses: parseAudioPauses(row.audio_pauses),
+  audioSilences: parseAudioSpans(row.audio_silences),
+  audioChunks,
+  recordingProfile: (row.recording_profile ?? undefined) as RecordingProfileId | undefined,
+  areas: row.areas ? JSON.parse(row.areas) : undefined,
+  areaProposals: row.area_proposals ? JSON.parse(row.area_proposals) : undefined,
+  status: row.status as Inspection['status'],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Map a database row to the app's photo model
+ */
+const toPhoto = (row: DatabasePhoto): Photo => ({
+  id: row.id,
+  uri: row.photo_uri,
+  timestamp: row.timestamp,
+  audioTimestamp: row.audio_timestamp,
+  caption: row.caption ?? undefined,
+  sessionId: row.session_id ?? undefined,
+  thumbnailUri: row.thumbnail_uri ?? undefined,
+  originalUri: row.original_uri ?? undefined,
+  location: row.location ? JSON.parse(row.location) : undefined,
+  heading: row.heading ? JSON.parse(row.heading) : undefined,
+  device: row.device ? JSON.parse(row.device) : undefined,
+  area: row.area ?? undefined,
+  source: row.source ?? undefined,
+  deletedAt: row.deleted_at ?? undefined,
+  quality: row.quality ? JSON.parse(row.quality) : undefined,
+});
+
+/**
+ * Map a database row to the app's marker model
+ */
+const toMarker = (row: DatabaseMarker): Marker => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  audioTimestamp: row.audio_timestamp,
+  label: row.label ?? undefined,
+  caption: row.caption ?? undefined,
+});
+
+/**
+ * Map a database row to the app's video clip model
+ */
+const toVideoClip = (row: DatabaseVideoClip): VideoClip => ({
+  id: row.id,
+  uri: row.video_uri,
+  timestamp: row.timestamp,
+  audioTimestamp: row.audio_timestamp,
+  endAudioTimestamp: row.end_audio_timestamp,
+  sessionId: row.session_id ?? undefined,
+  area: row.area ?? undefined,
+  firebaseUrl: row.firebase_url ?? undefined,
+});
+
+/**
+ * Map a database row to the app's recording session model
+ */
+const toAudioSession = (row: DatabaseAudioSession): AudioSession => ({
+  id: row.id,
+  index: row.session_index,
+  startedAt: row.started_at,
+  startOffset: row.start_offset,
+  endedAt: row.ended_at ?? undefined,
+  endOffset: row.end_offset ?? undefined,
+});
+
+/**
+ * Map a database row to the app's audio chunk model
+ */
+const toAudioChunk = (row: DatabaseAudioChunk): AudioChunk => ({
+  id: row.id,
+  index: row.chunk_index,
+  uri: row.local_uri,
+  startOffset: row.start_offset,
+  durationMs: row.duration_ms,
+  firebaseUrl: row.firebase_url ?? undefined,
+});
+
+/**
+ * Map a database row to the app's conflict model
+ */
+const toConflict = (row: DatabaseConflict): SyncConflict => ({
+  id: row.id,
+  inspectionId: row.inspection_id,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  field: row.field,
+  localValue: row.local_value ?? null,
+  remoteValue: row.remote_value ?? null,
+  localVersion: row.local_version ? JSON.parse(row.local_version) : undefined,
+  remoteVersion: row.remote_version ? JSON.parse(row.remote_version) : undefined,
+  createdAt: row.created_at,
+});
+
+export const inspectionRepository = new InspectionRepository();
@@ -9,6 +9,8 @@ export interface CaptionRequest {
     claimNumber: string;
   };
   photoDescription?: string; // Optional visual description
+  marker?: { label?: string }; // Set when captioning a timeline marker instead of a photo
+  area?: string; // Area of the property the photo was tagged with
 }
 
 export interface CaptionResult {
@@ -87,9 +89,10 @@ export class LLMCaptionService {
    * Build prompt for LLM based on inspection context
    */
   private buildPrompt(request: CaptionRequest): string {
-    const { photoTimestamp, audioContext, inspectionDetails, photoDescription } = request;
+    const { photoTimestamp, audioContext, inspectionDetails, photoDescription, marker, area } = request;
     
     const timestampFormatted = this.formatTimestamp(photoTimestamp);
+    const subject = marker ? 'point in the inspection, marked without a photo' : 'inspection photo';
     
     return `
 Inspection Details:
@@ -97,12 +100,14 @@ Inspection Details:
 - Address: ${inspectionDetails.address}
 - Claim Number: ${inspectionDetails.claimNumber}
 
-Photo Context:
+${marker ? 'Marker' : 'Photo'} Context:
 - Timestamp: ${timestampFormatted}
 - Audio Context: "${audioContext}"
 ${photoDescription ? `- Visual Description: ${photoDescription}` : ''}
+${marker?.label ? `- Engineer's Label: ${marker.label}` : ''}
+${area ? `- Area: ${area}` : ''}
 
-Generate a professional, concise caption (max 100 characters) for this inspection photo. The caption should:
+Generate a professional, concise caption (max 100 characters) for this ${subject}. The caption should:
 1. Be relevant to the audio context at this timestamp
 2. Be professional and inspection-focused
 3. Include relevant details about what was being inspected
@@ -0,0 +1,107 @@
+import * as Device from 'expo-device';
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+import { DeviceInfo, Photo, PhotoHeading, PhotoLocation } from '../types';
+
+// A fix older than this is too far out of date to say where a photo was taken
+const MAX_FIX_AGE_MS = 2 * 60 * 1000;
+
+export type LocationStatus = 'OFF' | 'ACTIVE' | 'DENIED' | 'UNAVAILABLE';
+
+/**
+ * Keeps the latest location and compass heading while the camera is open,
+ * so photos can be stamped at shutter time without waiting for a fix
+ * Photos are still taken without location when permission is denied
+ */
+export class LocationService {
+  private status: LocationStatus = 'OFF';
+  private location: PhotoLocation | null = null;
+  private heading: PhotoHeading | null = null;
+  private subscriptions: Location.LocationSubscription[] = [];
+  private readonly device: DeviceInfo = getDeviceInfo();
+
+  /**
+   * Ask for location permission if needed and start watching position and heading
+   */
+  async start(): Promise<LocationStatus> {
+    if (this.status === 'ACTIVE') {
+      return this.status;
+    }
+
+    try {
+      const { granted } = await Location.requestForegroundPermissionsAsync();
+      if (!granted) {
+        console.log('Location permission denied, photos will not be geotagged');
+        this.status = 'DENIED';
+        return this.status;
+      }
+
+      this.subscriptions.push(await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.High, timeInterval: 5000, distanceInterval: 2 },
+        ({ coords, timestamp }) => {
+          this.location = {
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            ...(coords.altitude !== null ? { altitude: coords.altitude } : {}),
+            ...(coords.accuracy !== null ? { accuracy: coords.accuracy } : {}),
+            fixedAt: timestamp,
+          };
+        }
+      ));
+
+      // Not every phone has a compass
+      try {
+        this.subscriptions.push(await Location.watchHeadingAsync(({ trueHeading, magHeading }) => {
+          this.heading = trueHeading >= 0
+            ? { degrees: trueHeading, reference: 'TRUE' }
+            : { degrees: magHeading, reference: 'MAGNETIC' };
+        }));
+      } catch (error) {
+        console.log('Compass heading unavailable:', error);
+      }
+
+      this.status = 'ACTIVE';
+    } catch (error) {
+      console.error('Failed to start location updates:', error);
+      this.stop();
+      this.status = 'UNAVAILABLE';
+    }
+
+    return this.status;
+  }
+
+  /**
+   * Stop watching position and heading, e.g. when leaving the camera
+   */
+  stop(): void {
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+    this.location = null;
+    this.heading = null;
+    this.status = 'OFF';
+  }
+
+  /**
+   * Where the phone is, which way it faces and what it is, for a photo taken now
+   */
+  getPhotoMetadata(now: number = Date.now()): Pick<Photo, 'location' | 'heading' | 'device'> {
+    const location = this.location && now - this.location.fixedAt <= MAX_FIX_AGE_MS ? this.location : null;
+    return {
+      ...(location ? { location } : {}),
+      ...(this.heading ? { heading: this.heading } : {}),
+      device: this.device,
+    };
+  }
+}
+
+/**
+ * Describe this phone, leaving out what the platform won't tell us
+ */
+const getDeviceInfo = (): DeviceInfo => ({
+  ...(Device.manufacturer ? { make: Device.manufacturer } : {}),
+  ...(Device.modelName ? { model: Device.modelName } : {}),
+  os: Device.osName ?? Platform.OS,
+  osVersion: Device.osVersion ?? String(Platform.Version),
+});
+
+export const locationService = new LocationService();
@@ -0,0 +1,149 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import piexif from 'piexifjs';
+import { inspectionDB } from '../database';
+import { photoSaveQueue } from './photoSaveQueue';
+import { Inspection, Photo } from '../types';
+import {
+  EXIF_HEAD_BYTES,
+  findExifSegment,
+  ImportedPhotoMetadata,
+  placeOnTimeline,
+  readImportedPhotoMetadata,
+} from '../utils/photoImport';
+import { findSessionAt } from '../utils/audioSessions';
+
+const CLOCK_OFFSET_SETTING_PREFIX = 'import_clock_offset:';
+
+/**
+ * A photo picked for import and what its EXIF says about it
+ */
+export interface ImportCandidate extends ImportedPhotoMetadata {
+  uri: string;
+}
+
+export interface ImportResult {
+  imported: Photo[];
+  skipped: number; // Photos with no capture time, which can't be placed on the timeline
+}
+
+/**
+ * Brings photos from the gallery or an external camera into an inspection
+ * Each photo is placed on the audio timeline by its EXIF capture time plus a
+ * clock offset the engineer sets when the camera's clock was wrong, then saved
+ * and uploaded like a photo taken on the camera screen
+ */
+export class PhotoImportService {
+  /**
+   * Let the engineer pick photos from the library and read their EXIF
+   * Resolves with no photos if permission is denied or the picker is cancelled
+   */
+  async pickPhotos(): Promise<ImportCandidate[]> {
+    const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!granted) {
+      console.log('Photo library permission denied');
+      return [];
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsMultipleSelection: true,
+      quality: 1,
+      exif: true,
+      // JPEG rather than HEIC, so the EXIF can be read and the file processed like a capture
+      preferredAssetRepresentationMode: ImagePicker.UIImagePickerPreferredAssetRepresentationMode.Compatible,
+    });
+    if (result.canceled) {
+      return [];
+    }
+
+    // One at a time: a large selection of camera files would otherwise all be read at once
+    const candidates: ImportCandidate[] = [];
+    for (const asset of result.assets) {
+      candidates.push({
+        uri: asset.uri,
+        ...readImportedPhotoMetadata(await this.readFileExif(asset.uri), asset.exif),
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Get how far off the camera's clock was for an inspection's imports (ms)
+   */
+  async getClockOffset(inspectionId: string): Promise<number> {
+    const savedOffset = Number(await inspectionDB.getSetting(`${CLOCK_OFFSET_SETTING_PREFIX}${inspectionId}`));
+    return Number.isFinite(savedOffset) ? savedOffset : 0;
+  }
+
+  /**
+   * Remember the clock offset so the next import from the same camera lines up too
+   */
+  async setClockOffset(inspectionId: string, offsetMs: number): Promise<void> {
+    await inspectionDB.setSetting(`${CLOCK_OFFSET_SETTING_PREFIX}${inspectionId}`, String(offsetMs));
+  }
+
+  /**
+   * Forget an inspection's clock offset, e.g. when the inspection is deleted
+   */
+  async clearClockOffset(inspectionId: string): Promise<void> {
+    await inspectionDB.deleteSetting(`${CLOCK_OFFSET_SETTING_PREFIX}${inspectionId}`);
+  }
+
+  /**
+   * Copy picked photos into the app and save them on the inspection timeline
+   * The offset is added to each EXIF time, so a camera running 2 minutes slow needs +120000
+   * Photos are saved in capture order; ones without a capture time are skipped
+   */
+  async importPhotos(inspection: Inspection, candidates: ImportCandidate[], clockOffsetMs: number): Promise<ImportResult> {
+    const datedCandidates = candidates
+      .filter((candidate): candidate is ImportCandidate & { capturedAt: number } => candidate.capturedAt !== null)
+      .sort((a, b) => a.capturedAt - b.capturedAt);
+    const importedAt = Date.now();
+
+    const imported = await Promise.all(datedCandidates.map(async (candidate, index) => {
+      const timestamp = candidate.capturedAt + clockOffsetMs;
+      const { audioTimestamp } = placeOnTimeline(inspection, timestamp);
+      const session = findSessionAt(inspection.audioSessions ?? [], audioTimestamp);
+
+      // The picker's file can be a temporary copy, so keep our own
+      const uri = `${FileSystem.documentDirectory}inspection_import_${inspection.id}_${importedAt}_${index}.jpg`;
+      await FileSystem.copyAsync({ from: candidate.uri, to: uri });
+
+      return photoSaveQueue.savePhoto(inspection.id, {
+        uri,
+        timestamp,
+        audioTimestamp,
+        ...(session ? { sessionId: session.id } : {}),
+        ...(candidate.location ? { location: candidate.location } : {}),
+        ...(candidate.heading ? { heading: candidate.heading } : {}),
+        source: 'IMPORT',
+      });
+    }));
+
+    await this.setClockOffset(inspection.id, clockOffsetMs);
+    console.log(`Imported ${imported.length} photos into inspection ${inspection.id}`);
+    return { imported, skipped: candidates.length - datedCandidates.length };
+  }
+
+  /**
+   * Read the EXIF straight from a picked file, or null if it has none we can read
+   * Only the start of the file is read, which is where the EXIF is
+   */
+  private async readFileExif(uri: string): Promise<piexif.ExifDict | null> {
+    try {
+      const head = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: EXIF_HEAD_BYTES,
+      });
+      const segment = findExifSegment(atob(head));
+      return segment ? piexif.load(segment) : null;
+    } catch (error) {
+      console.log('Could not read EXIF from picked photo, using the picker\'s:', error);
+      return null;
+    }
+  }
+}
+
+export const photoImportService = new PhotoImportService();
@@ -0,0 +1,118 @@
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { inspectionRepository } from './inspectionRepository';
+import { Photo, PhotoQuality } from '../types';
+import { fitWithin } from '../utils/photoFiles';
+import {
+  assessPhotoQuality,
+  getFrameSignature,
+  GreyImage,
+  QUALITY_ANALYSIS_MAX_EDGE,
+  toGreyImage,
+} from '../utils/photoQuality';
+
+type QualityCheckedListener = (photoId: string, quality: PhotoQuality) => void;
+
+/**
+ * Checks saved photos for blur, bad exposure and repeats of the previous shot
+ * while the engineer is still on site to retake them
+ * Everything runs on the phone on a small copy of the upload-sized photo, one
+ * photo at a time and apart from the save queue, so a check never holds up the next save
+ */
+export class PhotoQualityService {
+  private tail: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<QualityCheckedListener>();
+  // The last photo checked, so a run of photos decodes each one only once
+  private lastFrame: { photoId: string; signature: number[] } | null = null;
+
+  /**
+   * Queue a saved photo to be scored, storing the scores on its record
+   * Checks run in the order they're queued, so each photo is compared with the one before it
+   * Resolves with undefined if the photo couldn't be checked; a check never rejects
+   */
+  checkPhoto(inspectionId: string, photo: Photo): Promise<PhotoQuality | undefined> {
+    const check = this.tail.then(() => this.runCheck(inspectionId, photo));
+    this.tail = check;
+    return check;
+  }
+
+  /**
+   * Subscribe to the scores of each photo as its check finishes
+   */
+  subscribe(listener: QualityCheckedListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Score one photo and tell subscribers
+   */
+  private async runCheck(inspectionId: string, photo: Photo): Promise<PhotoQuality | undefined> {
+    try {
+      const image = await this.loadGreyImage(photo);
+      const previousSignature = await this.getPreviousSignature(inspectionId, photo);
+      const { quality, signature } = assessPhotoQuality(image, previousSignature);
+
+      this.lastFrame = { photoId: photo.id, signature };
+      await inspectionRepository.updatePhotoQuality(photo.id, quality);
+      if (quality.issues.length > 0) {
+        console.log('Photo quality issues:', photo.id, quality.issues);
+      }
+      this.listeners.forEach(listener => listener(photo.id, quality));
+      return quality;
+    } catch (error) {
+      console.error('Failed to check photo quality:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Signature of the photo taken just before this one, skipping deleted photos
+   * so a retake isn't flagged as a repeat of the shot it replaces
+   */
+  private async getPreviousSignature(inspectionId: string, photo: Photo): Promise<number[] | null> {
+    const photos = await inspectionRepository.getPhotosForInspection(inspectionId);
+    const previous = photos
+      .filter(candidate => candidate.id !== photo.id && candidate.timestamp <= photo.timestamp)
+      .pop();
+    if (!previous) {
+      return null;
+    }
+
+    if (this.lastFrame?.photoId === previous.id) {
+      return this.lastFrame.signature;
+    }
+    return getFrameSignature(await this.loadGreyImage(previous));
+  }
+
+  /**
+   * Decode a copy of a photo at the analysis size to luminance
+   * Not the thumbnail: at its size and compression shake no longer shows
+   */
+  private async loadGreyImage(photo: Photo): Promise<GreyImage> {
+    const image = await ImageManipulator.manipulate(photo.uri).renderAsync();
+    const analysisImage = await ImageManipulator.manipulate(image)
+      .resize(fitWithin(image, QUALITY_ANALYSIS_MAX_EDGE))
+      .renderAsync();
+    const result = await analysisImage.saveAsync({ base64: true, compress: 1, format: SaveFormat.JPEG });
+    await FileSystem.deleteAsync(result.uri, { idempotent: true });
+    if (!result.base64) {
+      throw new Error(`Could not read photo for quality check: ${photo.uri}`);
+    }
+
+    const binary = atob(result.base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const { width, height, data } = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    return toGreyImage(data, width, height);
+  }
+}
+
+export const photoQualityService = new PhotoQualityService();
@@ -0,0 +1,78 @@
+import { inspectionRepository } from './inspectionRepository';
+import { imageProcessingService } from './imageProcessingService';
+import { uploadQueue } from './uploadQueue';
+import { photoQualityService } from './photoQualityService';
+import { Photo } from '../types';
+
+type PendingSavesListener = (pending: number) => void;
+
+/**
+ * Saves captured photos in the background so the shutter is free again as
+ * soon as the image file is on disk
+ * Saves run one at a time in capture order; each capture is resized for
+ * upload and thumbnailed, then saved and its upload queued; once saved it is
+ * handed to the quality check, which runs on its own queue
+ */
+export class PhotoSaveQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+  private listeners = new Set<PendingSavesListener>();
+
+  /**
+   * Queue a captured photo file that is already in the document directory
+   * Resolves with the saved photo; a failed save doesn't hold up the ones after it
+   */
+  savePhoto(inspectionId: string, photo: Omit<Photo, 'id'>): Promise<Photo> {
+    this.setPending(this.pending + 1);
+
+    const save = this.tail.then(async () => {
+      try {
+        const processed = await imageProcessingService.processPhoto(photo);
+        const savedPhoto = await inspectionRepository.addPhoto(inspectionId, { ...photo, ...processed });
+        await uploadQueue.enqueuePhotoUpload(inspectionId, savedPhoto.id, savedPhoto.uri);
+
+        // Only once the photo is saved, so recovery can still find the capture if the app dies first
+        await imageProcessingService.discardOriginal(photo.uri, processed);
+        return savedPhoto;
+      } finally {
+        this.setPending(this.pending - 1);
+      }
+    });
+
+    this.tail = save.catch(() => undefined);
+    // Saves resolve in capture order, so checks are queued in capture order too
+    save
+      .then(savedPhoto => photoQualityService.checkPhoto(inspectionId, savedPhoto))
+      .catch(() => undefined);
+    return save;
+  }
+
+  /**
+   * Subscribe to the number of photos waiting to be saved
+   */
+  subscribe(listener: PendingSavesListener): () => void {
+    this.listeners.add(listener);
+    listener(this.pending);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait for every queued save to finish, e.g. before leaving the camera
+   */
+  async flush(): Promise<void> {
+    await this.tail;
+  }
+
+  /**
+   * Update the pending count and tell subscribers
+   */
+  private setPending(pending: number): void {
+    this.pending = pending;
+    this.listeners.forEach(listener => listener(pending));
+  }
+}
+
+export const photoSaveQueue = new PhotoSaveQueue();
@@ -0,0 +1,69 @@
+import * as FileSystem from 'expo-file-system';
+import { inspectionRepository } from './inspectionRepository';
+import { uploadQueue } from './uploadQueue';
+import { Photo } from '../types';
+
+/**
+ * How long a deleted photo can still be restored
+ */
+export const TRASH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Deletes photos into a short-lived trash and restores them from it
+ * Deleting removes the photo from the inspection and, once synced, from
+ * Firestore and Cloud Storage; its files stay on the phone until the trash
+ * expires, so a restored photo is simply added and uploaded again
+ */
+export class PhotoTrashService {
+  /**
+   * Move a photo to the trash, e.g. a bad shot or a photo of the wrong thing
+   */
+  async deletePhoto(photoId: string): Promise<void> {
+    await inspectionRepository.trashPhoto(photoId);
+    console.log('Photo moved to trash:', photoId);
+  }
+
+  /**
+   * Put a photo back on its inspection and queue its upload again
+   */
+  async restorePhoto(inspectionId: string, photoId: string): Promise<Photo> {
+    const photo = await inspectionRepository.restorePhoto(photoId);
+    await uploadQueue.enqueuePhotoUpload(inspectionId, photo.id, photo.uri);
+    console.log('Photo restored from trash:', photoId);
+    return photo;
+  }
+
+  /**
+   * Get an inspection's deleted photos that can still be restored
+   */
+  async getTrash(inspectionId: string): Promise<Photo[]> {
+    return inspectionRepository.getTrashedPhotos(inspectionId);
+  }
+
+  /**
+   * Delete the files and records of photos that have been in the trash too long
+   * Returns how many photos were removed for good
+   */
+  async emptyExpiredTrash(now: number = Date.now()): Promise<number> {
+    const expired = await inspectionRepository.getPhotosTrashedBefore(now - TRASH_RETENTION_MS);
+
+    for (const photo of expired) {
+      const uris = [photo.uri, photo.thumbnailUri, photo.originalUri].filter((uri): uri is string => !!uri);
+      for (const uri of uris) {
+        try {
+          await FileSystem.deleteAsync(uri, { idempotent: true });
+        } catch (error) {
+          console.error('Failed to delete trashed photo file:', uri, error);
+        }
+      }
+      await inspectionRepository.purgePhoto(photo.id);
+    }
+
+    if (expired.length > 0) {
+      console.log(`Emptied ${expired.length} photos from the trash`);
+    }
+    return expired.length;
+  }
+}
+
+export const photoTrashService = new PhotoTrashService();
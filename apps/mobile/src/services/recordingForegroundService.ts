@@ -0,0 +1,75 @@
+import { Platform } from 'react-native';
+import notifee, { AndroidForegroundServiceType, AndroidImportance } from '@notifee/react-native';
+
+const CHANNEL_ID = 'recording';
+const NOTIFICATION_ID = 'recording';
+
+/**
+ * Keeps Android recording while the app is in the background
+ * Android stops the microphone for backgrounded apps unless a foreground
+ * service of type microphone is running, which needs a visible notification.
+ * iOS keeps recording through the audio background mode, so this does nothing there
+ */
+export class RecordingForegroundService {
+  private running = false;
+
+  /**
+   * Register the task the service runs; call once when the app loads
+   * The task never resolves - the service lasts until stop() is called
+   */
+  register(): void {
+    if (Platform.OS !== 'android') return;
+    notifee.registerForegroundService(() => new Promise<void>(() => {}));
+  }
+
+  /**
+   * Start the service and show the recording notification
+   * Must be called while the app is on screen: Android 14+ refuses to start a
+   * microphone service from the background. Failures are logged, not thrown,
+   * so recording still starts in the foreground
+   */
+  async start(): Promise<void> {
+    if (Platform.OS !== 'android' || this.running) return;
+
+    try {
+      // Android 13+ hides the notification without this; the service runs either way
+      await notifee.requestPermission();
+      await notifee.createChannel({
+        id: CHANNEL_ID,
+        name: 'Recording',
+        importance: AndroidImportance.LOW,
+      });
+      await notifee.displayNotification({
+        id: NOTIFICATION_ID,
+        title: 'Recording inspection',
+        body: 'Audio keeps recording while the app is in the background',
+        android: {
+          channelId: CHANNEL_ID,
+          asForegroundService: true,
+          foregroundServiceTypes: [AndroidForegroundServiceType.FOREGROUND_SERVICE_TYPE_MICROPHONE],
+          ongoing: true,
+          pressAction: { id: 'default' },
+        },
+      });
+      this.running = true;
+    } catch (error) {
+      console.error('Failed to start recording foreground service:', error);
+    }
+  }
+
+  /**
+   * Stop the service and remove its notification
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    try {
+      await notifee.stopForegroundService();
+    } catch (error) {
+      console.error('Failed to stop recording foreground service:', error);
+    }
+  }
+}
+
+export const recordingForegroundService = new RecordingForegroundService();
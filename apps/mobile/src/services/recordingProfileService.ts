@@ -0,0 +1,41 @@
+import * as FileSystem from 'expo-file-system';
+import { inspectionDB } from '../database';
+import { getRecordingProfile } from '../config/recordingProfiles';
+import { RecordingProfile, RecordingProfileId } from '../types';
+import { checkStorageBudget, EXPECTED_INSPECTION_DURATION_MS, StorageBudget } from '../utils/storageBudget';
+
+const DEFAULT_PROFILE_SETTING = 'recording_profile';
+
+/**
+ * Chooses how inspections are recorded and checks there is room for them
+ * The saved default applies to new inspections; each inspection keeps the
+ * profile it was started with
+ */
+export class RecordingProfileService {
+  /**
+   * Get the profile new inspections are recorded with
+   */
+  async getDefaultProfile(): Promise<RecordingProfile> {
+    return getRecordingProfile(await inspectionDB.getSetting(DEFAULT_PROFILE_SETTING));
+  }
+
+  /**
+   * Choose the profile new inspections are recorded with
+   */
+  async setDefaultProfile(profileId: RecordingProfileId): Promise<void> {
+    await inspectionDB.setSetting(DEFAULT_PROFILE_SETTING, profileId);
+  }
+
+  /**
+   * Check whether a recording of the expected length fits in the free space on the device
+   */
+  async checkStorage(
+    profile: RecordingProfile,
+    durationMs: number = EXPECTED_INSPECTION_DURATION_MS
+  ): Promise<StorageBudget> {
+    const freeBytes = await FileSystem.getFreeDiskStorageAsync();
+    return checkStorageBudget(profile, durationMs, freeBytes);
+  }
+}
+
+export const recordingProfileService = new RecordingProfileService();
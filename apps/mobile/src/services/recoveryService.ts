@@ -0,0 +1,255 @@
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { inspectionDB } from '../database';
+import { inspectionRepository } from './inspectionRepository';
+import { imageProcessingService } from './imageProcessingService';
+import { photoSaveQueue } from './photoSaveQueue';
+import { uploadQueue } from './uploadQueue';
+import { AudioChunk, DatabaseActiveRecording, InterruptedInspection, RecordingPause } from '../types';
+import { getPausedDuration, parseAudioPauses, toTimelinePosition } from '../utils/recordingTimeline';
+import { getAudioChunkFileName, getTimelineDuration } from '../utils/audioChunks';
+import { getPhotoVariantUri } from '../utils/photoFiles';
+
+// inspection_photo_<inspectionId>_<shutter time>.jpg, as written by the camera screen
+const PHOTO_FILE_PATTERN = /^inspection_photo_(.+)_(\d+)\.jpg$/;
+
+/**
+ * Where an in-progress recording is up to
+ */
+export interface RecordingCheckpoint {
+  inspectionId: string;
+  startedAt: number;
+  recorderUri?: string;
+  chunkIndex: number;
+  chunkStartOffset: number;
+  pauses: RecordingPause[];
+}
+
+/**
+ * Recovers inspections whose recording was still running when the app was killed
+ * The recording provider checkpoints its state to SQLite; on the next launch
+ * the audio and photo files it left behind are saved to the inspection so the
+ * engineer can carry on recording or finish and review
+ */
+export class RecoveryService {
+  /**
+   * Checkpoint an in-progress recording
+   */
+  async saveRecordingState(checkpoint: RecordingCheckpoint): Promise<void> {
+    await inspectionDB.saveActiveRecording({
+      inspection_id: checkpoint.inspectionId,
+      started_at: checkpoint.startedAt,
+      recorder_uri: checkpoint.recorderUri,
+      chunk_index: checkpoint.chunkIndex,
+      chunk_start_offset: checkpoint.chunkStartOffset,
+      pauses: JSON.stringify(checkpoint.pauses),
+    });
+  }
+
+  /**
+   * Forget the checkpoint of a recording that stopped normally
+   */
+  async clearRecordingState(inspectionId: string): Promise<void> {
+    await inspectionDB.deleteActiveRecording(inspectionId);
+  }
+
+  /**
+   * Find inspections that were interrupted and salvage the files they left behind
+   * Safe to call repeatedly - files that have been saved are not saved again
+   */
+  async findInterruptedInspections(): Promise<InterruptedInspection[]> {
+    const recordings = await inspectionDB.getActiveRecordings();
+    const interrupted: InterruptedInspection[] = [];
+
+    for (const recording of recordings) {
+      try {
+        const recovered = await this.recoverInspection(recording);
+        if (recovered) {
+          interrupted.push(recovered);
+        }
+      } catch (error) {
+        console.error('Failed to recover inspection:', recording.inspection_id, error);
+      }
+    }
+
+    return interrupted;
+  }
+
+  /**
+   * Close an interrupted inspection's recording so it can be reviewed as it is
+   */
+  async finishInterruptedInspection(interrupted: InterruptedInspection): Promise<void> {
+    const { inspection, resumePoint } = interrupted;
+    if (resumePoint.chunks.length > 0) {
+      await inspectionRepository.updateInspectionAudioUrl(
+        inspection.id,
+        resumePoint.chunks[0].uri,
+        resumePoint.pauses,
+        resumePoint.silences
+      );
+    }
+    if (resumePoint.sessionId) {
+      await inspectionRepository.endAudioSession(
+        resumePoint.sessionId,
+        resumePoint.interruptedAt,
+        getTimelineDuration(resumePoint.chunks)
+      );
+    }
+    await this.clearRecordingState(inspection.id);
+  }
+
+  /**
+   * Save an interrupted inspection's unsaved audio and photos
+   */
+  private async recoverInspection(recording: DatabaseActiveRecording): Promise<InterruptedInspection | null> {
+    const inspectionId = recording.inspection_id;
+    const saved = await inspectionRepository.getInspection(inspectionId);
+    if (!saved) {
+      await this.clearRecordingState(inspectionId);
+      return null;
+    }
+
+    const directory = FileSystem.documentDirectory ?? '';
+    const files = await FileSystem.readDirectoryAsync(directory);
+    let chunks = saved.audioChunks ?? [];
+    let recoveredChunks = 0;
+    let audioLost = false;
+
+    // Chunks that were moved into place just before the app died but never saved
+    while (files.includes(getAudioChunkFileName(inspectionId, chunks.length))) {
+      const uri = directory + getAudioChunkFileName(inspectionId, chunks.length);
+      const durationMs = await this.readDuration(uri);
+      if (!durationMs) {
+        break;
+      }
+      chunks = [...chunks, await this.saveChunk(inspectionId, uri, chunks, durationMs)];
+      recoveredChunks++;
+    }
+
+    // The chunk that was being recorded - only readable if the recorder got to write it out
+    if (chunks.length <= recording.chunk_index && recording.recorder_uri) {
+      const recorderFile = await FileSystem.getInfoAsync(recording.recorder_uri);
+      const durationMs = recorderFile.exists ? await this.readDuration(recording.recorder_uri) : null;
+
+      if (durationMs) {
+        const uri = directory + getAudioChunkFileName(inspectionId, chunks.length);
+        await FileSystem.moveAsync({ from: recording.recorder_uri, to: uri });
+        chunks = [...chunks, await this.saveChunk(inspectionId, uri, chunks, durationMs)];
+        recoveredChunks++;
+      } else {
+        console.log('Could not recover the audio being recorded for inspection', inspectionId);
+        audioLost = true;
+      }
+    }
+
+    // Pauses can't start after the audio we actually have
+    const timelineEnd = getTimelineDuration(chunks);
+    const pauses = parseAudioPauses(recording.pauses).map(pause =>
+      pause.audioOffset > timelineEnd ? { ...pause, audioOffset: timelineEnd } : pause
+    );
+
+    // The session that was being recorded - sessions always end before the checkpoint is cleared
+    const openSession = [...(saved.audioSessions ?? [])].reverse().find(session => session.endedAt === undefined);
+
+    // Photos whose file was saved but whose record wasn't; deleted photos keep
+    // their files until the trash is emptied and mustn't come back
+    const savedPhotos = [...saved.photos, ...await inspectionRepository.getTrashedPhotos(inspectionId)];
+    const knownPhotos = new Set(savedPhotos.flatMap(photo => [photo.uri, photo.originalUri]));
+    let recoveredPhotos = 0;
+    for (const fileName of files) {
+      const match = PHOTO_FILE_PATTERN.exec(fileName);
+      if (!match || match[1] !== inspectionId || knownPhotos.has(directory + fileName)) {
+        continue;
+      }
+
+      // A capture whose resized copy was saved, but which wasn't deleted yet
+      const uri = directory + fileName;
+      const processedPhoto = savedPhotos.find(photo => photo.uri === getPhotoVariantUri(uri, 'upload'));
+      if (processedPhoto) {
+        await imageProcessingService.discardOriginal(uri, processedPhoto);
+        continue;
+      }
+
+      const takenAt = Number(match[2]);
+      await photoSaveQueue.savePhoto(inspectionId, {
+        uri,
+        timestamp: takenAt,
+        audioTimestamp: Math.min(toTimelinePosition(recording.started_at, pauses, takenAt), timelineEnd),
+        sessionId: openSession?.id,
+        source: 'CAMERA',
+      });
+      recoveredPhotos++;
+    }
+
+    // Checkpoint what was saved so the next launch doesn't redo it
+    await this.saveRecordingState({
+      inspectionId,
+      startedAt: recording.started_at,
+      chunkIndex: chunks.length,
+      chunkStartOffset: timelineEnd,
+      pauses,
+    });
+
+    if (recoveredChunks > 0 || recoveredPhotos > 0) {
+      console.log('Recovered inspection files:', inspectionId, { recoveredChunks, recoveredPhotos });
+    }
+
+    // Recording stopped no earlier than the audio we have, counting closed pauses
+    const closedPauses = pauses.filter(pause => pause.resumedAt !== undefined);
+    const interruptedAt = Math.max(
+      recording.updated_at,
+      recording.started_at + timelineEnd + getPausedDuration(closedPauses, Number.POSITIVE_INFINITY)
+    );
+
+    const inspection = await inspectionRepository.getInspection(inspectionId);
+    return {
+      inspection: inspection ?? saved,
+      resumePoint: {
+        startedAt: recording.started_at,
+        interruptedAt,
+        pauses,
+        chunks,
+        silences: saved.audioSilences ?? [],
+        sessionId: openSession?.id,
+      },
+      recoveredPhotos,
+      recoveredChunks,
+      audioLost,
+    };
+  }
+
+  /**
+   * Save a recovered audio file as the next chunk and queue its upload
+   */
+  private async saveChunk(
+    inspectionId: string,
+    uri: string,
+    previous: AudioChunk[],
+    durationMs: number
+  ): Promise<AudioChunk> {
+    const chunk = await inspectionRepository.addAudioChunk(inspectionId, {
+      index: previous.length,
+      uri,
+      startOffset: getTimelineDuration(previous),
+      durationMs,
+    });
+    await uploadQueue.enqueueAudioChunkUpload(inspectionId, chunk.id, uri);
+    return chunk;
+  }
+
+  /**
+   * Read the length of an audio file, or null if it can't be played
+   */
+  private async readDuration(uri: string): Promise<number | null> {
+    try {
+      const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+      await sound.unloadAsync();
+      return status.isLoaded && status.durationMillis ? status.durationMillis : null;
+    } catch (error) {
+      console.error('Failed to read audio file:', uri, error);
+      return null;
+    }
+  }
+}
+
+export const recoveryService = new RecoveryService();
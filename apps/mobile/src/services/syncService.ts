@@ -0,0 +1,559 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { inspectionDB, INSPECTION_FIELD_COLUMNS, PHOTO_FIELD_COLUMNS } from '../database';
+import { firestoreService } from './firestoreService';
+import { firebaseStorage } from './firebaseStorage';
+import { resolveField, parseFieldVersions, MergeOutcome, VersionedValue, UNVERSIONED } from './conflictResolution';
+import {
+  AreaProposal,
+  DatabaseOutboxOperation,
+  InspectionMergeField,
+  OutboxOperationType,
+  OutboxPayloads,
+  PhotoMergeField,
+} from '../types';
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+type PendingCountListener = (count: number) => void;
+
+type MergeTarget =
+  | { entityType: 'INSPECTION'; inspectionId: string; entityId: string; field: InspectionMergeField }
+  | { entityType: 'PHOTO'; inspectionId: string; entityId: string; field: PhotoMergeField };
+
+/**
+ * Replays the local outbox against Firestore
+ * SQLite is the source of truth; this service only pushes queued changes
+ * to the server, in order per inspection, whenever the device is online
+ */
+export class SyncService {
+  private isOnline = false;
+  private isSyncing = false;
+  private syncRequested = false;
+  private listeners = new Set<PendingCountListener>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  /**
+   * Start listening for connectivity changes and sync whenever we come online
+   */
+  start(): void {
+    if (this.unsubscribeNetInfo) {
+      return;
+    }
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const wasOnline = this.isOnline;
+      this.isOnline = !!state.isConnected && state.isInternetReachable !== false;
+
+      if (this.isOnline && !wasOnline) {
+        console.log('Connectivity restored, syncing pending operations');
+        this.syncPendingOperations().catch(error => {
+          console.error('Background sync failed:', error);
+        });
+      }
+    });
+  }
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+  }
+
+  /**
+   * Subscribe to the number of operations waiting to be synced
+   */
+  subscribe(listener: PendingCountListener): () => void {
+    this.listeners.add(listener);
+    inspectionDB.getPendingOperationCount()
+      .then(listener)
+      .catch(error => console.error('Failed to read pending sync count:', error));
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify subscribers and sync right away if we're online
+   * Called after every local write that enqueues an operation
+   */
+  requestSync(): void {
+    this.notifyPendingCount();
+
+    if (this.isOnline) {
+      this.syncPendingOperations().catch(error => {
+        console.error('Background sync failed:', error);
+      });
+    }
+  }
+
+  /**
+   * Apply queued operations in order
+   * If an operation fails, later operations for the same inspection are held back
+   * so the server never sees them out of order; other inspections keep syncing
+   */
+  async syncPendingOperations(): Promise<SyncResult> {
+    if (this.isSyncing) {
+      this.syncRequested = true;
+      return { synced: 0, failed: 0, remaining: await inspectionDB.getPendingOperationCount() };
+    }
+
+    this.isSyncing = true;
+    let synced = 0;
+    let failed = 0;
+
+    try {
+      do {
+        this.syncRequested = false;
+        const operations = await inspectionDB.getPendingOperations();
+        const blockedInspections = new Set<string>();
+
+        for (const operation of operations) {
+          if (blockedInspections.has(operation.inspection_id)) {
+            continue;
+          }
+
+          try {
+            await this.applyOperation(operation);
+            await inspectionDB.completeOperation(operation.id);
+            synced++;
+          } catch (error) {
+            console.error('Failed to sync operation:', operation.type, operation.id, error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await inspectionDB.recordOperationFailure(operation.id, errorMessage);
+            blockedInspections.add(operation.inspection_id);
+            failed++;
+          }
+        }
+      } while (this.syncRequested && failed === 0);
+    } finally {
+      this.isSyncing = false;
+      this.notifyPendingCount();
+    }
+
+    const remaining = await inspectionDB.getPendingOperationCount();
+    console.log('Sync finished:', { synced, failed, remaining });
+    return { synced, failed, remaining };
+  }
+
+  /**
+   * Push a single operation to Firestore
+   */
+  private async applyOperation(operation: DatabaseOutboxOperation): Promise<void> {
+    const inspectionId = operation.inspection_id;
+
+    switch (operation.type) {
+      case 'CREATE_INSPECTION': {
+        const inspection = await inspectionDB.getInspection(inspectionId);
+        if (inspection?.remote_id) {
+          return; // Already created by an earlier attempt
+        }
+        const payload = this.parsePayload(operation, 'CREATE_INSPECTION');
+        const remoteId = await firestoreService.createInspection({ id: inspectionId, ...payload });
+        await inspectionDB.setInspectionRemoteId(inspectionId, remoteId);
+        return;
+      }
+
+      case 'ADD_PHOTO': {
+        const payload = this.parsePayload(operation, 'ADD_PHOTO');
+        const photo = await inspectionDB.getPhoto(payload.photoId);
+        if (!photo || photo.remote_id) {
+          return; // Emptied from the trash, or already added by an earlier attempt
+        }
+        const remoteId = await firestoreService.addPhoto({
+          id: payload.photoId,
+          inspectionId: await this.resolveInspectionRemoteId(inspectionId),
+          photoUri: payload.photoUri,
+          timestamp: payload.timestamp,
+          audioTimestamp: payload.audioTimestamp,
+          ...(payload.caption ? { caption: payload.caption } : {}),
+          ...(payload.sessionId ? { sessionId: payload.sessionId } : {}),
+          ...(payload.location ? { location: payload.location } : {}),
+          ...(payload.heading ? { heading: payload.heading } : {}),
+          ...(payload.device ? { device: payload.device } : {}),
+          ...(payload.area ? { area: payload.area } : {}),
+          ...(payload.areaVersion || payload.captionVersion ? {
+            fieldVersions: {
+              ...(payload.areaVersion ? { area: payload.areaVersion } : {}),
+              ...(payload.captionVersion ? { caption: payload.captionVersion } : {}),
+            },
+          } : {}),
+          ...(payload.source ? { source: payload.source } : {}),
+        });
+        await inspectionDB.setPhotoRemoteId(payload.photoId, remoteId);
+        return;
+      }
+
+      case 'ADD_MARKER': {
+        const payload = this.parsePayload(operation, 'ADD_MARKER');
+        await firestoreService.addMarker({
+          id: payload.markerId,
+          inspectionId: await this.resolveInspectionRemoteId(inspectionId),
+          timestamp: payload.timestamp,
+          audioTimestamp: payload.audioTimestamp,
+          ...(payload.label ? { label: payload.label } : {}),
+        });
+        return;
+      }
+
+      case 'ADD_VIDEO_CLIP': {
+        const payload = this.parsePayload(operation, 'ADD_VIDEO_CLIP');
+        await firestoreService.addVideoClip({
+          id: payload.clipId,
+          inspectionId: await this.resolveInspectionRemoteId(inspectionId),
+          videoUri: payload.videoUri,
+          timestamp: payload.timestamp,
+          audioTimestamp: payload.audioTimestamp,
+          endAudioTimestamp: payload.endAudioTimestamp,
+          ...(payload.sessionId ? { sessionId: payload.sessionId } : {}),
+          ...(payload.area ? { area: payload.area } : {}),
+        });
+        return;
+      }
+
+      case 'UPDATE_VIDEO_CLIP_FIREBASE_URL': {
+        const payload = this.parsePayload(operation, 'UPDATE_VIDEO_CLIP_FIREBASE_URL');
+        await firestoreService.updateVideoClipFirebaseUrl(payload.clipId, payload.firebaseUrl);
+        return;
+      }
+
+      case 'UPDATE_INSPECTION_AUDIO_URI': {
+        const payload = this.parsePayload(operation, 'UPDATE_INSPECTION_AUDIO_URI');
+        await firestoreService.updateInspectionAudioUrl(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.audioUri,
+          payload.audioPauses,
+          payload.audioSilences
+        );
+        return;
+      }
+
+      case 'UPDATE_INSPECTION_AREAS': {
+        const payload = this.parsePayload(operation, 'UPDATE_INSPECTION_AREAS');
+        await firestoreService.updateInspectionAreas(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.areas
+        );
+        return;
+      }
+
+      case 'UPDATE_AREA_PROPOSALS': {
+        const payload = this.parsePayload(operation, 'UPDATE_AREA_PROPOSALS');
+        await firestoreService.updateAreaProposals(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.proposals
+        );
+        return;
+      }
+
+      // No longer queued - audio uploads chunk by chunk - but older installs may still hold one
+      case 'UPDATE_INSPECTION_FIREBASE_AUDIO_URL': {
+        const payload = this.parsePayload(operation, 'UPDATE_INSPECTION_FIREBASE_AUDIO_URL');
+        await firestoreService.updateInspectionFirebaseAudioUrl(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.firebaseUrl
+        );
+        return;
+      }
+
+      case 'UPDATE_INSPECTION_STATUS': {
+        const payload = this.parsePayload(operation, 'UPDATE_INSPECTION_STATUS');
+        const remoteId = await this.resolveInspectionRemoteId(inspectionId);
+        if (payload.version) {
+          const remote = await firestoreService.getInspection(remoteId);
+          const outcome = await this.mergeField(
+            { entityType: 'INSPECTION', inspectionId, entityId: inspectionId, field: 'status' },
+            { value: payload.status, version: payload.version },
+            { value: remote?.status, version: remote?.fieldVersions?.status }
+          );
+          if (outcome !== 'LOCAL') {
+            return; // Server already has it, has a better value, or needs a human to decide
+          }
+        }
+        await firestoreService.updateInspectionStatus(remoteId, payload.status, payload.version);
+        return;
+      }
+
+      case 'UPDATE_PHOTO_FIREBASE_URL': {
+        const payload = this.parsePayload(operation, 'UPDATE_PHOTO_FIREBASE_URL');
+        const remoteId = await this.resolvePhotoRemoteId(payload.photoId);
+        if (!remoteId) {
+          return;
+        }
+        await firestoreService.updatePhotoFirebaseUrl(remoteId, payload.firebaseUrl);
+        return;
+      }
+
+      case 'UPDATE_PHOTO_CAPTION': {
+        const payload = this.parsePayload(operation, 'UPDATE_PHOTO_CAPTION');
+        const remoteId = await this.resolvePhotoRemoteId(payload.photoId);
+        if (!remoteId) {
+          return;
+        }
+        if (payload.version) {
+          const remote = await firestoreService.getPhoto(remoteId);
+          const outcome = await this.mergeField(
+            { entityType: 'PHOTO', inspectionId, entityId: payload.photoId, field: 'caption' },
+            { value: payload.caption, version: payload.version },
+            { value: remote?.caption, version: remote?.fieldVersions?.caption }
+          );
+          if (outcome !== 'LOCAL') {
+            return;
+          }
+        }
+        await firestoreService.updatePhotoCaption(remoteId, payload.caption, payload.version);
+        return;
+      }
+
+      case 'UPDATE_PHOTO_AREA': {
+        const payload = this.parsePayload(operation, 'UPDATE_PHOTO_AREA');
+        const remoteId = await this.resolvePhotoRemoteId(payload.photoId);
+        if (!remoteId) {
+          return;
+        }
+        const remote = await firestoreService.getPhoto(remoteId);
+        const outcome = await this.mergeField(
+          { entityType: 'PHOTO', inspectionId, entityId: payload.photoId, field: 'area' },
+          { value: payload.area, version: payload.version },
+          { value: remote?.area, version: remote?.fieldVersions?.area }
+        );
+        if (outcome !== 'LOCAL') {
+          return;
+        }
+        await firestoreService.updatePhotoArea(remoteId, payload.area, payload.version);
+        return;
+      }
+
+      case 'DELETE_PHOTO': {
+        const payload = this.parsePayload(operation, 'DELETE_PHOTO');
+        // Photos keep their device ID in Firestore and Storage, and the local
+        // record may already be gone from the trash, so there is nothing to resolve
+        await firestoreService.deletePhoto(payload.photoId);
+        await firebaseStorage.deletePhoto(inspectionId, payload.photoId);
+        // A restored photo is added again as a new server copy
+        await inspectionDB.setPhotoRemoteId(payload.photoId, null);
+        return;
+      }
+
+      case 'DELETE_INSPECTION': {
+        const payload = this.parsePayload(operation, 'DELETE_INSPECTION');
+        // The local record is already gone; both deletes skip what an earlier attempt removed
+        const documents = await firestoreService.deleteInspection(payload.remoteId);
+        // Files are stored under the device's inspection ID
+        const files = await firebaseStorage.deleteInspectionFiles(inspectionId);
+        console.log('Inspection deleted from the server:', inspectionId, { ...documents, files });
+        return;
+      }
+
+      case 'SAVE_AUDIO_SESSION': {
+        const payload = this.parsePayload(operation, 'SAVE_AUDIO_SESSION');
+        await firestoreService.setAudioSession(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.sessionIndex,
+          {
+            startedAt: payload.startedAt,
+            startOffset: payload.startOffset,
+            ...(payload.endedAt !== undefined ? { endedAt: payload.endedAt } : {}),
+            ...(payload.endOffset !== undefined ? { endOffset: payload.endOffset } : {}),
+          }
+        );
+        return;
+      }
+
+      case 'ADD_AUDIO_CHUNK': {
+        const payload = this.parsePayload(operation, 'ADD_AUDIO_CHUNK');
+        await firestoreService.setAudioChunk(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.chunkIndex,
+          { startOffset: payload.startOffset, durationMs: payload.durationMs }
+        );
+        return;
+      }
+
+      case 'UPDATE_AUDIO_CHUNK_FIREBASE_URL': {
+        const payload = this.parsePayload(operation, 'UPDATE_AUDIO_CHUNK_FIREBASE_URL');
+        await firestoreService.updateAudioChunkFirebaseUrl(
+          await this.resolveInspectionRemoteId(inspectionId),
+          payload.chunkIndex,
+          payload.firebaseUrl
+        );
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown outbox operation type: ${operation.type}`);
+    }
+  }
+
+  /**
+   * Pull server-side edits for an inspection and merge them into the local copy
+   * Returns the number of fields that need a human to resolve
+   */
+  async pullInspection(inspectionId: string): Promise<number> {
+    const local = await inspectionDB.getInspection(inspectionId);
+    if (!local?.remote_id) {
+      return 0; // Not on the server yet, nothing to pull
+    }
+
+    const remote = await firestoreService.getInspection(local.remote_id);
+    if (!remote) {
+      return 0;
+    }
+
+    let conflicts = 0;
+    const localVersions = parseFieldVersions(local.field_versions);
+
+    for (const field of Object.keys(INSPECTION_FIELD_COLUMNS) as InspectionMergeField[]) {
+      const outcome = await this.mergeField(
+        { entityType: 'INSPECTION', inspectionId, entityId: inspectionId, field },
+        { value: local[INSPECTION_FIELD_COLUMNS[field]] as string | undefined, version: localVersions[field] },
+        { value: remote[field], version: remote.fieldVersions?.[field] }
+      );
+      if (outcome === 'CONFLICT') {
+        conflicts++;
+      }
+    }
+
+    const localPhotos = await inspectionDB.getPhotosForInspection(inspectionId);
+    const remotePhotos = await firestoreService.getPhotosForInspection(local.remote_id);
+    const remotePhotosById = new Map(remotePhotos.map(photo => [photo.id, photo]));
+
+    for (const localPhoto of localPhotos) {
+      const remotePhoto = localPhoto.remote_id ? remotePhotosById.get(localPhoto.remote_id) : undefined;
+      if (!remotePhoto) {
+        continue;
+      }
+
+      const photoVersions = parseFieldVersions(localPhoto.field_versions);
+      for (const field of Object.keys(PHOTO_FIELD_COLUMNS) as PhotoMergeField[]) {
+        const outcome = await this.mergeField(
+          { entityType: 'PHOTO', inspectionId, entityId: localPhoto.id, field },
+          { value: localPhoto[PHOTO_FIELD_COLUMNS[field]] as string | undefined, version: photoVersions[field] },
+          { value: remotePhoto[field], version: remotePhoto.fieldVersions?.[field] }
+        );
+        if (outcome === 'CONFLICT') {
+          conflicts++;
+        }
+      }
+    }
+
+    // Area proposals come from analysis; once the engineer has reviewed one
+    // on the device, the device copy is the one that counts
+    const localProposals: AreaProposal[] = local.area_proposals ? JSON.parse(local.area_proposals) : [];
+    const reviewed = localProposals.some(proposal => proposal.status !== 'PROPOSED');
+    if (remote.areaProposals && !reviewed && JSON.stringify(remote.areaProposals) !== JSON.stringify(localProposals)) {
+      await inspectionDB.updateInspectionAreaProposals(inspectionId, remote.areaProposals);
+    }
+
+    // Marker captions are only ever written by analysis, so the server copy wins
+    const localMarkers = await inspectionDB.getMarkersForInspection(inspectionId);
+    const remoteMarkers = await firestoreService.getMarkersForInspection(local.remote_id);
+    const remoteMarkersById = new Map(remoteMarkers.map(marker => [marker.id, marker]));
+
+    for (const localMarker of localMarkers) {
+      const remoteCaption = remoteMarkersById.get(localMarker.id)?.caption;
+      if (remoteCaption && remoteCaption !== localMarker.caption) {
+        await inspectionDB.updateMarkerCaption(localMarker.id, remoteCaption);
+      }
+    }
+
+    console.log('Pulled inspection from Firestore:', inspectionId, 'conflicts:', conflicts);
+    return conflicts;
+  }
+
+  /**
+   * Merge one field: take the server value locally if it wins, or record a
+   * conflict if the merge isn't safe. Pushing a winning local value is left
+   * to the caller
+   */
+  private async mergeField(
+    target: MergeTarget,
+    local: VersionedValue,
+    remote: VersionedValue
+  ): Promise<MergeOutcome> {
+    const outcome = resolveField(local, remote);
+
+    if (outcome === 'REMOTE') {
+      const value = remote.value ?? null;
+      const version = remote.version ?? UNVERSIONED;
+      if (target.entityType === 'INSPECTION') {
+        await inspectionDB.setInspectionField(target.entityId, target.field, value, version);
+      } else {
+        await inspectionDB.setPhotoField(target.entityId, target.field, value, version);
+      }
+    } else if (outcome === 'CONFLICT') {
+      console.log('Conflict on', target.entityType, target.entityId, target.field);
+      await inspectionDB.recordConflict({
+        inspection_id: target.inspectionId,
+        entity_type: target.entityType,
+        entity_id: target.entityId,
+        field: target.field,
+        local_value: local.value ?? undefined,
+        remote_value: remote.value ?? undefined,
+        local_version: local.version ? JSON.stringify(local.version) : undefined,
+        remote_version: remote.version ? JSON.stringify(remote.version) : undefined,
+      });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Decode an operation's JSON payload
+   */
+  private parsePayload<T extends OutboxOperationType>(
+    operation: DatabaseOutboxOperation,
+    _type: T
+  ): OutboxPayloads[T] {
+    return JSON.parse(operation.payload) as OutboxPayloads[T];
+  }
+
+  /**
+   * Look up the Firestore ID of an inspection that has already been synced
+   * Records created on the device keep their ID in Firestore, so the mapping
+   * is the identity except for inspections first synced with server-assigned IDs
+   */
+  private async resolveInspectionRemoteId(inspectionId: string): Promise<string> {
+    const inspection = await inspectionDB.getInspection(inspectionId);
+    if (!inspection?.remote_id) {
+      throw new Error(`Inspection ${inspectionId} has not been synced yet`);
+    }
+    return inspection.remote_id;
+  }
+
+  /**
+   * Look up the Firestore ID of a photo that has already been synced
+   * Resolves with null once the photo has been emptied from the trash, leaving nothing to update
+   */
+  private async resolvePhotoRemoteId(photoId: string): Promise<string | null> {
+    const photo = await inspectionDB.getPhoto(photoId);
+    if (!photo) {
+      return null;
+    }
+    if (!photo.remote_id) {
+      throw new Error(`Photo ${photoId} has not been synced yet`);
+    }
+    return photo.remote_id;
+  }
+
+  /**
+   * Push the current pending count to all subscribers
+   */
+  private notifyPendingCount(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    inspectionDB.getPendingOperationCount()
+      .then(count => this.listeners.forEach(listener => listener(count)))
+      .catch(error => console.error('Failed to read pending sync count:', error));
+  }
+}
+
+export const syncService = new SyncService();
@@ -1,5 +1,8 @@
 import { storage } from '../config/firebase';
 import { ref, getDownloadURL } from 'firebase/storage';
+import { AudioSpan, RecordingPause } from '../types';
+import { getTimelineSection } from '../utils/recordingTimeline';
+import { isWithinSpans } from '../utils/levelMonitor';
 
 export interface TranscriptionResult {
   text: string;
@@ -76,6 +79,55 @@ export class TranscriptionService {
     }
   }
 
+  /**
+   * Transcribe a segmented recording chunk by chunk
+   * Segment times are shifted by each chunk's start offset, so they sit on the
+   * same continuous timeline as photo audio timestamps
+   */
+  async transcribeChunks(chunks: { firebaseUrl: string; startOffset: number }[]): Promise<TranscriptionResult> {
+    const ordered = [...chunks].sort((a, b) => a.startOffset - b.startOffset);
+    const results: TranscriptionResult[] = [];
+
+    for (const chunk of ordered) {
+      const result = await this.transcribeAudio(chunk.firebaseUrl);
+      results.push({
+        ...result,
+        segments: result.segments.map(segment => ({
+          ...segment,
+          start: segment.start + chunk.startOffset,
+          end: segment.end + chunk.startOffset,
+        })),
+      });
+    }
+
+    return {
+      text: results.map(result => result.text.trim()).filter(Boolean).join(' '),
+      segments: results.flatMap(result => result.segments),
+      confidence: results.length > 0
+        ? results.reduce((total, result) => total + result.confidence, 0) / results.length
+        : 0,
+    };
+  }
+
+  /**
+   * Drop segments that fall entirely within silent stretches of the recording
+   * Speech recognition tends to invent words for dead air
+   */
+  removeSilentSegments(transcription: TranscriptionResult, silences: AudioSpan[]): TranscriptionResult {
+    const segments = transcription.segments.filter(segment =>
+      !isWithinSpans(silences, segment.start, segment.end)
+    );
+    if (segments.length === transcription.segments.length) {
+      return transcription;
+    }
+
+    return {
+      ...transcription,
+      text: segments.map(segment => segment.text.trim()).filter(Boolean).join(' '),
+      segments,
+    };
+  }
+
   /**
    * Download audio file from Firebase Storage as blob
    */
@@ -110,11 +162,21 @@ export class TranscriptionService {
 
   /**
    * Get context around a specific timestamp (previous + current + next segments)
+   * Context never reaches across a recording pause - speech on the other side
+   * may have been minutes apart in real time
    */
-  getContextAroundTimestamp(segments: TranscriptionSegment[], timestamp: number, contextRange: number = 5000): string {
-    const relevantSegments = segments.filter(segment => 
-      Math.abs(segment.start - timestamp) <= contextRange ||
-      Math.abs(segment.end - timestamp) <= contextRange
+  getContextAroundTimestamp(
+    segments: TranscriptionSegment[],
+    timestamp: number,
+    contextRange: number = 5000,
+    pauses: RecordingPause[] = []
+  ): string {
+    const section = getTimelineSection(pauses, timestamp);
+    const relevantSegments = segments.filter(segment =>
+      (Math.abs(segment.start - timestamp) <= contextRange ||
+        Math.abs(segment.end - timestamp) <= contextRange) &&
+      segment.end > section.start &&
+      segment.start < section.end
     );
 
     return relevantSegments
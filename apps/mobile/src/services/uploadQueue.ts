@@ -0,0 +1,334 @@
+import NetInfo, { NetInfoState, NetInfoStateType } from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { inspectionDB } from '../database';
+import { firebaseStorage, UploadResult } from './firebaseStorage';
+import { inspectionRepository } from './inspectionRepository';
+import { DatabaseUploadTask, UploadKind, UploadNetworkPolicy, UploadQueueState } from '../types';
+
+export const BASE_RETRY_DELAY_MS = 5 * 1000;
+export const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+export const MAX_UPLOAD_ATTEMPTS = 10;
+
+const NETWORK_POLICY_SETTING = 'upload_network_policy';
+
+type UploadQueueListener = (state: UploadQueueState) => void;
+
+/**
+ * Delay before the next attempt after `attempts` failures: 5s, 10s, 20s... capped at 30 min
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Durable queue of photo, video and audio files waiting for Cloud Storage
+ * Tasks live in SQLite, so they survive restarts; failed attempts are retried
+ * with exponential backoff, and nothing is sent while offline or while on
+ * cellular when the user has chosen Wi-Fi only
+ */
+export class UploadQueueService {
+  private network: NetInfoState | null = null;
+  private networkPolicy: UploadNetworkPolicy = 'ANY';
+  private isProcessing = false;
+  private processRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<UploadQueueListener>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  /**
+   * Load the saved network policy and start uploading whenever the network allows
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribeNetInfo) {
+      return;
+    }
+
+    const savedPolicy = await inspectionDB.getSetting(NETWORK_POLICY_SETTING);
+    if (savedPolicy === 'WIFI_ONLY' || savedPolicy === 'ANY') {
+      this.networkPolicy = savedPolicy;
+    }
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const couldUpload = this.canUpload();
+      this.network = state;
+
+      if (this.canUpload() && !couldUpload) {
+        console.log('Network allows uploads, processing upload queue');
+        this.requestProcessing();
+      }
+    });
+  }
+
+  /**
+   * Stop listening for connectivity changes and cancel any scheduled retry
+   */
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Subscribe to pending and failed upload counts
+   */
+  subscribe(listener: UploadQueueListener): () => void {
+    this.listeners.add(listener);
+    this.getState()
+      .then(listener)
+      .catch(error => console.error('Failed to read upload queue state:', error));
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a captured photo for upload
+   */
+  async enqueuePhotoUpload(inspectionId: string, photoId: string, localUri: string): Promise<void> {
+    await this.enqueue('PHOTO', inspectionId, photoId, localUri);
+  }
+
+  /**
+   * Queue a finalized chunk of an inspection's audio for upload
+   */
+  async enqueueAudioChunkUpload(inspectionId: string, chunkId: string, localUri: string): Promise<void> {
+    await this.enqueue('AUDIO_CHUNK', inspectionId, chunkId, localUri);
+  }
+
+  /**
+   * Queue a recorded video clip for upload
+   */
+  async enqueueVideoUpload(inspectionId: string, clipId: string, localUri: string): Promise<void> {
+    await this.enqueue('VIDEO', inspectionId, clipId, localUri);
+  }
+
+  /**
+   * Get uploads that ran out of retries
+   */
+  async getFailedUploads(): Promise<DatabaseUploadTask[]> {
+    return inspectionDB.getUploadsByStatus('FAILED');
+  }
+
+  /**
+   * Give failed uploads another full set of retries
+   */
+  async retryFailedUploads(): Promise<void> {
+    const failed = await this.getFailedUploads();
+    for (const task of failed) {
+      await inspectionDB.retryUpload(task.id);
+    }
+    this.requestProcessing();
+  }
+
+  /**
+   * Get whether uploads may use cellular data
+   */
+  getNetworkPolicy(): UploadNetworkPolicy {
+    return this.networkPolicy;
+  }
+
+  /**
+   * Choose between Wi-Fi only and any connection for uploads
+   */
+  async setNetworkPolicy(policy: UploadNetworkPolicy): Promise<void> {
+    this.networkPolicy = policy;
+    await inspectionDB.setSetting(NETWORK_POLICY_SETTING, policy);
+    this.requestProcessing();
+  }
+
+  /**
+   * Notify subscribers and upload right away if the network allows
+   */
+  requestProcessing(): void {
+    this.notifyState();
+
+    if (this.canUpload()) {
+      this.processQueue().catch(error => {
+        console.error('Upload queue processing failed:', error);
+      });
+    }
+  }
+
+  /**
+   * Upload every task whose backoff has elapsed, one at a time
+   * Stops early if the network stops allowing uploads
+   */
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      this.processRequested = true;
+      return;
+    }
+
+    this.isProcessing = true;
+    this.clearRetryTimer();
+
+    try {
+      do {
+        this.processRequested = false;
+        const tasks = await inspectionDB.getDueUploads(Date.now());
+
+        for (const task of tasks) {
+          if (!this.canUpload()) {
+            console.log('Network no longer allows uploads, pausing upload queue');
+            return;
+          }
+          await this.uploadTask(task);
+        }
+      } while (this.processRequested);
+    } finally {
+      this.isProcessing = false;
+      this.notifyState();
+      await this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Upload one file and record its URL locally and in Firestore
+   */
+  private async uploadTask(task: DatabaseUploadTask): Promise<void> {
+    try {
+      const fileInfo = await FileSystem.getInfoAsync(task.local_uri);
+      if (!fileInfo.exists) {
+        // Retrying can't bring a deleted file back
+        await inspectionDB.recordUploadFailure(task.id, `Local file is missing: ${task.local_uri}`, null);
+        return;
+      }
+
+      const result = await this.uploadFile(task);
+
+      if (!(await this.entityExists(task))) {
+        // Deleted while uploading - its inspection's files may already have been cleared from Storage
+        await firebaseStorage.deleteFile(result.filePath);
+        await inspectionDB.completeUpload(task.id);
+        console.log('Removed upload of deleted file:', task.kind, task.entity_id);
+        return;
+      }
+
+      if (task.kind === 'PHOTO') {
+        await inspectionRepository.updatePhotoFirebaseUrl(task.entity_id, result.downloadUrl);
+      } else if (task.kind === 'VIDEO') {
+        await inspectionRepository.updateVideoClipFirebaseUrl(task.entity_id, result.downloadUrl);
+      } else {
+        await inspectionRepository.updateAudioChunkFirebaseUrl(task.entity_id, result.downloadUrl);
+      }
+
+      await inspectionDB.completeUpload(task.id);
+      console.log('Uploaded queued file:', task.kind, task.entity_id);
+    } catch (error) {
+      console.error('Failed to upload queued file:', task.kind, task.entity_id, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = task.attempts + 1;
+      const nextAttemptAt = attempts >= MAX_UPLOAD_ATTEMPTS ? null : Date.now() + getRetryDelay(attempts);
+      await inspectionDB.recordUploadFailure(task.id, errorMessage, nextAttemptAt);
+    }
+  }
+
+  /**
+   * Send a task's file to Cloud Storage under the name its kind uses
+   */
+  private async uploadFile(task: DatabaseUploadTask): Promise<UploadResult> {
+    if (task.kind === 'PHOTO') {
+      return firebaseStorage.uploadPhoto(task.local_uri, task.inspection_id, task.entity_id);
+    }
+    if (task.kind === 'VIDEO') {
+      return firebaseStorage.uploadVideo(task.local_uri, task.inspection_id, task.entity_id);
+    }
+    return firebaseStorage.uploadAudio(task.local_uri, task.inspection_id);
+  }
+
+  /**
+   * Whether the photo, clip or chunk a task uploads still has a record
+   */
+  private async entityExists(task: DatabaseUploadTask): Promise<boolean> {
+    if (task.kind === 'PHOTO') {
+      return (await inspectionDB.getPhoto(task.entity_id)) !== null;
+    }
+    if (task.kind === 'VIDEO') {
+      return (await inspectionDB.getVideoClip(task.entity_id)) !== null;
+    }
+    return (await inspectionDB.getAudioChunk(task.entity_id)) !== null;
+  }
+
+  /**
+   * Write a task and try to upload it
+   */
+  private async enqueue(kind: UploadKind, inspectionId: string, entityId: string, localUri: string): Promise<void> {
+    await inspectionDB.enqueueUpload({
+      id: `${kind}:${entityId}`,
+      inspection_id: inspectionId,
+      kind,
+      entity_id: entityId,
+      local_uri: localUri,
+    });
+    this.requestProcessing();
+  }
+
+  /**
+   * Whether the current connection may be used for uploads
+   */
+  private canUpload(): boolean {
+    if (!this.network?.isConnected || this.network.isInternetReachable === false) {
+      return false;
+    }
+    if (this.networkPolicy === 'WIFI_ONLY') {
+      return this.network.type === NetInfoStateType.wifi || this.network.type === NetInfoStateType.ethernet;
+    }
+    return true;
+  }
+
+  /**
+   * Wake up when the next backed-off task becomes due
+   */
+  private async scheduleRetry(): Promise<void> {
+    this.clearRetryTimer();
+    if (!this.canUpload()) {
+      return;
+    }
+
+    const nextAttemptAt = await inspectionDB.getNextUploadAttemptAt();
+    if (nextAttemptAt === null) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.requestProcessing();
+    }, Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+  /**
+   * Cancel a scheduled retry
+   */
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Read the current pending and failed counts
+   */
+  private async getState(): Promise<UploadQueueState> {
+    const [pending, failed] = await Promise.all([
+      inspectionDB.getUploadCount('PENDING'),
+      inspectionDB.getUploadCount('FAILED'),
+    ]);
+    return { pending, failed };
+  }
+
+  /**
+   * Push the current counts to subscribers
+   */
+  private notifyState(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    this.getState()
+      .then(state => this.listeners.forEach(listener => listener(state)))
+      .catch(error => console.error('Failed to read upload queue state:', error));
+  }
+}
+
+export const uploadQueue = new UploadQueueService();
@@ -1,9 +1,117 @@
 export interface Photo {
   id: string;
-  uri: string;
+  uri: string; // Resized copy that gets uploaded
   timestamp: number;
   audioTimestamp: number;
   caption?: string;
+  sessionId?: string; // Recording session the photo was taken in, unset if nothing was recording
+  thumbnailUri?: string; // Small local copy for lists, unset if processing failed
+  originalUri?: string; // Full-resolution capture, only kept when the original photo policy says so
+  location?: PhotoLocation; // Unset when location permission was denied or there was no fix
+  heading?: PhotoHeading;
+  device?: DeviceInfo;
+  area?: string; // Part of the property, e.g. "Roof" - picked on the camera or inferred from the transcript
+  source?: PhotoSource; // Unset on photos taken before imports existed, which all came from the camera
+  deletedAt?: number; // Set while the photo is in the trash
+  quality?: PhotoQuality; // Unset until the photo has been checked
+}
+
+/**
+ * Where a photo came from: the in-app camera, or the gallery / an external camera
+ */
+export type PhotoSource = 'CAMERA' | 'IMPORT';
+
+/**
+ * Problems that usually mean a photo should be retaken
+ */
+export type PhotoQualityIssue = 'BLUR' | 'UNDEREXPOSED' | 'OVEREXPOSED' | 'DUPLICATE';
+
+/**
+ * On-device quality scores of a photo, measured on a downscaled copy right after it is saved
+ */
+export interface PhotoQuality {
+  sharpness: number; // Variance of the Laplacian; low when shake or focus smeared the detail
+  brightness: number; // Mean luminance, 0-255
+  darkFraction: number; // Share of pixels crushed to black, 0-1
+  brightFraction: number; // Share of pixels blown out to white, 0-1
+  similarity?: number; // How alike it is to the photo before it, 0-1; unset for the first photo
+  issues: PhotoQualityIssue[];
+}
+
+export type AreaProposalStatus = 'PROPOSED' | 'CONFIRMED' | 'REJECTED';
+
+/**
+ * A change of area the engineer said out loud, e.g. "moving to the master bathroom"
+ * Analysis proposes these as area boundaries on the timeline; the engineer
+ * confirms, corrects or rejects them on the review screen
+ */
+export interface AreaProposal {
+  id: string;
+  audioTimestamp: number; // Where on the timeline the area starts
+  area: string;
+  phrase: string; // What was said
+  status: AreaProposalStatus;
+}
+
+/**
+ * Where the phone was when a photo was taken
+ */
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // Metres above sea level
+  accuracy?: number; // Metres
+  fixedAt: number; // When the fix was taken, which can be a few seconds before the photo
+}
+
+/**
+ * Which way the camera faced, in degrees clockwise from north
+ */
+export interface PhotoHeading {
+  degrees: number;
+  reference: 'TRUE' | 'MAGNETIC'; // Magnetic when true north isn't known, e.g. without a location
+}
+
+/**
+ * The phone a photo was taken with
+ */
+export interface DeviceInfo {
+  make?: string;
+  model?: string;
+  os: string;
+  osVersion: string;
+}
+
+/**
+ * Whether the full-resolution capture is kept on the phone after the upload copy is made
+ */
+export type OriginalPhotoPolicy = 'KEEP' | 'DISCARD';
+
+/**
+ * A point on the timeline flagged without a photo, e.g. "start of north elevation"
+ * Markers break the report into sections and are captioned like photos
+ */
+export interface Marker {
+  id: string;
+  timestamp: number;
+  audioTimestamp: number;
+  label?: string; // Typed by the engineer when dropping the marker
+  caption?: string; // Generated from the surrounding transcript
+}
+
+/**
+ * A short video of damage that only shows in motion, e.g. water dripping or a sagging joist
+ * Clips are recorded without sound; review plays the inspection audio over the same stretch
+ */
+export interface VideoClip {
+  id: string;
+  uri: string;
+  timestamp: number; // When recording started
+  audioTimestamp: number; // Where on the timeline the clip starts
+  endAudioTimestamp: number; // Where on the timeline the clip ends
+  sessionId?: string;
+  area?: string;
+  firebaseUrl?: string;
 }
 
 export interface Inspection {
@@ -13,18 +121,140 @@ export interface Inspection {
   claimNumber: string;
   inspectionDate: string;
   photos: Photo[];
+  markers?: Marker[];
+  clips?: VideoClip[];
+  audioSessions?: AudioSession[];
+  // Set once there is audio; the whole file only for recordings made before chunking, otherwise the
+  // first chunk. Read the audio itself through audioChunks
   audioUri?: string;
   firebaseAudioUrl?: string;
+  audioPauses?: RecordingPause[];
+  audioSilences?: AudioSpan[]; // Long stretches with no speech, skipped by analysis
+  audioChunks?: AudioChunk[];
+  recordingProfile?: RecordingProfileId; // Unset on inspections recorded before profiles existed
+  areas?: string[]; // Areas offered on the camera screen, unset until the engineer edits the defaults
+  areaProposals?: AreaProposal[]; // Area changes inferred from the transcript, in timeline order
   status: 'DRAFT' | 'PROCESSING' | 'READY' | 'ERROR';
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * A stretch of the recording timeline (ms)
+ */
+export interface AudioSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A problem with the microphone input worth telling the engineer about
+ */
+export type AudioLevelWarning = 'SILENCE' | 'CLIPPING';
+
+export type RecordingProfileId = 'standard' | 'compact' | 'high';
+
+/**
+ * Named audio encoding settings for inspection recordings
+ */
+export interface RecordingProfile {
+  id: RecordingProfileId;
+  name: string;
+  codec: 'AAC';
+  bitRate: number; // bits per second
+  channels: 1 | 2;
+  sampleRate: number; // Hz
+}
+
 export interface RecordingState {
   isRecording: boolean;
+  isPaused: boolean;
+  isInterrupted: boolean; // Another app or a call has the microphone; resumes automatically
+  recorderError?: string; // Why a new recorder couldn't be started; set until one starts
   audioUri?: string;
   startTime?: number;
   duration: number;
+  pauses: RecordingPause[];
+  level?: number; // Latest input level in dBFS (-160 to 0), unset when not recording
+  levelWarning: AudioLevelWarning | null;
+  silences: AudioSpan[];
+  sessionId?: string; // Session being recorded, unset when recording without an inspection
+}
+
+/**
+ * A stretch of wall-clock time during which the recorder was paused
+ * The audio file has no gap, so the whole pause sits at one position on it
+ */
+export interface RecordingPause {
+  audioOffset: number; // Position in the recording where the pause happened (ms)
+  pausedAt: number;
+  resumedAt?: number; // Unset while the pause is ongoing or if recording stopped while paused
+  reason?: RecordingPauseReason; // Unset on pauses recorded before reasons existed - treat as USER
+}
+
+/**
+ * Why recording stopped: the engineer paused it, something else took the
+ * audio session (a call, Siri, another app), the app was killed, or the
+ * inspection was stopped and later recording started again in a new session
+ */
+export type RecordingPauseReason = 'USER' | 'INTERRUPTION' | 'APP_KILLED' | 'SESSION_BREAK';
+
+/**
+ * One stretch of recording between starting and stopping the inspection
+ * Sessions carry on the same timeline, each starting where the last one ended
+ */
+export interface AudioSession {
+  id: string; // `${inspectionId}:${index}`
+  index: number;
+  startedAt: number;
+  startOffset: number; // Position on the inspection timeline where the session begins (ms)
+  endedAt?: number; // Unset while recording
+  endOffset?: number;
+}
+
+/**
+ * One finalized file of a segmented recording
+ * Chunks are laid end to end, so the inspection timeline is continuous even
+ * though each file starts again at zero
+ */
+export interface AudioChunk {
+  id: string; // `${inspectionId}:${index}`
+  index: number;
+  uri: string;
+  startOffset: number; // Position of the chunk's first sample on the inspection timeline (ms)
+  durationMs: number;
+  firebaseUrl?: string;
+}
+
+export interface RecordedAudio {
+  uri: string; // First chunk only - marks that there is audio; play and upload it through chunks
+  pauses: RecordingPause[];
+  silences: AudioSpan[];
+  chunks: AudioChunk[];
+}
+
+/**
+ * Where a recording left off, used to carry on after the app was killed
+ * or to record another session onto an inspection
+ */
+export interface RecordingResumePoint {
+  startedAt: number;
+  interruptedAt: number; // Best estimate of when recording stopped
+  pauses: RecordingPause[];
+  chunks: AudioChunk[];
+  silences?: AudioSpan[];
+  sessionId?: string; // Session to carry on; unset starts a new session after the last one
+}
+
+/**
+ * An inspection whose recording was still running when the app was killed
+ */
+export interface InterruptedInspection {
+  inspection: Inspection;
+  resumePoint: RecordingResumePoint;
+  recoveredPhotos: number; // Photo files found on disk that were never saved
+  recoveredChunks: number; // Audio files found on disk that were never saved
+  audioLost: boolean; // The chunk being recorded couldn't be read back
 }
 
 export interface DatabasePhoto {
@@ -35,6 +265,41 @@ export interface DatabasePhoto {
   timestamp: number;
   audio_timestamp: number;
   caption?: string;
+  session_id?: string;
+  thumbnail_uri?: string;
+  original_uri?: string;
+  location?: string; // JSON-encoded PhotoLocation
+  heading?: string; // JSON-encoded PhotoHeading
+  device?: string; // JSON-encoded DeviceInfo
+  area?: string;
+  source?: PhotoSource;
+  deleted_at?: number;
+  quality?: string; // JSON-encoded PhotoQuality
+  remote_id?: string;
+  field_versions?: string; // JSON-encoded FieldVersions
+  created_at: number;
+}
+
+export interface DatabaseMarker {
+  id: string;
+  inspection_id: string;
+  label?: string;
+  timestamp: number;
+  audio_timestamp: number;
+  caption?: string;
+  created_at: number;
+}
+
+export interface DatabaseVideoClip {
+  id: string;
+  inspection_id: string;
+  video_uri: string;
+  timestamp: number;
+  audio_timestamp: number;
+  end_audio_timestamp: number;
+  session_id?: string;
+  area?: string;
+  firebase_url?: string;
   created_at: number;
 }
 
@@ -46,7 +311,214 @@ export interface DatabaseInspection {
   inspection_date: string;
   audio_uri?: string;
   firebase_audio_url?: string;
+  audio_pauses?: string; // JSON-encoded RecordingPause[]
+  audio_silences?: string; // JSON-encoded AudioSpan[]
+  recording_profile?: string;
+  areas?: string; // JSON-encoded string[]
+  area_proposals?: string; // JSON-encoded AreaProposal[]
   status: string;
+  remote_id?: string;
+  field_versions?: string; // JSON-encoded FieldVersions
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Who last wrote a field - human edits always beat AI-generated values
+ */
+export type FieldSource = 'HUMAN' | 'AI';
+
+export interface FieldVersion {
+  updatedAt: number; // Client clock, milliseconds
+  source: FieldSource;
+  basedOn?: number; // updatedAt of the version the editor was looking at
+}
+
+export type FieldVersions = Record<string, FieldVersion>;
+
+// Fields that can be edited both on the device and in Firestore (Firestore names)
+export type InspectionMergeField = 'client' | 'address' | 'claimNumber' | 'status';
+export type PhotoMergeField = 'caption' | 'area';
+
+export type ConflictEntityType = 'INSPECTION' | 'PHOTO';
+
+export interface SyncConflict {
+  id: string;
+  inspectionId: string;
+  entityType: ConflictEntityType;
+  entityId: string;
+  field: string;
+  localValue: string | null;
+  remoteValue: string | null;
+  localVersion?: FieldVersion;
+  remoteVersion?: FieldVersion;
+  createdAt: number;
+}
+
+export interface DatabaseConflict {
+  id: string;
+  inspection_id: string;
+  entity_type: ConflictEntityType;
+  entity_id: string;
+  field: string;
+  local_value?: string;
+  remote_value?: string;
+  local_version?: string; // JSON-encoded FieldVersion
+  remote_version?: string; // JSON-encoded FieldVersion
+  created_at: number;
+  resolved_at?: number;
+}
+
+export interface DatabaseAudioChunk {
+  id: string;
+  inspection_id: string;
+  chunk_index: number;
+  local_uri: string;
+  start_offset: number;
+  duration_ms: number;
+  firebase_url?: string;
+  created_at: number;
+}
+
+export interface DatabaseAudioSession {
+  id: string;
+  inspection_id: string;
+  session_index: number;
+  started_at: number;
+  start_offset: number;
+  ended_at?: number;
+  end_offset?: number;
+  created_at: number;
+}
+
+export interface DatabaseActiveRecording {
+  inspection_id: string;
+  started_at: number;
+  recorder_uri?: string; // Temporary file of the chunk being recorded
+  chunk_index: number;
+  chunk_start_offset: number; // Where the chunk being recorded starts on the timeline
+  pauses?: string; // JSON-encoded RecordingPause[]
+  updated_at: number;
+}
+
+export interface DatabaseUploadSession {
+  storage_path: string; // Destination in Cloud Storage, one session per object
+  inspection_id: string;
+  local_uri: string;
+  upload_url: string; // Resumable session URL returned by Cloud Storage
+  content_type: string;
+  total_bytes: number;
+  bytes_uploaded: number;
   created_at: number;
   updated_at: number;
-}
\ No newline at end of file
+}
+
+export type UploadKind = 'PHOTO' | 'AUDIO_CHUNK' | 'VIDEO';
+
+export type UploadTaskStatus = 'PENDING' | 'FAILED';
+
+export type UploadNetworkPolicy = 'WIFI_ONLY' | 'ANY';
+
+export interface DatabaseUploadTask {
+  id: string; // `${kind}:${entity_id}`, so re-queuing the same file replaces the task
+  inspection_id: string;
+  kind: UploadKind;
+  entity_id: string; // Photo ID for photos, chunk ID for audio chunks, clip ID for videos
+  local_uri: string;
+  status: UploadTaskStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * How many records were removed, by table or Firestore collection
+ */
+export type DeletionCounts = Record<string, number>;
+
+/**
+ * What deleting an inspection removed from the device
+ * The Firestore and Cloud Storage copies are removed when the deletion syncs
+ */
+export interface InspectionDeletionReport {
+  records: DeletionCounts;
+  files: number;
+  failedFiles: number; // Files that couldn't be removed; deleting again retries them
+}
+
+export interface UploadQueueState {
+  pending: number;
+  failed: number;
+}
+
+export interface DatabaseOutboxOperation {
+  seq: number;
+  id: string; // Client-generated operation ID, replaying it is a no-op
+  inspection_id: string;
+  type: OutboxOperationType;
+  payload: string; // JSON-encoded operation arguments
+  attempts: number;
+  last_error?: string;
+  created_at: number;
+}
+
+export interface OutboxPayloads {
+  CREATE_INSPECTION: {
+    client: string;
+    address: string;
+    claimNumber: string;
+    inspectionDate: string;
+    status: Inspection['status'];
+    recordingProfile?: RecordingProfileId;
+  };
+  ADD_PHOTO: {
+    photoId: string;
+    photoUri: string;
+    timestamp: number;
+    audioTimestamp: number;
+    caption?: string;
+    sessionId?: string;
+    location?: PhotoLocation;
+    heading?: PhotoHeading;
+    device?: DeviceInfo;
+    area?: string;
+    areaVersion?: FieldVersion;
+    captionVersion?: FieldVersion;
+    source?: PhotoSource;
+  };
+  ADD_MARKER: { markerId: string; label?: string; timestamp: number; audioTimestamp: number };
+  ADD_VIDEO_CLIP: {
+    clipId: string;
+    videoUri: string;
+    timestamp: number;
+    audioTimestamp: number;
+    endAudioTimestamp: number;
+    sessionId?: string;
+    area?: string;
+  };
+  UPDATE_VIDEO_CLIP_FIREBASE_URL: { clipId: string; firebaseUrl: string };
+  UPDATE_INSPECTION_AUDIO_URI: { audioUri: string; audioPauses?: RecordingPause[]; audioSilences?: AudioSpan[] };
+  UPDATE_INSPECTION_FIREBASE_AUDIO_URL: { firebaseUrl: string };
+  UPDATE_INSPECTION_AREAS: { areas: string[] };
+  UPDATE_AREA_PROPOSALS: { proposals: AreaProposal[] };
+  UPDATE_INSPECTION_STATUS: { status: Inspection['status']; version?: FieldVersion };
+  UPDATE_PHOTO_FIREBASE_URL: { photoId: string; firebaseUrl: string };
+  UPDATE_PHOTO_CAPTION: { photoId: string; caption: string; version?: FieldVersion };
+  UPDATE_PHOTO_AREA: { photoId: string; area: string | null; version: FieldVersion };
+  DELETE_PHOTO: { photoId: string };
+  SAVE_AUDIO_SESSION: {
+    sessionId: string;
+    sessionIndex: number;
+    startedAt: number;
+    startOffset: number;
+    endedAt?: number;
+    endOffset?: number;
+  };
+  ADD_AUDIO_CHUNK: { chunkId: string; chunkIndex: number; startOffset: number; durationMs: number };
+  UPDATE_AUDIO_CHUNK_FIREBASE_URL: { chunkId: string; chunkIndex: number; firebaseUrl: string };
+  DELETE_INSPECTION: { remoteId: string }; // Captured before the local record is gone
+}
+
+export type OutboxOperationType = keyof OutboxPayloads;
@@ -0,0 +1,22 @@
+import { addArea, DEFAULT_AREAS, findArea, getInspectionAreas, removeArea } from '../areas';
+
+describe('areas', () => {
+  it('should offer the default areas until the list is edited', () => {
+    expect(getInspectionAreas({})).toEqual(DEFAULT_AREAS);
+    expect(getInspectionAreas({ areas: [] })).toEqual([]);
+  });
+
+  it('should add areas once, tidied up, whatever their case', () => {
+    const areas = addArea(['Roof'], '  Exterior   North ');
+
+    expect(areas).toEqual(['Roof', 'Exterior North']);
+    expect(addArea(areas, 'exterior north')).toBe(areas);
+    expect(addArea(areas, '   ')).toBe(areas);
+    expect(findArea(areas, 'ROOF')).toBe('Roof');
+  });
+
+  it('should remove an area regardless of case', () => {
+    expect(removeArea(['Roof', 'Kitchen'], 'kitchen')).toEqual(['Roof']);
+    expect(removeArea(['Roof'], 'Basement')).toEqual(['Roof']);
+  });
+});
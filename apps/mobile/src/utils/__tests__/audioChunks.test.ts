@@ -0,0 +1,70 @@
+import { findChunkAt, getAudioChunkId, getTimelineDuration } from '../audioChunks';
+import { transcriptionService } from '../../services/transcriptionService';
+import { AudioChunk } from '../../types';
+
+jest.mock('../../config/firebase', () => ({ storage: {} }));
+jest.mock('firebase/storage', () => ({ ref: jest.fn(), getDownloadURL: jest.fn() }));
+
+const chunk = (index: number, startOffset: number, durationMs: number): AudioChunk => ({
+  id: getAudioChunkId('insp-1', index),
+  index,
+  uri: `file://inspection_audio_insp-1_${index}.m4a`,
+  startOffset,
+  durationMs,
+});
+
+// Two full five-minute chunks and a short final one
+const chunks = [chunk(0, 0, 300000), chunk(1, 300000, 300000), chunk(2, 600000, 42000)];
+
+describe('audioChunks', () => {
+  describe('findChunkAt', () => {
+    it('should find the chunk and the position inside its file', () => {
+      expect(findChunkAt(chunks, 12000)).toEqual({ chunk: chunks[0], positionInChunk: 12000 });
+      expect(findChunkAt(chunks, 300000)).toEqual({ chunk: chunks[1], positionInChunk: 0 });
+      expect(findChunkAt(chunks, 615000)).toEqual({ chunk: chunks[2], positionInChunk: 15000 });
+    });
+
+    it('should clamp positions past the end to the last chunk', () => {
+      expect(findChunkAt(chunks, 999999)).toEqual({ chunk: chunks[2], positionInChunk: 42000 });
+      expect(findChunkAt([], 1000)).toBeNull();
+    });
+  });
+
+  describe('getTimelineDuration', () => {
+    it('should add up the chunks laid end to end', () => {
+      expect(getTimelineDuration(chunks)).toBe(642000);
+      expect(getTimelineDuration([])).toBe(0);
+    });
+  });
+
+  describe('transcribeChunks', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should place each chunk transcript on the continuous timeline', async () => {
+      jest.spyOn(transcriptionService, 'transcribeAudio').mockImplementation(async url => ({
+        text: url === 'https://storage/chunk-0' ? 'Front elevation.' : 'Rear deck.',
+        segments: [{ start: 1000, end: 4000, text: url, confidence: 0.9 }],
+        confidence: url === 'https://storage/chunk-0' ? 0.9 : 0.7,
+      }));
+
+      // Out of order on purpose - Firestore maps have no order
+      const result = await transcriptionService.transcribeChunks([
+        { firebaseUrl: 'https://storage/chunk-1', startOffset: 300000 },
+        { firebaseUrl: 'https://storage/chunk-0', startOffset: 0 },
+      ]);
+
+      expect(result.text).toBe('Front elevation. Rear deck.');
+      expect(result.segments).toEqual([
+        { start: 1000, end: 4000, text: 'https://storage/chunk-0', confidence: 0.9 },
+        { start: 301000, end: 304000, text: 'https://storage/chunk-1', confidence: 0.9 },
+      ]);
+      expect(result.confidence).toBeCloseTo(0.8);
+
+      // A photo taken 302s into the inspection finds speech from the second chunk
+      expect(transcriptionService.getSegmentForTimestamp(result.segments, 302000)?.text)
+        .toBe('https://storage/chunk-1');
+    });
+  });
+});
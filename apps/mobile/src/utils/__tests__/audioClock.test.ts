@@ -0,0 +1,77 @@
+import { toAudioTimestamp } from '../audioClock';
+import { transcriptionService, TranscriptionSegment } from '../../services/transcriptionService';
+
+jest.mock('../../config/firebase', () => ({ storage: {} }));
+jest.mock('firebase/storage', () => ({ ref: jest.fn(), getDownloadURL: jest.fn() }));
+
+const START = 1705312800000;
+
+describe('audioClock', () => {
+  describe('toAudioTimestamp', () => {
+    it('should use the recorder position at the midpoint of the status round trip', () => {
+      expect(toAudioTimestamp(
+        { durationMillis: 10000, requestedAt: START + 10000, receivedAt: START + 10040 },
+        START + 10020
+      )).toBe(10000);
+    });
+
+    it('should subtract the time spent asking for the status after the shutter press', () => {
+      // Shutter pressed at 10.0s, status came back 120ms later reporting 10.1s
+      expect(toAudioTimestamp(
+        { durationMillis: 10100, requestedAt: START + 10080, receivedAt: START + 10120 },
+        START + 10000
+      )).toBe(10000);
+    });
+
+    it('should never return a negative position', () => {
+      expect(toAudioTimestamp(
+        { durationMillis: 20, requestedAt: START + 100, receivedAt: START + 140 },
+        START
+      )).toBe(0);
+    });
+  });
+
+  describe('aligning quick successive photos with speech', () => {
+    const segments: TranscriptionSegment[] = [
+      { start: 0, end: 1800, text: 'Starting at the north elevation.', confidence: 0.9 },
+      { start: 1800, end: 2400, text: 'Cracked gutter here.', confidence: 0.9 },
+      { start: 2400, end: 3100, text: 'Missing shingle next to it.', confidence: 0.9 },
+      { start: 3100, end: 5000, text: 'Moving on to the garage.', confidence: 0.9 },
+    ];
+
+    // Recorder clock lags wall-clock by 35ms; status round trips take 20-60ms
+    const samplePhoto = (pressedOffset: number, roundTripMs: number) => {
+      const requestedAt = START + pressedOffset + 5;
+      const receivedAt = requestedAt + roundTripMs;
+      const durationMillis = (requestedAt + receivedAt) / 2 - START - 35;
+      return toAudioTimestamp({ durationMillis, requestedAt, receivedAt }, START + pressedOffset);
+    };
+
+    it('should place each photo within 100ms of the moment it was taken', () => {
+      const pressedOffsets = [2000, 2600, 2900];
+      const roundTrips = [20, 60, 40];
+
+      pressedOffsets.forEach((offset, index) => {
+        expect(Math.abs(samplePhoto(offset, roundTrips[index]) - offset)).toBeLessThanOrEqual(100);
+      });
+    });
+
+    it('should match each photo to the sentence spoken when it was taken', () => {
+      const gutterPhoto = samplePhoto(2000, 20);
+      const shinglePhoto = samplePhoto(2600, 60);
+
+      expect(transcriptionService.getSegmentForTimestamp(segments, gutterPhoto)?.text)
+        .toBe('Cracked gutter here.');
+      expect(transcriptionService.getSegmentForTimestamp(segments, shinglePhoto)?.text)
+        .toBe('Missing shingle next to it.');
+    });
+
+    it('should keep photos apart that a once-a-second duration would have merged', () => {
+      // Both photos fall between the 2s and 3s ticks of the display timer
+      const tickedDuration = (offset: number) => Math.floor(offset / 1000) * 1000;
+      expect(tickedDuration(2000)).toBe(tickedDuration(2600));
+
+      expect(samplePhoto(2000, 20)).not.toBe(samplePhoto(2600, 60));
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { findSessionAt, getAudioSessionId, getNextSessionResumePoint } from '../audioSessions';
+import { addInterruptionPause, getTimelineSection } from '../recordingTimeline';
+import { AudioChunk, AudioSession, Inspection } from '../../types';
+
+const START = 1705312800000;
+
+const chunk = (index: number, startOffset: number, durationMs: number): AudioChunk => ({
+  id: `insp-1:${index}`,
+  index,
+  uri: `file://inspection_audio_insp-1_${index}.m4a`,
+  startOffset,
+  durationMs,
+});
+
+// Recorded 7 min, stopped to review, then went back out for 2 min
+const sessions: AudioSession[] = [
+  { id: 'insp-1:0', index: 0, startedAt: START, startOffset: 0, endedAt: START + 420000, endOffset: 420000 },
+  { id: 'insp-1:1', index: 1, startedAt: START + 900000, startOffset: 420000, endedAt: START + 1020000, endOffset: 540000 },
+];
+
+const inspection = (overrides: Partial<Inspection> = {}): Inspection => ({
+  id: 'insp-1',
+  client: 'Test Client',
+  address: '1 Test Street',
+  claimNumber: 'CLM-1',
+  inspectionDate: '2024-01-15',
+  status: 'DRAFT',
+  photos: [],
+  createdAt: START - 5000,
+  updatedAt: START,
+  ...overrides,
+});
+
+describe('audioSessions', () => {
+  describe('findSessionAt', () => {
+    it('should find the session a position was recorded in', () => {
+      expect(getAudioSessionId('insp-1', 1)).toBe('insp-1:1');
+      expect(findSessionAt(sessions, 60000)?.id).toBe('insp-1:0');
+      expect(findSessionAt(sessions, 420000)?.id).toBe('insp-1:1');
+      expect(findSessionAt(sessions, 999999)?.id).toBe('insp-1:1');
+      expect(findSessionAt([], 0)).toBeNull();
+    });
+  });
+
+  describe('getNextSessionResumePoint', () => {
+    it('should start fresh when nothing has been recorded', () => {
+      expect(getNextSessionResumePoint(inspection())).toBeNull();
+    });
+
+    it('should pick up the timeline where the last session stopped', () => {
+      const silences = [{ start: 100000, end: 130000 }];
+      const resumePoint = getNextSessionResumePoint(inspection({
+        audioSessions: sessions.slice(0, 1),
+        audioChunks: [chunk(0, 0, 300000), chunk(1, 300000, 120000)],
+        audioSilences: silences,
+      }));
+
+      expect(resumePoint).toEqual({
+        startedAt: START,
+        interruptedAt: START + 420000,
+        pauses: [],
+        chunks: [chunk(0, 0, 300000), chunk(1, 300000, 120000)],
+        silences,
+      });
+      expect(resumePoint?.sessionId).toBeUndefined();
+    });
+
+    it('should estimate the end of audio recorded before sessions existed', () => {
+      const resumePoint = getNextSessionResumePoint(inspection({
+        audioChunks: [chunk(0, 0, 200000)],
+        audioPauses: [{ audioOffset: 60000, pausedAt: START + 55000, resumedAt: START + 115000 }],
+      }));
+
+      expect(resumePoint?.startedAt).toBe(START - 5000);
+      expect(resumePoint?.interruptedAt).toBe(START - 5000 + 200000 + 60000);
+    });
+
+    it('should keep transcript context from crossing into the next session', () => {
+      const resumePoint = getNextSessionResumePoint(inspection({
+        audioSessions: sessions.slice(0, 1),
+        audioChunks: [chunk(0, 0, 420000)],
+      }))!;
+      const pauses = addInterruptionPause(
+        resumePoint.pauses, 420000, resumePoint.interruptedAt, START + 900000, 'SESSION_BREAK'
+      );
+
+      expect(pauses).toEqual([
+        { audioOffset: 420000, pausedAt: START + 420000, resumedAt: START + 900000, reason: 'SESSION_BREAK' },
+      ]);
+      expect(getTimelineSection(pauses, 410000)).toEqual({ start: 0, end: 420000 });
+      expect(getTimelineSection(pauses, 430000)).toEqual({ start: 420000, end: Number.POSITIVE_INFINITY });
+    });
+  });
+});
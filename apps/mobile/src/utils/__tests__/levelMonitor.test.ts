@@ -0,0 +1,114 @@
+import {
+  createLevelTracker,
+  endSilence,
+  getLevelWarning,
+  getMeterFraction,
+  isWithinSpans,
+  LevelTrackerState,
+  parseAudioSpans,
+  trackLevel,
+} from '../levelMonitor';
+import { transcriptionService } from '../../services/transcriptionService';
+
+jest.mock('../../config/firebase', () => ({ storage: {} }));
+jest.mock('firebase/storage', () => ({ ref: jest.fn(), getDownloadURL: jest.fn() }));
+
+// Feed a reading every 250ms between two positions
+const feed = (state: LevelTrackerState, from: number, to: number, metering: number): LevelTrackerState => {
+  let next = state;
+  for (let position = from; position <= to; position += 250) {
+    next = trackLevel(next, position, metering);
+  }
+  return next;
+};
+
+describe('levelMonitor', () => {
+  describe('silence', () => {
+    it('should keep quiet stretches long enough to matter', () => {
+      let state = feed(createLevelTracker(), 0, 5000, -20);
+      state = feed(state, 5250, 25000, -70);
+      state = feed(state, 25250, 30000, -25);
+
+      expect(state.silences).toEqual([{ start: 5250, end: 25250 }]);
+    });
+
+    it('should ignore ordinary gaps between sentences', () => {
+      let state = feed(createLevelTracker(), 0, 5000, -20);
+      state = feed(state, 5250, 8000, -70);
+      state = feed(state, 8250, 9000, -20);
+
+      expect(state.silences).toEqual([]);
+    });
+
+    it('should warn once the current silence is long enough', () => {
+      const state = feed(createLevelTracker(), 0, 12000, -70);
+
+      expect(getLevelWarning(state, 5000)).toBeNull();
+      expect(getLevelWarning(state, 12000)).toBe('SILENCE');
+    });
+
+    it('should close an open silence when recording pauses or stops', () => {
+      const state = endSilence(feed(createLevelTracker(), 0, 15000, -70), 15000);
+
+      expect(state.silenceStart).toBeNull();
+      expect(state.silences).toEqual([{ start: 0, end: 15000 }]);
+    });
+  });
+
+  describe('clipping', () => {
+    it('should warn while the input is clipping and shortly after', () => {
+      let state = feed(createLevelTracker(), 0, 2000, -20);
+      state = trackLevel(state, 2250, -0.5);
+
+      expect(getLevelWarning(state, 2250)).toBe('CLIPPING');
+      expect(getLevelWarning(state, 5000)).toBe('CLIPPING');
+      expect(getLevelWarning(state, 6000)).toBeNull();
+    });
+  });
+
+  describe('getMeterFraction', () => {
+    it('should map levels onto the meter', () => {
+      expect(getMeterFraction(undefined)).toBe(0);
+      expect(getMeterFraction(-160)).toBe(0);
+      expect(getMeterFraction(-30)).toBe(0.5);
+      expect(getMeterFraction(0)).toBe(1);
+    });
+  });
+
+  describe('isWithinSpans', () => {
+    it('should only match stretches fully inside a span', () => {
+      const spans = [{ start: 10000, end: 40000 }];
+
+      expect(isWithinSpans(spans, 12000, 15000)).toBe(true);
+      expect(isWithinSpans(spans, 38000, 42000)).toBe(false);
+    });
+  });
+
+  describe('parseAudioSpans', () => {
+    it('should decode stored spans and tolerate bad data', () => {
+      expect(parseAudioSpans('[{"start":1,"end":2}]')).toEqual([{ start: 1, end: 2 }]);
+      expect(parseAudioSpans(null)).toEqual([]);
+      expect(parseAudioSpans('{')).toEqual([]);
+    });
+  });
+
+  describe('removeSilentSegments', () => {
+    it('should drop speech recognised in dead air', () => {
+      const transcription = {
+        text: 'Roof decking is soft. Thank you. Moving to the attic.',
+        segments: [
+          { start: 1000, end: 4000, text: 'Roof decking is soft.', confidence: 0.9 },
+          { start: 20000, end: 22000, text: 'Thank you.', confidence: 0.4 },
+          { start: 41000, end: 44000, text: 'Moving to the attic.', confidence: 0.9 },
+        ],
+        confidence: 0.8,
+      };
+
+      const result = transcriptionService.removeSilentSegments(transcription, [{ start: 10000, end: 40000 }]);
+
+      expect(result.text).toBe('Roof decking is soft. Moving to the attic.');
+      expect(result.segments.map(segment => segment.start)).toEqual([1000, 41000]);
+      expect(transcriptionService.removeSilentSegments(transcription, [])).toBe(transcription);
+    });
+  });
+});
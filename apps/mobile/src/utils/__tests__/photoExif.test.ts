@@ -0,0 +1,47 @@
+import piexif from 'piexifjs';
+import { buildPhotoExif, formatExifDateTime } from '../photoExif';
+
+const START = 1705312800000;
+
+describe('photoExif', () => {
+  it('should record where the photo was taken and which way the camera faced', () => {
+    const exif = buildPhotoExif({
+      timestamp: START,
+      location: { latitude: -33.8568, longitude: 151.2153, altitude: 12.5, accuracy: 4.2, fixedAt: START - 3000 },
+      heading: { degrees: 271.36, reference: 'TRUE' },
+    });
+
+    // Round-trip through the binary EXIF block so we know readers will see the same thing
+    const gps = piexif.load(piexif.dump(exif)).GPS!;
+
+    expect(gps[piexif.GPSIFD.GPSLatitudeRef]).toBe('S');
+    expect(piexif.GPSHelper.dmsRationalToDeg(gps[piexif.GPSIFD.GPSLatitude], 'S')).toBeCloseTo(-33.8568, 4);
+    expect(gps[piexif.GPSIFD.GPSLongitudeRef]).toBe('E');
+    expect(piexif.GPSHelper.dmsRationalToDeg(gps[piexif.GPSIFD.GPSLongitude], 'E')).toBeCloseTo(151.2153, 4);
+    expect(gps[piexif.GPSIFD.GPSAltitude]).toEqual([1250, 100]);
+    expect(gps[piexif.GPSIFD.GPSHPositioningError]).toEqual([420, 100]);
+    expect(gps[piexif.GPSIFD.GPSImgDirectionRef]).toBe('T');
+    expect(gps[piexif.GPSIFD.GPSImgDirection]).toEqual([27136, 100]);
+    expect(gps[piexif.GPSIFD.GPSDateStamp]).toBe('2024:01:15');
+    expect(gps[piexif.GPSIFD.GPSTimeStamp]).toEqual([[9, 1], [59, 1], [57, 1]]);
+  });
+
+  it('should keep what the camera wrote and add the device', () => {
+    const existing = { '0th': { [piexif.ImageIFD.Orientation]: 6 } };
+
+    const exif = buildPhotoExif({
+      timestamp: START,
+      device: { make: 'Google', model: 'Pixel 8', os: 'Android', osVersion: '14' },
+    }, existing);
+
+    expect(exif['0th']).toEqual({
+      [piexif.ImageIFD.Orientation]: 6,
+      [piexif.ImageIFD.Make]: 'Google',
+      [piexif.ImageIFD.Model]: 'Pixel 8',
+      [piexif.ImageIFD.Software]: 'Android 14',
+      [piexif.ImageIFD.DateTime]: formatExifDateTime(START),
+    });
+    expect(exif.Exif![piexif.ExifIFD.DateTimeOriginal]).toMatch(/^2024:01:1[45] \d{2}:\d{2}:00$/);
+    expect(exif.GPS).toEqual({});
+  });
+});
@@ -0,0 +1,24 @@
+import { fitWithin, getPhotoVariantUri, THUMBNAIL_MAX_EDGE, UPLOAD_MAX_EDGE } from '../photoFiles';
+
+describe('photoFiles', () => {
+  describe('fitWithin', () => {
+    it('should scale the longest edge of a 12 MP photo down to 1600 px', () => {
+      expect(fitWithin({ width: 4032, height: 3024 }, UPLOAD_MAX_EDGE)).toEqual({ width: 1600, height: 1200 });
+      expect(fitWithin({ width: 3024, height: 4032 }, UPLOAD_MAX_EDGE)).toEqual({ width: 1200, height: 1600 });
+      expect(fitWithin({ width: 4000, height: 3000 }, THUMBNAIL_MAX_EDGE)).toEqual({ width: 320, height: 240 });
+    });
+
+    it('should not enlarge photos that already fit', () => {
+      expect(fitWithin({ width: 1280, height: 720 }, UPLOAD_MAX_EDGE)).toEqual({ width: 1280, height: 720 });
+    });
+  });
+
+  describe('getPhotoVariantUri', () => {
+    it('should name copies after the captured file', () => {
+      const captureUri = 'file://docs/inspection_photo_insp-1_1705312800000.jpg';
+
+      expect(getPhotoVariantUri(captureUri, 'upload')).toBe('file://docs/inspection_photo_insp-1_1705312800000.upload.jpg');
+      expect(getPhotoVariantUri(captureUri, 'thumb')).toBe('file://docs/inspection_photo_insp-1_1705312800000.thumb.jpg');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import piexif from 'piexifjs';
+import { buildPhotoExif } from '../photoExif';
+import { findExifSegment, parseExifDateTime, placeOnTimeline, readImportedPhotoMetadata } from '../photoImport';
+
+const START = 1705312800000; // 2024-01-15 10:00:00 UTC
+
+describe('photoImport', () => {
+  describe('parseExifDateTime', () => {
+    it('should read the time in the zone the offset gives', () => {
+      expect(parseExifDateTime('2024:01:15 20:00:00', undefined, '+10:00')).toBe(START);
+      expect(parseExifDateTime('2024:01:15 05:30:00', '5', '-04:30')).toBe(START + 500);
+      expect(parseExifDateTime('2024:01:15 10:00:00', '123456', 'Z')).toBe(START + 123);
+    });
+
+    it('should take a time without an offset as the phone\'s local time', () => {
+      expect(parseExifDateTime('2024:01:15 10:00:00')).toBe(new Date(2024, 0, 15, 10, 0, 0).getTime());
+    });
+
+    it('should reject blank and unreadable dates', () => {
+      expect(parseExifDateTime('0000:00:00 00:00:00')).toBeNull();
+      expect(parseExifDateTime('    :  :     :  :  ')).toBeNull();
+      expect(parseExifDateTime(undefined)).toBeNull();
+    });
+  });
+
+  describe('readImportedPhotoMetadata', () => {
+    it('should read the capture time, location and heading an external camera wrote', () => {
+      const fileExif = piexif.load(piexif.dump(buildPhotoExif({
+        timestamp: START,
+        location: { latitude: -33.8568, longitude: 151.2153, altitude: -2.5, accuracy: 6, fixedAt: START - 3000 },
+        heading: { degrees: 90.5, reference: 'TRUE' },
+      })));
+
+      const metadata = readImportedPhotoMetadata(fileExif);
+
+      // buildPhotoExif writes local time with no offset, which reads back as local time
+      expect(metadata.capturedAt).toBe(START);
+      expect(metadata.location).toEqual({
+        latitude: expect.closeTo(-33.8568, 4),
+        longitude: expect.closeTo(151.2153, 4),
+        altitude: -2.5,
+        accuracy: 6,
+        fixedAt: START - 3000,
+      });
+      expect(metadata.heading).toEqual({ degrees: 90.5, reference: 'TRUE' });
+    });
+
+    it('should fall back to the picker\'s EXIF when the file has none', () => {
+      expect(readImportedPhotoMetadata(null, {
+        DateTimeOriginal: '2024:01:15 20:00:00',
+        SubSecTimeOriginal: '25',
+        OffsetTimeOriginal: '+10:00',
+      })).toEqual({ capturedAt: START + 250 });
+
+      expect(readImportedPhotoMetadata(null, {})).toEqual({ capturedAt: null });
+    });
+  });
+
+  describe('findExifSegment', () => {
+    // Start of image, a JFIF APP0 segment, then the image data
+    const jpeg = '\xff\xd8\xff\xe0\x00\x10JFIF\x00\x01\x01\x00\x00\x01\x00\x01\x00\x00'
+      + '\xff\xda\x00\x02' + 'pixels'.repeat(100) + '\xff\xd9';
+    const exifJpeg = piexif.insert(piexif.dump(buildPhotoExif({ timestamp: START })), jpeg);
+
+    it('should find the EXIF in the first bytes of a JPEG', () => {
+      const head = exifJpeg.slice(0, exifJpeg.indexOf('\xff\xda') + 4);
+      const segment = findExifSegment(head);
+
+      expect(segment?.startsWith('Exif\x00\x00')).toBe(true);
+      expect(readImportedPhotoMetadata(piexif.load(segment!)).capturedAt).toBe(START);
+    });
+
+    it('should give up when the EXIF runs past the bytes read or there is none', () => {
+      expect(findExifSegment(exifJpeg.slice(0, 40))).toBeNull();
+      expect(findExifSegment(jpeg)).toBeNull();
+      expect(findExifSegment('\x89PNG\r\n')).toBeNull();
+    });
+  });
+
+  describe('placeOnTimeline', () => {
+    const inspection = {
+      createdAt: START - 60000,
+      audioSessions: [
+        { id: 'inspection-1:0', index: 0, startedAt: START, startOffset: 0, endedAt: START + 120000, endOffset: 90000 },
+        { id: 'inspection-1:1', index: 1, startedAt: START + 600000, startOffset: 90000 },
+      ],
+      audioPauses: [
+        { audioOffset: 60000, pausedAt: START + 60000, resumedAt: START + 90000, reason: 'USER' as const },
+        { audioOffset: 90000, pausedAt: START + 120000, resumedAt: START + 600000, reason: 'SESSION_BREAK' as const },
+      ],
+      audioChunks: [
+        { id: 'inspection-1:0', index: 0, uri: 'file://chunk-0.m4a', startOffset: 0, durationMs: 90000 },
+        { id: 'inspection-1:1', index: 1, uri: 'file://chunk-1.m4a', startOffset: 90000, durationMs: 60000 },
+      ],
+    };
+
+    it('should place photos like the camera would have', () => {
+      expect(placeOnTimeline(inspection, START + 30000)).toEqual({ audioTimestamp: 30000, outside: null });
+      expect(placeOnTimeline(inspection, START + 70000)).toEqual({ audioTimestamp: 60000, outside: null });
+      expect(placeOnTimeline(inspection, START + 300000)).toEqual({ audioTimestamp: 90000, outside: null });
+      expect(placeOnTimeline(inspection, START + 610000)).toEqual({ audioTimestamp: 100000, outside: null });
+    });
+
+    it('should pin photos from outside the recording to its ends', () => {
+      expect(placeOnTimeline(inspection, START - 5000)).toEqual({ audioTimestamp: 0, outside: 'BEFORE' });
+      expect(placeOnTimeline(inspection, START + 900000)).toEqual({ audioTimestamp: 150000, outside: 'AFTER' });
+    });
+  });
+});
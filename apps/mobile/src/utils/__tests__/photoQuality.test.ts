@@ -0,0 +1,86 @@
+import {
+  assessPhotoQuality,
+  BLUR_THRESHOLD,
+  compareFrameSignatures,
+  getFrameSignature,
+  GreyImage,
+  measureExposure,
+  measureSharpness,
+  toGreyImage,
+} from '../photoQuality';
+
+const SIZE = 64;
+
+/**
+ * Build a square grey image from a function of pixel position
+ */
+const image = (valueAt: (x: number, y: number) => number): GreyImage => {
+  const pixels = new Uint8Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      pixels[y * SIZE + x] = Math.max(0, Math.min(255, Math.round(valueAt(x, y))));
+    }
+  }
+  return { width: SIZE, height: SIZE, pixels };
+};
+
+// Sharp-edged 4px squares, like brickwork in focus
+const checkerboard = (x: number, y: number) => (Math.floor(x / 4) + Math.floor(y / 4)) % 2 ? 200 : 60;
+
+// The same light-to-dark spread with no edges, like the squares smeared by shake
+const smooth = (x: number, y: number) => 60 + 140 * (x + y) / (2 * SIZE);
+
+describe('photoQuality', () => {
+  describe('toGreyImage', () => {
+    it('should weight the channels by how bright they look', () => {
+      const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255]);
+
+      expect(Array.from(toGreyImage(rgba, 2, 2).pixels)).toEqual([76, 150, 29, 255]);
+    });
+  });
+
+  describe('measureSharpness', () => {
+    it('should score an in-focus photo well above a smeared one', () => {
+      expect(measureSharpness(image(checkerboard))).toBeGreaterThan(BLUR_THRESHOLD * 10);
+      expect(measureSharpness(image(smooth))).toBeLessThan(BLUR_THRESHOLD);
+    });
+  });
+
+  describe('measureExposure', () => {
+    it('should measure brightness and how much is crushed or blown out', () => {
+      const halfBlack = measureExposure(image(x => x < SIZE / 2 ? 0 : 128));
+
+      expect(halfBlack).toEqual({ brightness: 64, darkFraction: 0.5, brightFraction: 0 });
+      expect(measureExposure(image(() => 255)).brightFraction).toBe(1);
+    });
+  });
+
+  describe('compareFrameSignatures', () => {
+    it('should match the same shot at a different exposure but not a different scene', () => {
+      const shot = getFrameSignature(image(checkerboard));
+      const brighterShot = getFrameSignature(image((x, y) => checkerboard(x, y) + 30));
+      const otherScene = getFrameSignature(image((x, y) => (x < SIZE / 2) === (y < SIZE / 2) ? 220 : 40));
+
+      expect(compareFrameSignatures(shot, brighterShot)).toBeCloseTo(1, 5);
+      expect(compareFrameSignatures(shot, otherScene)).toBeLessThan(0.9);
+    });
+  });
+
+  describe('assessPhotoQuality', () => {
+    it('should pass a good photo', () => {
+      const { quality } = assessPhotoQuality(image(checkerboard));
+
+      expect(quality.issues).toEqual([]);
+      expect(quality.similarity).toBeUndefined();
+    });
+
+    it('should flag blur, bad exposure and repeats of the previous photo', () => {
+      const { signature } = assessPhotoQuality(image(checkerboard));
+
+      expect(assessPhotoQuality(image(smooth)).quality.issues).toEqual(['BLUR']);
+      expect(assessPhotoQuality(image(() => 8)).quality.issues).toEqual(['UNDEREXPOSED']);
+      expect(assessPhotoQuality(image(() => 250)).quality.issues).toEqual(['OVEREXPOSED']);
+      expect(assessPhotoQuality(image(checkerboard), signature).quality.issues).toEqual(['DUPLICATE']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  addInterruptionPause,
+  findPauseAt,
+  getPausedDuration,
+  getTimelineSection,
+  parseAudioPauses,
+  toTimelinePosition,
+} from '../recordingTimeline';
+import { transcriptionService, TranscriptionSegment } from '../../services/transcriptionService';
+import { RecordingPause } from '../../types';
+
+jest.mock('../../config/firebase', () => ({ storage: {} }));
+jest.mock('firebase/storage', () => ({ ref: jest.fn(), getDownloadURL: jest.fn() }));
+
+const START = 1705312800000;
+
+// Recorded 60s, paused 5 min for a phone call, recorded 30s, paused 1 min, recorded on
+const pauses: RecordingPause[] = [
+  { audioOffset: 60000, pausedAt: START + 60000, resumedAt: START + 360000 },
+  { audioOffset: 90000, pausedAt: START + 390000, resumedAt: START + 450000 },
+];
+
+describe('recordingTimeline', () => {
+  describe('toTimelinePosition', () => {
+    it('should subtract time spent paused before the event', () => {
+      expect(toTimelinePosition(START, pauses, START + 30000)).toBe(30000);
+      expect(toTimelinePosition(START, pauses, START + 370000)).toBe(70000);
+      expect(toTimelinePosition(START, pauses, START + 460000)).toBe(100000);
+    });
+
+    it('should place events during a pause where the pause happened', () => {
+      expect(toTimelinePosition(START, pauses, START + 200000)).toBe(60000);
+      expect(toTimelinePosition(START, pauses, START + 400000)).toBe(90000);
+    });
+
+    it('should treat a pause without a resume time as still ongoing', () => {
+      const ongoing: RecordingPause[] = [{ audioOffset: 45000, pausedAt: START + 45000 }];
+
+      expect(findPauseAt(ongoing, START + 900000)).toBe(ongoing[0]);
+      expect(toTimelinePosition(START, ongoing, START + 900000)).toBe(45000);
+      expect(getPausedDuration(ongoing, START + 50000)).toBe(5000);
+    });
+  });
+
+  describe('getTimelineSection', () => {
+    it('should bound a position by the surrounding pauses', () => {
+      expect(getTimelineSection(pauses, 30000)).toEqual({ start: 0, end: 60000 });
+      expect(getTimelineSection(pauses, 75000)).toEqual({ start: 60000, end: 90000 });
+      expect(getTimelineSection(pauses, 120000)).toEqual({ start: 90000, end: Number.POSITIVE_INFINITY });
+    });
+
+    it('should put a position on a pause in the section before it', () => {
+      expect(getTimelineSection(pauses, 60000)).toEqual({ start: 0, end: 60000 });
+    });
+  });
+
+  describe('getContextAroundTimestamp', () => {
+    const segments: TranscriptionSegment[] = [
+      { start: 55000, end: 59500, text: 'Water staining on the ceiling.', confidence: 0.9 },
+      { start: 60000, end: 63000, text: 'Sorry, back now, moving to the kitchen.', confidence: 0.9 },
+      { start: 63000, end: 66000, text: 'Cabinet base is swollen.', confidence: 0.9 },
+    ];
+
+    it('should not pull in speech from the other side of a pause', () => {
+      // Photo taken during the phone call, placed at the pause
+      const photoDuringPause = toTimelinePosition(START, pauses, START + 200000);
+
+      expect(transcriptionService.getContextAroundTimestamp(segments, photoDuringPause, 5000, pauses))
+        .toBe('Water staining on the ceiling.');
+      expect(transcriptionService.getContextAroundTimestamp(segments, 64000, 5000, pauses))
+        .toBe('Sorry, back now, moving to the kitchen. Cabinet base is swollen.');
+    });
+
+    it('should keep the old behaviour for recordings without pauses', () => {
+      expect(transcriptionService.getContextAroundTimestamp(segments, 60000, 5000))
+        .toBe('Water staining on the ceiling. Sorry, back now, moving to the kitchen. Cabinet base is swollen.');
+    });
+  });
+
+  describe('addInterruptionPause', () => {
+    it('should count the time the app was gone as a pause', () => {
+      expect(addInterruptionPause(pauses, 120000, START + 480000, START + 900000)).toEqual([
+        ...pauses,
+        { audioOffset: 120000, pausedAt: START + 480000, resumedAt: START + 900000, reason: 'APP_KILLED' },
+      ]);
+    });
+
+    it('should end a pause that was still open when the app was killed', () => {
+      const open: RecordingPause[] = [{ audioOffset: 45000, pausedAt: START + 45000 }];
+
+      expect(addInterruptionPause(open, 45000, START + 400000, START + 900000)).toEqual([
+        { audioOffset: 45000, pausedAt: START + 45000, resumedAt: START + 900000 },
+      ]);
+    });
+  });
+
+  describe('parseAudioPauses', () => {
+    it('should decode stored pauses and tolerate bad data', () => {
+      expect(parseAudioPauses(JSON.stringify(pauses))).toEqual(pauses);
+      expect(parseAudioPauses(undefined)).toEqual([]);
+      expect(parseAudioPauses('not json')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { buildAreaSections, buildReportSections, getMarkerTitle } from '../reportSections';
+import { Marker, Photo } from '../../types';
+
+const photo = (id: string, audioTimestamp: number, area?: string): Photo => ({
+  id,
+  uri: `file://${id}.jpg`,
+  timestamp: 1705312800000 + audioTimestamp,
+  audioTimestamp,
+  area,
+});
+
+const marker = (id: string, audioTimestamp: number, label?: string): Marker => ({
+  id,
+  timestamp: 1705312800000 + audioTimestamp,
+  audioTimestamp,
+  label,
+});
+
+describe('reportSections', () => {
+  describe('buildReportSections', () => {
+    it('should start a new section at each marker', () => {
+      const north = marker('north', 60000, 'North elevation');
+      const kitchen = marker('kitchen', 300000, 'Kitchen');
+
+      const sections = buildReportSections(
+        [photo('p3', 320000), photo('p1', 10000), photo('p2', 60000)],
+        [kitchen, north]
+      );
+
+      expect(sections.map(section => section.marker?.id ?? null)).toEqual([null, 'north', 'kitchen']);
+      expect(sections.map(section => section.photos.map(p => p.id))).toEqual([['p1'], ['p2'], ['p3']]);
+    });
+
+    it('should skip the leading section when every photo follows a marker', () => {
+      const sections = buildReportSections([photo('p1', 5000)], [marker('start', 0)]);
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].marker?.id).toBe('start');
+    });
+
+    it('should keep markers that have no photos', () => {
+      const sections = buildReportSections([], [marker('note', 42000, 'Measurement 14 ft')]);
+
+      expect(sections).toEqual([{ marker: marker('note', 42000, 'Measurement 14 ft'), photos: [] }]);
+      expect(buildReportSections([], [])).toEqual([{ marker: null, photos: [] }]);
+    });
+  });
+
+  describe('getMarkerTitle', () => {
+    it('should prefer the typed label over the generated caption', () => {
+      expect(getMarkerTitle({ ...marker('m', 0, 'North elevation'), caption: 'Brick veneer' })).toBe('North elevation');
+      expect(getMarkerTitle({ ...marker('m', 0), caption: 'Brick veneer' })).toBe('Brick veneer');
+      expect(getMarkerTitle(marker('m', 0))).toBe('Marker');
+    });
+  });
+
+  describe('buildAreaSections', () => {
+    it('should group photos by area in the order of the area list', () => {
+      const sections = buildAreaSections(
+        [photo('p4', 400000), photo('p1', 10000, 'Kitchen'), photo('p3', 300000, 'roof'), photo('p2', 60000, 'Roof'), photo('p5', 500000, 'Shed')],
+        ['Roof', 'Kitchen', 'Basement']
+      );
+
+      expect(sections.map(section => section.area)).toEqual(['Roof', 'Kitchen', 'Shed', null]);
+      expect(sections.map(section => section.photos.map(p => p.id))).toEqual([['p2', 'p3'], ['p1'], ['p5'], ['p4']]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { detectAreaProposals, getProposedAreaAt } from '../spokenAreas';
+import { AreaProposal } from '../../types';
+
+const segment = (start: number, text: string) => ({ start, text });
+
+describe('spokenAreas', () => {
+  describe('detectAreaProposals', () => {
+    it('should find spoken moves between areas', () => {
+      const proposals = detectAreaProposals([
+        segment(5000, 'Starting at the front of the house.'),
+        segment(60000, "OK, moving to the master bathroom and there's staining on the ceiling."),
+        segment(180000, "Now we're in the kitchen, the sink cabinet is swollen."),
+        segment(300000, 'Heading out to the exterior north side.'),
+      ], ['Kitchen', 'Roof']);
+
+      expect(proposals.map(({ audioTimestamp, area, phrase }) => ({ audioTimestamp, area, phrase }))).toEqual([
+        { audioTimestamp: 60000, area: 'Master Bathroom', phrase: 'moving to the master bathroom' },
+        { audioTimestamp: 180000, area: 'Kitchen', phrase: 'we\'re in the kitchen' },
+        { audioTimestamp: 300000, area: 'Exterior North Side', phrase: 'heading out to the exterior north side' },
+      ]);
+      expect(proposals.every(proposal => proposal.status === 'PROPOSED')).toBe(true);
+    });
+
+    it('should ignore cues that do not name an area or repeat the current one', () => {
+      const proposals = detectAreaProposals([
+        segment(1000, 'Moving on to the next item on the list.'),
+        segment(1500, 'Going on to check the photos again.'),
+        segment(2000, 'Going into the garage now.'),
+        segment(3000, "This is the garage door, I'm in the garage."),
+      ], []);
+
+      expect(proposals.map(proposal => proposal.area)).toEqual(['Garage']);
+    });
+  });
+
+  describe('getProposedAreaAt', () => {
+    const proposal = (audioTimestamp: number, area: string, status: AreaProposal['status'] = 'PROPOSED'): AreaProposal => ({
+      id: `area-${audioTimestamp}`,
+      audioTimestamp,
+      area,
+      phrase: `moving to the ${area}`,
+      status,
+    });
+
+    it('should tag positions with the last area change before them', () => {
+      const proposals = [proposal(60000, 'Kitchen'), proposal(120000, 'Laundry', 'REJECTED'), proposal(180000, 'Roof')];
+
+      expect(getProposedAreaAt(proposals, 30000)).toBeNull();
+      expect(getProposedAreaAt(proposals, 60000)).toBe('Kitchen');
+      expect(getProposedAreaAt(proposals, 150000)).toBe('Kitchen');
+      expect(getProposedAreaAt(proposals, 200000)).toBe('Roof');
+    });
+  });
+});
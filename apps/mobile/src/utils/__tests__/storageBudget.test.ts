@@ -0,0 +1,68 @@
+import { checkStorageBudget, estimateRecordingBytes, formatBytes, STORAGE_RESERVE_BYTES } from '../storageBudget';
+import { getRecordingProfile, RECORDING_PROFILES, toRecordingOptions } from '../../config/recordingProfiles';
+
+const THIRTY_MINUTES = 30 * 60 * 1000;
+const TWO_HOURS = 2 * 60 * 60 * 1000;
+
+describe('storageBudget', () => {
+  describe('estimateRecordingBytes', () => {
+    it('should fit 30 minutes of the standard profile in about 20 MB', () => {
+      const bytes = estimateRecordingBytes(RECORDING_PROFILES.standard, THIRTY_MINUTES);
+
+      expect(bytes).toBeGreaterThan(20 * 1000 * 1000);
+      expect(bytes).toBeLessThan(23 * 1000 * 1000);
+    });
+
+    it('should scale with the profile bitrate', () => {
+      expect(estimateRecordingBytes(RECORDING_PROFILES.high, THIRTY_MINUTES))
+        .toBe(2 * estimateRecordingBytes(RECORDING_PROFILES.compact, THIRTY_MINUTES));
+    });
+  });
+
+  describe('checkStorageBudget', () => {
+    it('should pass when the recording fits alongside the reserve', () => {
+      const budget = checkStorageBudget(RECORDING_PROFILES.standard, TWO_HOURS, 4 * 1000 * 1000 * 1000);
+
+      expect(budget.sufficient).toBe(true);
+      expect(budget.maxDurationMs).toBeGreaterThan(TWO_HOURS);
+    });
+
+    it('should warn on a nearly full phone and say how long it can record', () => {
+      const freeBytes = STORAGE_RESERVE_BYTES + estimateRecordingBytes(RECORDING_PROFILES.standard, THIRTY_MINUTES);
+      const budget = checkStorageBudget(RECORDING_PROFILES.standard, TWO_HOURS, freeBytes);
+
+      expect(budget.sufficient).toBe(false);
+      expect(budget.maxDurationMs).toBeGreaterThanOrEqual(THIRTY_MINUTES - 1000);
+      expect(budget.maxDurationMs).toBeLessThanOrEqual(THIRTY_MINUTES);
+    });
+
+    it('should not report negative time when already inside the reserve', () => {
+      const budget = checkStorageBudget(RECORDING_PROFILES.standard, TWO_HOURS, 1000);
+
+      expect(budget.sufficient).toBe(false);
+      expect(budget.maxDurationMs).toBe(0);
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('should format megabytes and gigabytes', () => {
+      expect(formatBytes(21600000)).toBe('21.6 MB');
+      expect(formatBytes(3200000000)).toBe('3.2 GB');
+    });
+  });
+});
+
+describe('recordingProfiles', () => {
+  it('should fall back to the standard profile for unknown IDs', () => {
+    expect(getRecordingProfile('unknown').id).toBe('standard');
+    expect(getRecordingProfile(undefined).id).toBe('standard');
+    expect(getRecordingProfile('compact').id).toBe('compact');
+  });
+
+  it('should pass the profile settings to the recorder on both platforms', () => {
+    const options = toRecordingOptions(RECORDING_PROFILES.standard);
+
+    expect(options.android).toEqual(expect.objectContaining({ bitRate: 96000, numberOfChannels: 1, sampleRate: 44100 }));
+    expect(options.ios).toEqual(expect.objectContaining({ bitRate: 96000, numberOfChannels: 1, sampleRate: 44100 }));
+  });
+});
@@ -0,0 +1,33 @@
+import {
+  CLIP_SYNC_TOLERANCE_MS,
+  getClipAudioPosition,
+  getClipDuration,
+  getVideoClipFileName,
+  isAudioOutOfSync,
+} from '../videoClips';
+
+describe('videoClips', () => {
+  const clip = { audioTimestamp: 65000, endAudioTimestamp: 77500 };
+
+  it('should measure a clip on the inspection timeline', () => {
+    expect(getClipDuration(clip)).toBe(12500);
+    expect(getClipDuration({ audioTimestamp: 5000, endAudioTimestamp: 4000 })).toBe(0);
+  });
+
+  it('should map positions inside a clip onto the inspection timeline', () => {
+    expect(getClipAudioPosition(clip, 0)).toBe(65000);
+    expect(getClipAudioPosition(clip, 4200)).toBe(69200);
+    expect(getClipAudioPosition(clip, 20000)).toBe(77500);
+    expect(getClipAudioPosition(clip, -100)).toBe(65000);
+  });
+
+  it('should only resync audio that has drifted past the tolerance', () => {
+    expect(isAudioOutOfSync(69200, 69200 + CLIP_SYNC_TOLERANCE_MS)).toBe(false);
+    expect(isAudioOutOfSync(69200, 69200 + CLIP_SYNC_TOLERANCE_MS + 1)).toBe(true);
+    expect(isAudioOutOfSync(69200 + 1000, 69200)).toBe(true);
+  });
+
+  it('should name clip files after the inspection and start time', () => {
+    expect(getVideoClipFileName('insp-1', 1705312800000, 'mov')).toBe('inspection_clip_insp-1_1705312800000.mov');
+  });
+});
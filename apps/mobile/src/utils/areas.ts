@@ -0,0 +1,39 @@
+import { Inspection } from '../types';
+
+/**
+ * Areas offered on a new inspection until the engineer edits the list
+ */
+export const DEFAULT_AREAS = ['Exterior', 'Roof', 'Kitchen', 'Living Room', 'Bedroom', 'Bathroom', 'Basement'];
+
+/**
+ * The areas offered on the camera screen for an inspection
+ */
+export const getInspectionAreas = (inspection: Pick<Inspection, 'areas'>): string[] =>
+  inspection.areas ?? DEFAULT_AREAS;
+
+/**
+ * Tidy an area name as typed, e.g. "  exterior   north " -> "exterior north"
+ */
+export const normalizeAreaName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+/**
+ * Find an area in the list regardless of case, so "roof" and "Roof" are the same area
+ */
+export const findArea = (areas: string[], name: string): string | undefined => {
+  const key = normalizeAreaName(name).toLowerCase();
+  return areas.find(area => area.toLowerCase() === key);
+};
+
+/**
+ * Add an area to the end of the list, unless it is blank or already there
+ */
+export const addArea = (areas: string[], name: string): string[] => {
+  const area = normalizeAreaName(name);
+  return area && !findArea(areas, area) ? [...areas, area] : areas;
+};
+
+/**
+ * Take an area off the list
+ */
+export const removeArea = (areas: string[], name: string): string[] =>
+  areas.filter(area => area !== findArea(areas, name));
@@ -0,0 +1,43 @@
+import { AudioChunk } from '../types';
+
+/**
+ * Length of each recording file before the recorder rolls over to a new one
+ * A crash loses at most this much audio, and each upload stays small
+ */
+export const AUDIO_CHUNK_DURATION_MS = 5 * 60 * 1000;
+
+/**
+ * Build the ID of an inspection's audio chunk
+ */
+export const getAudioChunkId = (inspectionId: string, index: number): string => `${inspectionId}:${index}`;
+
+/**
+ * File name of an audio chunk in the document directory
+ * `owner` is the inspection ID, or a placeholder when recording without one
+ */
+export const getAudioChunkFileName = (owner: string, index: number): string =>
+  `inspection_audio_${owner}_${index}.m4a`;
+
+/**
+ * Total length of the inspection timeline covered by a set of chunks
+ */
+export const getTimelineDuration = (chunks: AudioChunk[]): number =>
+  chunks.reduce((end, chunk) => Math.max(end, chunk.startOffset + chunk.durationMs), 0);
+
+/**
+ * Find the chunk holding a timeline position and the position inside that file
+ * Positions past the end land at the end of the last chunk
+ */
+export const findChunkAt = (
+  chunks: AudioChunk[],
+  position: number
+): { chunk: AudioChunk; positionInChunk: number } | null => {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const chunk = chunks.find(candidate => position < candidate.startOffset + candidate.durationMs)
+    ?? chunks[chunks.length - 1];
+  const positionInChunk = Math.min(Math.max(position - chunk.startOffset, 0), chunk.durationMs);
+  return { chunk, positionInChunk };
+};
@@ -0,0 +1,21 @@
+/**
+ * A reading of the recorder's position from `Audio.Recording.getStatusAsync`
+ * The native side samples its clock somewhere between the request and the
+ * response, so both wall-clock times are kept to bound when that happened
+ */
+export interface AudioClockSample {
+  durationMillis: number;
+  requestedAt: number;
+  receivedAt: number;
+}
+
+/**
+ * Position on the recording, in milliseconds, at the wall-clock time `eventAt`
+ * The sample is taken as valid at the midpoint of the status round trip and
+ * shifted by the time between then and the event, which removes the latency
+ * of asking for the status after the shutter was pressed
+ */
+export const toAudioTimestamp = (sample: AudioClockSample, eventAt: number): number => {
+  const sampledAt = (sample.requestedAt + sample.receivedAt) / 2;
+  return Math.max(0, Math.round(sample.durationMillis + (eventAt - sampledAt)));
+};
@@ -0,0 +1,43 @@
+import { AudioSession, Inspection, RecordingResumePoint } from '../types';
+import { getPausedDuration } from './recordingTimeline';
+import { getTimelineDuration } from './audioChunks';
+
+/**
+ * Build the ID of an inspection's recording session
+ */
+export const getAudioSessionId = (inspectionId: string, index: number): string => `${inspectionId}:${index}`;
+
+/**
+ * Find the session a timeline position was recorded in
+ * A position exactly where one session ends and the next starts belongs to the later one
+ */
+export const findSessionAt = (sessions: AudioSession[], position: number): AudioSession | null =>
+  [...sessions].reverse().find(session => session.startOffset <= position) ?? null;
+
+/**
+ * Where the next recording session of an inspection picks up the timeline
+ * Returns null when nothing has been recorded yet, so recording starts fresh
+ */
+export const getNextSessionResumePoint = (inspection: Inspection): RecordingResumePoint | null => {
+  const chunks = inspection.audioChunks ?? [];
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const sessions = inspection.audioSessions ?? [];
+  const pauses = inspection.audioPauses ?? [];
+  const startedAt = sessions[0]?.startedAt ?? inspection.createdAt;
+
+  // Without a recorded end time, recording stopped no earlier than the audio we have
+  const closedPauses = pauses.filter(pause => pause.resumedAt !== undefined);
+  const interruptedAt = sessions[sessions.length - 1]?.endedAt
+    ?? startedAt + getTimelineDuration(chunks) + getPausedDuration(closedPauses, Number.POSITIVE_INFINITY);
+
+  return {
+    startedAt,
+    interruptedAt,
+    pauses,
+    chunks,
+    silences: inspection.audioSilences ?? [],
+  };
+};
@@ -0,0 +1,12 @@
+/**
+ * Generate a random RFC 4122 version 4 UUID
+ * Used for records and sync operations created on the device, so they can be
+ * referenced before anything has reached the server
+ */
+export const generateId = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+};
@@ -0,0 +1,107 @@
+import { AudioLevelWarning, AudioSpan } from '../types';
+
+/**
+ * Input below this level counts as silence - a covered mic or nobody talking
+ */
+export const SILENCE_THRESHOLD_DB = -50;
+
+/**
+ * Input at or above this level is clipping - wind noise or shouting into the mic
+ */
+export const CLIPPING_THRESHOLD_DB = -1;
+
+/**
+ * Silence shorter than this is just a pause in speech
+ */
+export const MIN_SILENCE_MS = 10 * 1000;
+
+/**
+ * How long a clipping warning stays up after the last clipped reading
+ */
+export const CLIPPING_WARNING_MS = 3 * 1000;
+
+// Quietest level shown on a level meter
+const METER_FLOOR_DB = -60;
+
+/**
+ * How full a level meter should be for a reading, from 0 to 1
+ */
+export const getMeterFraction = (level?: number): number =>
+  level === undefined ? 0 : Math.min(Math.max((level - METER_FLOOR_DB) / -METER_FLOOR_DB, 0), 1);
+
+/**
+ * Running state of the input level checks, positions on the recording timeline
+ */
+export interface LevelTrackerState {
+  silenceStart: number | null; // Where the current quiet stretch began
+  lastClippedAt: number | null;
+  silences: AudioSpan[]; // Finished quiet stretches of at least MIN_SILENCE_MS
+}
+
+export const createLevelTracker = (): LevelTrackerState => ({
+  silenceStart: null,
+  lastClippedAt: null,
+  silences: [],
+});
+
+/**
+ * Close the current quiet stretch, keeping it if it was long enough
+ */
+export const endSilence = (state: LevelTrackerState, position: number): LevelTrackerState => {
+  if (state.silenceStart === null) {
+    return state;
+  }
+
+  const silences = position - state.silenceStart >= MIN_SILENCE_MS
+    ? [...state.silences, { start: state.silenceStart, end: position }]
+    : state.silences;
+  return { ...state, silenceStart: null, silences };
+};
+
+/**
+ * Feed one metering reading taken at a position on the recording
+ */
+export const trackLevel = (state: LevelTrackerState, position: number, metering: number): LevelTrackerState => {
+  const next = metering >= CLIPPING_THRESHOLD_DB ? { ...state, lastClippedAt: position } : state;
+
+  if (metering < SILENCE_THRESHOLD_DB) {
+    return next.silenceStart === null ? { ...next, silenceStart: position } : next;
+  }
+  return endSilence(next, position);
+};
+
+/**
+ * The problem to show the engineer right now, if any
+ * Clipping wins because it is the one they can fix by moving the phone
+ */
+export const getLevelWarning = (state: LevelTrackerState, position: number): AudioLevelWarning | null => {
+  if (state.lastClippedAt !== null && position - state.lastClippedAt <= CLIPPING_WARNING_MS) {
+    return 'CLIPPING';
+  }
+  if (state.silenceStart !== null && position - state.silenceStart >= MIN_SILENCE_MS) {
+    return 'SILENCE';
+  }
+  return null;
+};
+
+/**
+ * Whether a stretch of the recording lies entirely within one of the spans
+ */
+export const isWithinSpans = (spans: AudioSpan[], start: number, end: number): boolean =>
+  spans.some(span => start >= span.start && end <= span.end);
+
+/**
+ * Decode a JSON column of audio spans
+ */
+export const parseAudioSpans = (json?: string | null): AudioSpan[] => {
+  if (!json) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(json) as AudioSpan[];
+  } catch (error) {
+    console.error('Failed to parse audio spans:', error);
+    return [];
+  }
+};
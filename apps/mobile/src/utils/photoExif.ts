@@ -0,0 +1,69 @@
+import piexif from 'piexifjs';
+import { Photo } from '../types';
+
+type ExifSource = Pick<Photo, 'timestamp' | 'location' | 'heading' | 'device'>;
+
+// EXIF rationals for values we only need to the centimetre or hundredth of a degree
+const toRational = (value: number): [number, number] => [Math.round(Math.abs(value) * 100), 100];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * EXIF date format, in the phone's local time like the camera writes it
+ */
+export const formatExifDateTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * Add a photo's time, location, heading and device to its EXIF
+ * Tags the camera already wrote are kept unless we have something better
+ */
+export const buildPhotoExif = (photo: ExifSource, existing: piexif.ExifDict = {}): piexif.ExifDict => {
+  const zeroth = { ...existing['0th'] };
+  const exif = { ...existing.Exif };
+  const gps = { ...existing.GPS };
+
+  const dateTime = formatExifDateTime(photo.timestamp);
+  zeroth[piexif.ImageIFD.DateTime] = dateTime;
+  exif[piexif.ExifIFD.DateTimeOriginal] = dateTime;
+
+  if (photo.device) {
+    if (photo.device.make) {
+      zeroth[piexif.ImageIFD.Make] = photo.device.make;
+    }
+    if (photo.device.model) {
+      zeroth[piexif.ImageIFD.Model] = photo.device.model;
+    }
+    zeroth[piexif.ImageIFD.Software] = `${photo.device.os} ${photo.device.osVersion}`;
+  }
+
+  const { location, heading } = photo;
+  if (location) {
+    const fixedAt = new Date(location.fixedAt);
+    gps[piexif.GPSIFD.GPSVersionID] = [2, 3, 0, 0];
+    gps[piexif.GPSIFD.GPSLatitudeRef] = location.latitude < 0 ? 'S' : 'N';
+    gps[piexif.GPSIFD.GPSLatitude] = piexif.GPSHelper.degToDmsRational(location.latitude);
+    gps[piexif.GPSIFD.GPSLongitudeRef] = location.longitude < 0 ? 'W' : 'E';
+    gps[piexif.GPSIFD.GPSLongitude] = piexif.GPSHelper.degToDmsRational(location.longitude);
+    gps[piexif.GPSIFD.GPSDateStamp] = `${fixedAt.getUTCFullYear()}:${pad(fixedAt.getUTCMonth() + 1)}:${pad(fixedAt.getUTCDate())}`;
+    gps[piexif.GPSIFD.GPSTimeStamp] = [[fixedAt.getUTCHours(), 1], [fixedAt.getUTCMinutes(), 1], [fixedAt.getUTCSeconds(), 1]];
+
+    if (location.altitude !== undefined) {
+      gps[piexif.GPSIFD.GPSAltitudeRef] = location.altitude < 0 ? 1 : 0;
+      gps[piexif.GPSIFD.GPSAltitude] = toRational(location.altitude);
+    }
+    if (location.accuracy !== undefined) {
+      gps[piexif.GPSIFD.GPSHPositioningError] = toRational(location.accuracy);
+    }
+  }
+
+  if (heading) {
+    gps[piexif.GPSIFD.GPSImgDirectionRef] = heading.reference === 'TRUE' ? 'T' : 'M';
+    gps[piexif.GPSIFD.GPSImgDirection] = toRational(heading.degrees);
+  }
+
+  return { ...existing, '0th': zeroth, Exif: exif, GPS: gps };
+};
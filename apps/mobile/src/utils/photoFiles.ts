@@ -0,0 +1,37 @@
+/**
+ * Longest edge and JPEG quality of the copy that gets uploaded, per the PRD
+ */
+export const UPLOAD_MAX_EDGE = 1600;
+export const UPLOAD_QUALITY = 0.85;
+
+/**
+ * Longest edge and JPEG quality of the thumbnail shown in lists
+ */
+export const THUMBNAIL_MAX_EDGE = 320;
+export const THUMBNAIL_QUALITY = 0.7;
+
+export type PhotoVariant = 'upload' | 'thumb';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Scale an image down so its longest edge is at most maxEdge, keeping the aspect ratio
+ * Images that already fit are left at their size
+ */
+export const fitWithin = (size: ImageSize, maxEdge: number): ImageSize => {
+  const scale = Math.min(maxEdge / Math.max(size.width, size.height), 1);
+  return {
+    width: Math.round(size.width * scale),
+    height: Math.round(size.height * scale),
+  };
+};
+
+/**
+ * URI of a processed copy next to the captured file, e.g. inspection_photo_<id>_<time>.upload.jpg
+ * The suffix keeps copies from looking like unsaved captures to recovery
+ */
+export const getPhotoVariantUri = (captureUri: string, variant: PhotoVariant): string =>
+  captureUri.replace(/\.jpg$/, `.${variant}.jpg`);
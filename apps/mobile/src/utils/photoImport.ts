@@ -0,0 +1,193 @@
+import piexif from 'piexifjs';
+import { Inspection, PhotoHeading, PhotoLocation } from '../types';
+import { toTimelinePosition } from './recordingTimeline';
+import { getTimelineDuration } from './audioChunks';
+
+/**
+ * What an imported photo's EXIF says about when and where it was taken
+ * capturedAt is null when the file has no usable capture time
+ */
+export interface ImportedPhotoMetadata {
+  capturedAt: number | null;
+  location?: PhotoLocation;
+  heading?: PhotoHeading;
+}
+
+/**
+ * Where an imported photo lands on the inspection timeline
+ * Photos taken before recording started or after it ended are pinned to the
+ * nearest end and flagged, so the engineer can fix the clock offset
+ */
+export interface TimelinePlacement {
+  audioTimestamp: number;
+  outside: 'BEFORE' | 'AFTER' | null;
+}
+
+// "2024:01:15 09:59:57", optionally with "-" instead of ":" in the date as some cameras write it
+const EXIF_DATE_TIME_PATTERN = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/;
+
+// "+10:00", "-05:30" or "Z"
+const EXIF_OFFSET_PATTERN = /^([+-])(\d{2}):?(\d{2})$/;
+
+// iOS nests the picker's EXIF tags under {Exif}; Android's are flat
+const PICKER_EXIF_GROUP = '{Exif}';
+
+/**
+ * How much of the start of a picked file is read for its EXIF: the APP1
+ * segment holding it is at most 64 KB and comes before the image data
+ */
+export const EXIF_HEAD_BYTES = 128 * 1024;
+
+/**
+ * Find the EXIF segment in the first bytes of a JPEG, as a binary string
+ * starting "Exif" that piexif can load
+ * Returns null if the data isn't a JPEG or has no EXIF that ends within it
+ */
+export const findExifSegment = (head: string): string | null => {
+  if (head.slice(0, 2) !== '\xff\xd8') {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= head.length && head.charCodeAt(offset) === 0xff) {
+    const marker = head.charCodeAt(offset + 1);
+    if (marker === 0xda || marker === 0xd9) {
+      return null; // Image data starts, with no EXIF before it
+    }
+    const end = offset + 2 + ((head.charCodeAt(offset + 2) << 8) | head.charCodeAt(offset + 3));
+    if (marker === 0xe1 && head.slice(offset + 4, offset + 10) === 'Exif\x00\x00') {
+      return end <= head.length ? head.slice(offset + 4, end) : null;
+    }
+    offset = end;
+  }
+  return null;
+};
+
+/**
+ * Read an EXIF date, which has no time zone of its own
+ * With an offset tag the time is exact; without one it is taken as the phone's
+ * local time, which is right for photos taken nearby on the day
+ * Returns null for blank ("0000:00:00 00:00:00") or unreadable dates
+ */
+export const parseExifDateTime = (dateTime?: string, subSec?: string, offset?: string): number | null => {
+  const match = dateTime?.trim().match(EXIF_DATE_TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  if (year === 0 || month === 0 || day === 0) {
+    return null;
+  }
+
+  // Only the first three digits are milliseconds, "5" means half a second
+  const millis = subSec && /^\d+$/.test(subSec.trim()) ? Number(subSec.trim().padEnd(3, '0').slice(0, 3)) : 0;
+
+  const offsetMatch = offset?.trim().match(EXIF_OFFSET_PATTERN);
+  let timestamp: number;
+  if (offset?.trim() === 'Z') {
+    timestamp = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  } else if (offsetMatch) {
+    const sign = offsetMatch[1] === '-' ? -1 : 1;
+    const offsetMs = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3])) * 60 * 1000;
+    timestamp = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis) - offsetMs;
+  } else {
+    timestamp = new Date(year, month - 1, day, hours, minutes, seconds, millis).getTime();
+  }
+
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+const fromRational = ([numerator, denominator]: number[]): number => denominator ? numerator / denominator : 0;
+
+const asString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+/**
+ * Read where the camera was from the GPS tags, if it had a fix
+ */
+const readLocation = (gps: NonNullable<piexif.ExifDict['GPS']>, capturedAt: number | null): PhotoLocation | undefined => {
+  const latitude = gps[piexif.GPSIFD.GPSLatitude];
+  const longitude = gps[piexif.GPSIFD.GPSLongitude];
+  if (!latitude || !longitude) {
+    return undefined;
+  }
+
+  const altitude = gps[piexif.GPSIFD.GPSAltitude];
+  const accuracy = gps[piexif.GPSIFD.GPSHPositioningError];
+  const dateStamp = asString(gps[piexif.GPSIFD.GPSDateStamp]);
+  const timeStamp = gps[piexif.GPSIFD.GPSTimeStamp] as number[][] | undefined;
+
+  // GPS time is always UTC
+  const fixedAt = dateStamp && timeStamp
+    ? parseExifDateTime(`${dateStamp} ${timeStamp.map(part => String(Math.floor(fromRational(part))).padStart(2, '0')).join(':')}`, undefined, 'Z')
+    : null;
+
+  return {
+    latitude: piexif.GPSHelper.dmsRationalToDeg(latitude, gps[piexif.GPSIFD.GPSLatitudeRef] ?? 'N'),
+    longitude: piexif.GPSHelper.dmsRationalToDeg(longitude, gps[piexif.GPSIFD.GPSLongitudeRef] ?? 'E'),
+    ...(altitude ? { altitude: fromRational(altitude) * (gps[piexif.GPSIFD.GPSAltitudeRef] === 1 ? -1 : 1) } : {}),
+    ...(accuracy ? { accuracy: fromRational(accuracy) } : {}),
+    fixedAt: fixedAt ?? capturedAt ?? 0,
+  };
+};
+
+/**
+ * Read when, where and facing which way an imported photo was taken
+ * The file's own EXIF is preferred; the picker's copy fills in what it lacks,
+ * notably the time zone offset, which the EXIF reader doesn't know about
+ */
+export const readImportedPhotoMetadata = (
+  fileExif: piexif.ExifDict | null,
+  pickerExif?: Record<string, unknown> | null
+): ImportedPhotoMetadata => {
+  const exif = fileExif?.Exif ?? {};
+  const picked = (pickerExif?.[PICKER_EXIF_GROUP] ?? pickerExif ?? {}) as Record<string, unknown>;
+
+  const dateTime = asString(exif[piexif.ExifIFD.DateTimeOriginal])
+    ?? asString(picked.DateTimeOriginal)
+    ?? asString(exif[piexif.ExifIFD.DateTimeDigitized])
+    ?? asString(fileExif?.['0th']?.[piexif.ImageIFD.DateTime]);
+  const subSec = asString(exif[piexif.ExifIFD.SubSecTimeOriginal])
+    ?? asString(picked.SubsecTimeOriginal)
+    ?? asString(picked.SubSecTimeOriginal);
+  const offset = asString(picked.OffsetTimeOriginal) ?? asString(picked.OffsetTime);
+  const capturedAt = parseExifDateTime(dateTime, subSec, offset);
+
+  const gps = fileExif?.GPS ?? {};
+  const location = readLocation(gps, capturedAt);
+  const direction = gps[piexif.GPSIFD.GPSImgDirection];
+
+  return {
+    capturedAt,
+    ...(location ? { location } : {}),
+    ...(direction ? {
+      heading: {
+        degrees: fromRational(direction),
+        reference: gps[piexif.GPSIFD.GPSImgDirectionRef] === 'T' ? 'TRUE' : 'MAGNETIC',
+      },
+    } : {}),
+  };
+};
+
+/**
+ * Place a photo taken at a wall-clock time on the inspection timeline, the same
+ * way the camera places its own photos
+ */
+export const placeOnTimeline = (
+  inspection: Pick<Inspection, 'createdAt' | 'audioSessions' | 'audioPauses' | 'audioChunks'>,
+  takenAt: number
+): TimelinePlacement => {
+  const startedAt = inspection.audioSessions?.[0]?.startedAt ?? inspection.createdAt;
+  if (takenAt < startedAt) {
+    return { audioTimestamp: 0, outside: 'BEFORE' };
+  }
+
+  const position = toTimelinePosition(startedAt, inspection.audioPauses ?? [], takenAt);
+  const chunks = inspection.audioChunks ?? [];
+  const duration = getTimelineDuration(chunks);
+  if (chunks.length > 0 && position > duration) {
+    return { audioTimestamp: duration, outside: 'AFTER' };
+  }
+
+  return { audioTimestamp: position, outside: null };
+};
@@ -0,0 +1,190 @@
+import { PhotoQuality, PhotoQualityIssue } from '../types';
+
+/**
+ * Longest edge of the copy a photo is checked on - enough detail to show
+ * shake, small enough to decode in a moment
+ * The thresholds below are tuned at this size; a smaller copy hides blur
+ */
+export const QUALITY_ANALYSIS_MAX_EDGE = 512;
+
+// Variance of the Laplacian below which a photo has lost its fine detail, at QUALITY_ANALYSIS_MAX_EDGE
+export const BLUR_THRESHOLD = 80;
+
+// Luminance at or below / at or above which a pixel carries no detail
+const DARK_LEVEL = 16;
+const BRIGHT_LEVEL = 240;
+
+// A photo is badly exposed when half of it is clipped or its mean is this far off
+const CLIPPED_FRACTION_THRESHOLD = 0.5;
+const UNDEREXPOSED_BRIGHTNESS = 45;
+const OVEREXPOSED_BRIGHTNESS = 215;
+
+// How alike two photos must be to count as the same shot taken twice
+export const DUPLICATE_SIMILARITY = 0.95;
+
+// Photos are compared as a grid of this many blocks a side
+const SIGNATURE_SIZE = 16;
+
+/**
+ * What each issue is called on screen
+ */
+export const QUALITY_ISSUE_LABELS: Record<PhotoQualityIssue, string> = {
+  BLUR: 'Blurry',
+  UNDEREXPOSED: 'Too dark',
+  OVEREXPOSED: 'Too bright',
+  DUPLICATE: 'Same as previous photo',
+};
+
+/**
+ * A decoded photo reduced to one luminance byte per pixel
+ */
+export interface GreyImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * Reduce decoded RGBA pixels to luminance (ITU-R BT.601 weights)
+ */
+export const toGreyImage = (rgba: Uint8Array, width: number, height: number): GreyImage => {
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const offset = i * 4;
+    pixels[i] = Math.round(0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]);
+  }
+  return { width, height, pixels };
+};
+
+/**
+ * Measure how much fine detail a photo has as the variance of its Laplacian
+ * Shake and missed focus smear edges, which flattens the Laplacian
+ */
+export const measureSharpness = ({ width, height, pixels }: GreyImage): number => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * pixels[i] - pixels[i - 1] - pixels[i + 1] - pixels[i - width] - pixels[i + width];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    return 0;
+  }
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+};
+
+/**
+ * Measure a photo's mean luminance and how much of it is crushed or blown out
+ */
+export const measureExposure = ({ pixels }: GreyImage): Pick<PhotoQuality, 'brightness' | 'darkFraction' | 'brightFraction'> => {
+  if (pixels.length === 0) {
+    return { brightness: 0, darkFraction: 0, brightFraction: 0 };
+  }
+
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  for (const value of pixels) {
+    total += value;
+    if (value <= DARK_LEVEL) {
+      dark++;
+    } else if (value >= BRIGHT_LEVEL) {
+      bright++;
+    }
+  }
+
+  return {
+    brightness: total / pixels.length,
+    darkFraction: dark / pixels.length,
+    brightFraction: bright / pixels.length,
+  };
+};
+
+/**
+ * Summarise a photo as a coarse grid of block averages, less their overall mean
+ * so the same shot at a slightly different exposure still matches
+ */
+export const getFrameSignature = ({ width, height, pixels }: GreyImage): number[] => {
+  const blocks: number[] = [];
+
+  for (let row = 0; row < SIGNATURE_SIZE; row++) {
+    const top = Math.floor(row * height / SIGNATURE_SIZE);
+    const bottom = Math.max(Math.floor((row + 1) * height / SIGNATURE_SIZE), top + 1);
+    for (let column = 0; column < SIGNATURE_SIZE; column++) {
+      const left = Math.floor(column * width / SIGNATURE_SIZE);
+      const right = Math.max(Math.floor((column + 1) * width / SIGNATURE_SIZE), left + 1);
+
+      let total = 0;
+      let count = 0;
+      for (let y = top; y < Math.min(bottom, height); y++) {
+        for (let x = left; x < Math.min(right, width); x++) {
+          total += pixels[y * width + x];
+          count++;
+        }
+      }
+      blocks.push(count > 0 ? total / count : 0);
+    }
+  }
+
+  const mean = blocks.reduce((total, block) => total + block, 0) / blocks.length;
+  return blocks.map(block => block - mean);
+};
+
+/**
+ * How alike two frame signatures are, from 0 (nothing in common) to 1 (identical)
+ */
+export const compareFrameSignatures = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  const difference = a.reduce((total, block, i) => total + Math.abs(block - b[i]), 0) / a.length;
+  return Math.max(0, 1 - difference / 255);
+};
+
+/**
+ * Decide which problems a photo's scores point to
+ * Blur isn't judged on a badly exposed photo, which has no detail to judge
+ */
+export const getQualityIssues = (scores: Omit<PhotoQuality, 'issues'>): PhotoQualityIssue[] => {
+  const issues: PhotoQualityIssue[] = [];
+
+  if (scores.darkFraction >= CLIPPED_FRACTION_THRESHOLD || scores.brightness <= UNDEREXPOSED_BRIGHTNESS) {
+    issues.push('UNDEREXPOSED');
+  } else if (scores.brightFraction >= CLIPPED_FRACTION_THRESHOLD || scores.brightness >= OVEREXPOSED_BRIGHTNESS) {
+    issues.push('OVEREXPOSED');
+  } else if (scores.sharpness < BLUR_THRESHOLD) {
+    issues.push('BLUR');
+  }
+
+  if (scores.similarity !== undefined && scores.similarity >= DUPLICATE_SIMILARITY) {
+    issues.push('DUPLICATE');
+  }
+  return issues;
+};
+
+/**
+ * Score a photo and flag its problems, comparing it with the previous photo's signature if there is one
+ * Returns the photo's own signature for comparing the next photo with
+ */
+export const assessPhotoQuality = (
+  image: GreyImage,
+  previousSignature?: number[] | null
+): { quality: PhotoQuality; signature: number[] } => {
+  const signature = getFrameSignature(image);
+  const scores = {
+    sharpness: measureSharpness(image),
+    ...measureExposure(image),
+    ...(previousSignature ? { similarity: compareFrameSignatures(signature, previousSignature) } : {}),
+  };
+
+  return { quality: { ...scores, issues: getQualityIssues(scores) }, signature };
+};
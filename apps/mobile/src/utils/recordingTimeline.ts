@@ -0,0 +1,94 @@
+import { RecordingPause, RecordingPauseReason } from '../types';
+
+/**
+ * A stretch of the recording between two pauses (or the start/end)
+ * Positions are in milliseconds on the recording, which has no gaps
+ */
+export interface TimelineSection {
+  start: number;
+  end: number;
+}
+
+/**
+ * Total wall-clock time spent paused before `until`
+ */
+export const getPausedDuration = (pauses: RecordingPause[], until: number): number =>
+  pauses.reduce((total, pause) => {
+    if (pause.pausedAt >= until) {
+      return total;
+    }
+    const pauseEnd = Math.min(pause.resumedAt ?? until, until);
+    return total + (pauseEnd - pause.pausedAt);
+  }, 0);
+
+/**
+ * Find the pause that covers a wall-clock time, if any
+ */
+export const findPauseAt = (pauses: RecordingPause[], eventAt: number): RecordingPause | null =>
+  pauses.find(pause => eventAt >= pause.pausedAt && (pause.resumedAt === undefined || eventAt < pause.resumedAt)) ?? null;
+
+/**
+ * Map a wall-clock time to a position on the recording
+ * Anything that happens while paused lands where the pause happened,
+ * right after the last thing said before it
+ */
+export const toTimelinePosition = (startedAt: number, pauses: RecordingPause[], eventAt: number): number => {
+  const pause = findPauseAt(pauses, eventAt);
+  if (pause) {
+    return pause.audioOffset;
+  }
+  return Math.max(0, eventAt - startedAt - getPausedDuration(pauses, eventAt));
+};
+
+/**
+ * Get the section of the recording a position belongs to
+ * A position exactly on a pause belongs to the section before it, since
+ * that's where photos taken during the pause are placed
+ */
+export const getTimelineSection = (pauses: RecordingPause[], position: number): TimelineSection => {
+  let start = 0;
+  let end = Number.POSITIVE_INFINITY;
+
+  for (const pause of pauses) {
+    if (pause.audioOffset < position) {
+      start = Math.max(start, pause.audioOffset);
+    } else {
+      end = Math.min(end, pause.audioOffset);
+    }
+  }
+
+  return { start, end };
+};
+
+/**
+ * Record the time between recording stopping and starting again as a pause
+ * A pause that was still open when recording stopped simply ends now
+ */
+export const addInterruptionPause = (
+  pauses: RecordingPause[],
+  audioOffset: number,
+  interruptedAt: number,
+  resumedAt: number,
+  reason: RecordingPauseReason = 'APP_KILLED'
+): RecordingPause[] => {
+  if (pauses.some(pause => pause.resumedAt === undefined)) {
+    return pauses.map(pause => pause.resumedAt === undefined ? { ...pause, resumedAt } : pause);
+  }
+  return [...pauses, { audioOffset, pausedAt: interruptedAt, resumedAt, reason }];
+};
+
+/**
+ * Decode a JSON audio_pauses column
+ */
+export const parseAudioPauses = (json?: string | null): RecordingPause[] => {
+  if (!json) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(json) as RecordingPause[];
+  } catch (error) {
+    console.error('Failed to parse audio pauses:', error);
+    return [];
+  }
+};
@@ -0,0 +1,76 @@
+import { Marker, Photo } from '../types';
+import { findArea } from './areas';
+
+/**
+ * A run of photos on the timeline, headed by the marker that opened it
+ * The first section has no marker when photos were taken before any marker
+ */
+export interface ReportSection {
+  marker: Marker | null;
+  photos: Photo[];
+}
+
+/**
+ * The photos of one area of the property, or of no area
+ */
+export interface AreaSection {
+  area: string | null;
+  photos: Photo[];
+}
+
+/**
+ * Split an inspection's photos into sections at each marker
+ * A photo at the same position as a marker belongs to that marker's section;
+ * markers without photos still get an empty section so they show in the report
+ */
+export const buildReportSections = (photos: Photo[], markers: Marker[]): ReportSection[] => {
+  const sortedMarkers = [...markers].sort((a, b) => a.audioTimestamp - b.audioTimestamp);
+  const sortedPhotos = [...photos].sort((a, b) => a.audioTimestamp - b.audioTimestamp);
+
+  const sections: ReportSection[] = [{ marker: null, photos: [] }];
+  for (const marker of sortedMarkers) {
+    sections.push({ marker, photos: [] });
+  }
+
+  let current = 0;
+  for (const photo of sortedPhotos) {
+    while (current + 1 < sections.length && sections[current + 1].marker!.audioTimestamp <= photo.audioTimestamp) {
+      current++;
+    }
+    sections[current].photos.push(photo);
+  }
+
+  // Drop the leading section when every photo falls under a marker
+  return sections[0].photos.length === 0 && sections.length > 1 ? sections.slice(1) : sections;
+};
+
+/**
+ * Heading for a marker: what the engineer typed, else the generated caption
+ */
+export const getMarkerTitle = (marker: Marker): string =>
+  marker.label || marker.caption || 'Marker';
+
+/**
+ * Group an inspection's photos by area, in time order within each area
+ * Areas follow the inspection's list, then areas no longer on it, then
+ * untagged photos; areas without photos are left out
+ */
+export const buildAreaSections = (photos: Photo[], areas: string[]): AreaSection[] => {
+  const sortedPhotos = [...photos].sort((a, b) => a.audioTimestamp - b.audioTimestamp);
+  const sections = new Map<string, Photo[]>(areas.map(area => [area, []]));
+  const untagged: Photo[] = [];
+
+  for (const photo of sortedPhotos) {
+    if (!photo.area) {
+      untagged.push(photo);
+      continue;
+    }
+    const area = findArea([...sections.keys()], photo.area) ?? photo.area;
+    sections.set(area, [...(sections.get(area) ?? []), photo]);
+  }
+
+  return [
+    ...[...sections].map(([area, areaPhotos]) => ({ area, photos: areaPhotos })),
+    { area: null, photos: untagged },
+  ].filter(section => section.photos.length > 0);
+};
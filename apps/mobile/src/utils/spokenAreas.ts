@@ -0,0 +1,126 @@
+import { AreaProposal } from '../types';
+import { findArea, normalizeAreaName } from './areas';
+
+/**
+ * A piece of transcript on the inspection timeline
+ */
+interface SpokenSegment {
+  start: number; // ms
+  text: string;
+}
+
+// Phrases engineers use when they move on, followed by where they are going:
+// "moving to the", "heading into the", "now in the", "we're on the", "this is the"
+const CUE_PATTERN = new RegExp(
+  '\\b(?:(?:moving|move|going|go|heading|head|walking|walk|stepping|step|coming|come|over)\\s+(?:on\\s+|over\\s+|back\\s+|up\\s+|down\\s+|out\\s+)?(?:in|on|up|out)?to'
+  + '|(?:now|we\'re|we are|i\'m|i am)\\s+(?:in|on|at|up on|down in|out)'
+  + '|entering|inside|this is)'
+  + '\\s+(?:the\\s+|a\\s+)?([a-z][a-z\'-]*(?:\\s+[a-z][a-z\'-]*){0,4})',
+  'gi'
+);
+
+// Words that name a part of a property; a cue only counts if it mentions one,
+// so "moving to the next item" isn't taken for an area
+const AREA_WORDS = new Set([
+  'attic', 'balcony', 'basement', 'bath', 'bathroom', 'bedroom', 'carport', 'cellar', 'closet',
+  'conservatory', 'corridor', 'crawlspace', 'deck', 'den', 'dining', 'driveway', 'elevation',
+  'ensuite', 'entry', 'exterior', 'facade', 'fence', 'foyer', 'garage', 'garden', 'gutter', 'gutters',
+  'hall', 'hallway', 'interior', 'kitchen', 'landing', 'laundry', 'lobby', 'loft', 'lounge',
+  'office', 'pantry', 'patio', 'porch', 'roof', 'room', 'shed', 'stairs', 'staircase', 'stairwell',
+  'study', 'subfloor', 'toilet', 'utility', 'veranda', 'wardrobe', 'yard',
+]);
+
+// Words that can follow an area name and still be part of it, e.g. "exterior north"
+const TRAILING_WORDS = new Set([
+  'north', 'south', 'east', 'west', 'front', 'rear', 'back', 'left', 'right', 'side', 'one', 'two', 'three',
+]);
+
+// Words that can't be part of an area name, e.g. "moving on to check the roof"
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'check', 'for', 'have', 'inspect', 'look', 'of', 'our', 'see', 'that', 'the', 'this', 'to', 'with',
+]);
+
+// An area name is at most this many words before the word that makes it an area
+const MAX_LEADING_WORDS = 2;
+
+const titleCase = (words: string[]): string =>
+  words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * Find the words after a cue that name an area, as [start, end) indexes, or null if none do
+ * "master bathroom and the vanity" -> "master bathroom"
+ */
+const findAreaWords = (words: string[]): [number, number] | null => {
+  let start = 0;
+  let end = -1;
+  for (let i = 0; i < words.length; i++) {
+    if (AREA_WORDS.has(words[i])) {
+      end = i;
+    } else if (end >= 0) {
+      if (!TRAILING_WORDS.has(words[i])) {
+        break;
+      }
+    } else if (STOP_WORDS.has(words[i])) {
+      start = i + 1;
+    }
+  }
+
+  if (end < 0) {
+    return null;
+  }
+  start = Math.max(start, end - MAX_LEADING_WORDS);
+  while (end + 1 < words.length && TRAILING_WORDS.has(words[end + 1])) {
+    end++;
+  }
+  return [start, end + 1];
+};
+
+/**
+ * Find the places in a transcript where the engineer said they were moving to another area
+ * Names already on the inspection's area list keep the list's spelling; a cue
+ * that repeats the current area isn't a change and is left out
+ */
+export const detectAreaProposals = (segments: SpokenSegment[], areas: string[]): AreaProposal[] => {
+  const proposals: AreaProposal[] = [];
+  const sortedSegments = [...segments].sort((a, b) => a.start - b.start);
+
+  for (const segment of sortedSegments) {
+    // Each sentence is searched on its own so a cue never runs into the next one
+    for (const sentence of segment.text.toLowerCase().split(/[.,;:!?]+/)) {
+      for (const match of sentence.matchAll(CUE_PATTERN)) {
+        const words = match[1].split(/\s+/);
+        const range = findAreaWords(words);
+        if (!range) {
+          continue;
+        }
+
+        const name = normalizeAreaName(titleCase(words.slice(...range)));
+        const area = findArea(areas, name) ?? name;
+        if (proposals[proposals.length - 1]?.area === area) {
+          continue;
+        }
+
+        proposals.push({
+          id: `area-${segment.start}-${proposals.length}`,
+          audioTimestamp: segment.start,
+          area,
+          phrase: `${match[0].slice(0, match[0].length - match[1].length)}${words.slice(0, range[1]).join(' ')}`.trim(),
+          status: 'PROPOSED',
+        });
+      }
+    }
+  }
+
+  return proposals;
+};
+
+/**
+ * The area a timeline position falls in according to the proposals the engineer hasn't rejected
+ */
+export const getProposedAreaAt = (proposals: AreaProposal[], position: number): string | null => {
+  const proposal = [...proposals]
+    .filter(candidate => candidate.status !== 'REJECTED' && candidate.audioTimestamp <= position)
+    .sort((a, b) => a.audioTimestamp - b.audioTimestamp)
+    .pop();
+  return proposal?.area ?? null;
+};
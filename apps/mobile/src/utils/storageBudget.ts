@@ -0,0 +1,57 @@
+import { RecordingProfile } from '../types';
+
+/**
+ * How long we plan for when checking space before an inspection
+ */
+export const EXPECTED_INSPECTION_DURATION_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Space to leave free for photos, the database and the OS
+ */
+export const STORAGE_RESERVE_BYTES = 500 * 1024 * 1024;
+
+// The MPEG-4 container adds a little on top of the encoded audio
+const CONTAINER_OVERHEAD = 1.02;
+
+export interface StorageBudget {
+  estimatedBytes: number; // Expected size of the recording
+  freeBytes: number;
+  maxDurationMs: number; // How long we can record before eating into the reserve
+  sufficient: boolean;
+}
+
+/**
+ * Expected size of a recording made with a profile
+ */
+export const estimateRecordingBytes = (profile: RecordingProfile, durationMs: number): number =>
+  Math.ceil((profile.bitRate / 8) * (durationMs / 1000) * CONTAINER_OVERHEAD);
+
+/**
+ * Compare the expected size of a recording with the free space on the device
+ */
+export const checkStorageBudget = (
+  profile: RecordingProfile,
+  durationMs: number,
+  freeBytes: number
+): StorageBudget => {
+  const estimatedBytes = estimateRecordingBytes(profile, durationMs);
+  const usableBytes = Math.max(freeBytes - STORAGE_RESERVE_BYTES, 0);
+  const bytesPerMs = estimateRecordingBytes(profile, 1000) / 1000;
+
+  return {
+    estimatedBytes,
+    freeBytes,
+    maxDurationMs: Math.floor(usableBytes / bytesPerMs),
+    sufficient: estimatedBytes <= usableBytes,
+  };
+};
+
+/**
+ * Format a byte count for display, e.g. "21.6 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1000 * 1000 * 1000) {
+    return `${(bytes / (1000 * 1000 * 1000)).toFixed(1)} GB`;
+  }
+  return `${(bytes / (1000 * 1000)).toFixed(1)} MB`;
+};
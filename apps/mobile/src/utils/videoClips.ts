@@ -0,0 +1,40 @@
+import { VideoClip } from '../types';
+
+/**
+ * Longest clip the camera records; enough to show a drip or a joist flexing
+ * without filling the phone or the upload queue
+ */
+export const MAX_CLIP_DURATION_MS = 30 * 1000;
+
+/**
+ * How far the inspection audio may drift from a playing clip before it is moved back in step
+ * Kept above the player's own position reporting jitter so playback isn't constantly re-seeked
+ */
+export const CLIP_SYNC_TOLERANCE_MS = 300;
+
+/**
+ * File name of a video clip in the document directory
+ */
+export const getVideoClipFileName = (inspectionId: string, startedAt: number, extension: string): string =>
+  `inspection_clip_${inspectionId}_${startedAt}.${extension}`;
+
+/**
+ * Length of a clip on the inspection timeline
+ */
+export const getClipDuration = (clip: Pick<VideoClip, 'audioTimestamp' | 'endAudioTimestamp'>): number =>
+  Math.max(clip.endAudioTimestamp - clip.audioTimestamp, 0);
+
+/**
+ * Position on the inspection timeline for a position inside a clip
+ * Positions past the end of the clip land at its end
+ */
+export const getClipAudioPosition = (
+  clip: Pick<VideoClip, 'audioTimestamp' | 'endAudioTimestamp'>,
+  positionInClip: number
+): number => clip.audioTimestamp + Math.min(Math.max(positionInClip, 0), getClipDuration(clip));
+
+/**
+ * Whether the inspection audio has drifted far enough from a playing clip to be moved
+ */
+export const isAudioOutOfSync = (audioPosition: number, clipAudioPosition: number): boolean =>
+  Math.abs(audioPosition - clipAudioPosition) > CLIP_SYNC_TOLERANCE_MS;